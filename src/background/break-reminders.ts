@@ -0,0 +1,226 @@
+// src/background/break-reminders.ts
+// Eye-care break reminders. chrome.alarms ends each work interval and break,
+// chrome.notifications announces them (with Snooze/Skip buttons) and chrome.idle
+// pauses the work timer while nobody is at the machine. The timer and the daily
+// log live in chrome.storage.local, so they survive the worker being stopped.
+
+import notificationIconUrl from '~/assets/icon128.png';
+import {
+  BreakRemindersSchema,
+  BreakTimerSchema,
+  BreakLogSchema,
+  BreakReminders,
+  BreakTimer,
+  BreakLog,
+  BreakStatus,
+} from '~/lib/schemas.ts';
+import {
+  BreakEvent,
+  formatDuration,
+  getBreakTakenIdleSeconds,
+  pauseForIdle,
+  recordBreakEvent,
+  resumeFromIdle,
+  startBreakPhase,
+  startWorkPhase,
+} from '~/lib/break-reminders.ts';
+
+export const BREAK_REMINDER_ALARM = 'eyelove-break-reminder';
+const BREAK_NOTIFICATION_ID = 'eyelove-break';
+
+// chrome.storage.local keys
+const BREAK_TIMER_KEY = 'breakTimer';
+const BREAK_LOG_KEY = 'breakLog';
+
+// Seconds without input before the machine counts as idle
+const IDLE_DETECTION_SECONDS = 60;
+
+// Notification buttons, in order
+const SNOOZE_BUTTON_INDEX = 0;
+const SKIP_BUTTON_INDEX = 1;
+
+async function getBreakSettings(): Promise<BreakReminders> {
+  const { breakReminders } = await chrome.storage.sync.get('breakReminders');
+  const parsed = BreakRemindersSchema.safeParse(breakReminders ?? {});
+  return parsed.success ? parsed.data : BreakRemindersSchema.parse({});
+}
+
+async function getBreakTimer(): Promise<BreakTimer | null> {
+  const { [BREAK_TIMER_KEY]: timer } = await chrome.storage.local.get(BREAK_TIMER_KEY);
+  const parsed = BreakTimerSchema.safeParse(timer);
+  return parsed.success ? parsed.data : null;
+}
+
+async function getBreakLog(): Promise<BreakLog> {
+  const { [BREAK_LOG_KEY]: log } = await chrome.storage.local.get(BREAK_LOG_KEY);
+  const parsed = BreakLogSchema.safeParse(log ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+/**
+ * Stores the timer and arms the alarm for the end of its phase (none while idle).
+ * Note: Chrome fires alarms no sooner than 30 seconds out, so shorter breaks end after 30 seconds.
+ */
+async function setBreakTimer(timer: BreakTimer | null) {
+  await chrome.alarms.clear(BREAK_REMINDER_ALARM);
+  if (!timer) {
+    await chrome.storage.local.remove(BREAK_TIMER_KEY);
+    return;
+  }
+  await chrome.storage.local.set({ [BREAK_TIMER_KEY]: timer });
+  if (timer.phaseEndsAt !== null) {
+    chrome.alarms.create(BREAK_REMINDER_ALARM, { when: timer.phaseEndsAt });
+  }
+}
+
+async function logBreakEvent(event: BreakEvent) {
+  const log = await getBreakLog();
+  await chrome.storage.local.set({ [BREAK_LOG_KEY]: recordBreakEvent(log, event) });
+}
+
+function showBreakStartNotification(settings: BreakReminders) {
+  chrome.notifications.create(BREAK_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: notificationIconUrl,
+    title: 'Time for an eye break',
+    message: `Look at something about 20 feet (6 m) away for ${settings.breakSeconds} seconds.`,
+    buttons: [{ title: `Snooze ${settings.snoozeMinutes} min` }, { title: 'Skip' }],
+    priority: 2,
+  });
+}
+
+function showBreakOverNotification(settings: BreakReminders) {
+  chrome.notifications.create(BREAK_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: notificationIconUrl,
+    title: 'Break over',
+    message: `Next break in ${formatDuration(settings.workMinutes * 60_000)}.`,
+    silent: true,
+  });
+}
+
+/**
+ * Brings the reminders in line with the settings: stops them when disabled, starts
+ * a work interval when enabled. `restart` discards the current timer (settings
+ * changed, or the browser was closed and the old timer is meaningless).
+ */
+export async function syncBreakReminders(restart = false) {
+  const settings = await getBreakSettings();
+  if (!settings.enabled) {
+    await setBreakTimer(null);
+    chrome.notifications.clear(BREAK_NOTIFICATION_ID);
+    return;
+  }
+
+  chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+  const timer = await getBreakTimer();
+  if (restart || !timer) {
+    await setBreakTimer(startWorkPhase(settings, Date.now()));
+    console.info(`Break reminders: next break in ${settings.workMinutes} min`);
+  } else if (timer.phaseEndsAt !== null && timer.phaseEndsAt <= Date.now()) {
+    await handleBreakAlarm(); // The phase ended while the worker was stopped
+  } else {
+    await setBreakTimer(timer); // Re-arm the alarm
+  }
+}
+
+/**
+ * The current phase ended: a work interval turns into a break, a break into the next work interval.
+ * A break only counts as taken if the machine was idle or locked for most of it.
+ */
+export async function handleBreakAlarm() {
+  const settings = await getBreakSettings();
+  const timer = await getBreakTimer();
+  if (!settings.enabled || !timer) return;
+
+  const now = Date.now();
+  if (timer.phase === 'working') {
+    await setBreakTimer(startBreakPhase(settings, now));
+    showBreakStartNotification(settings);
+  } else if (timer.phase === 'break') {
+    const idleSeconds = getBreakTakenIdleSeconds(timer, settings, now);
+    const idleState = await new Promise<chrome.idle.IdleState>((resolve) => chrome.idle.queryState(idleSeconds, resolve));
+    await logBreakEvent(idleState === 'active' ? 'missed' : 'taken');
+    await setBreakTimer(startWorkPhase(settings, now));
+    showBreakOverNotification(settings);
+  }
+}
+
+/**
+ * Starts a break right away (keyboard command). With reminders disabled, a
+ * notification points to the Options page instead.
+ */
+export async function startBreakNow() {
+  const settings = await getBreakSettings();
+  if (!settings.enabled) {
+    chrome.notifications.create(BREAK_NOTIFICATION_ID, {
+      type: 'basic',
+      iconUrl: notificationIconUrl,
+      title: 'Break reminders are off',
+      message: 'Turn on break reminders on the Options page to use this shortcut.',
+      silent: true,
+    });
+    return;
+  }
+  await setBreakTimer(startBreakPhase(settings, Date.now()));
+  showBreakStartNotification(settings);
+}
+
+/**
+ * Postpones the (current or next) break by the snooze interval.
+ */
+export async function snoozeBreak() {
+  const settings = await getBreakSettings();
+  if (!settings.enabled) return;
+  await logBreakEvent('snoozed');
+  await setBreakTimer(startWorkPhase(settings, Date.now(), settings.snoozeMinutes * 60_000));
+  chrome.notifications.clear(BREAK_NOTIFICATION_ID);
+}
+
+/**
+ * Skips the (current or next) break and starts a full work interval.
+ */
+export async function skipBreak() {
+  const settings = await getBreakSettings();
+  if (!settings.enabled) return;
+  await logBreakEvent('skipped');
+  await setBreakTimer(startWorkPhase(settings, Date.now()));
+  chrome.notifications.clear(BREAK_NOTIFICATION_ID);
+}
+
+/**
+ * Handles the Snooze/Skip buttons on the break notification.
+ */
+export async function handleBreakNotificationButton(notificationId: string, buttonIndex: number) {
+  if (notificationId !== BREAK_NOTIFICATION_ID) return;
+  if (buttonIndex === SNOOZE_BUTTON_INDEX) await snoozeBreak();
+  else if (buttonIndex === SKIP_BUTTON_INDEX) await skipBreak();
+}
+
+/**
+ * Pauses the work timer when the machine goes idle or locks, and resumes it on return.
+ */
+export async function handleIdleStateChange(state: chrome.idle.IdleState) {
+  const settings = await getBreakSettings();
+  const timer = await getBreakTimer();
+  if (!settings.enabled || !timer) return;
+
+  const now = Date.now();
+  const updated = state === 'active' ? resumeFromIdle(timer, settings, now) : pauseForIdle(timer, now);
+  if (updated !== timer) {
+    console.info(`Break reminders: machine ${state}, timer now ${updated.phase}`);
+    await setBreakTimer(updated);
+  }
+}
+
+/**
+ * Timer and log for the popup and the Options page.
+ */
+export async function getBreakStatus(): Promise<BreakStatus> {
+  const settings = await getBreakSettings();
+  return {
+    enabled: settings.enabled,
+    timer: settings.enabled ? await getBreakTimer() : null,
+    log: await getBreakLog(),
+  };
+}
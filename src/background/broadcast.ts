@@ -0,0 +1,43 @@
+// src/background/broadcast.ts
+// Delivers page state to the content scripts of every tab, in every window. A tab
+// request without a frameId reaches all of the tab's frames, so iframes are
+// updated along with the top document.
+
+import type { PageState } from '~/lib/schemas.ts';
+import { RpcError, callTab } from '~/lib/rpc.ts';
+
+// Schemes content scripts never run on: messaging these tabs can only fail
+const UNSCRIPTABLE_URL = /^(chrome|chrome-extension|edge|about|devtools|view-source):/;
+
+/**
+ * Sends 'updateBodyClass' to every tab that may run the content script.
+ * `getState` is called per tab, so each tab gets the state resolved for its own
+ * URL; returning null skips the tab. Tabs without a receiver (still loading,
+ * discarded, restricted pages) are skipped quietly.
+ *
+ * @returns The number of tabs the request reached
+ */
+export async function broadcastToTabs(getState: (tab: chrome.tabs.Tab) => PageState | null): Promise<number> {
+  const tabs = await chrome.tabs.query({});
+  const results = await Promise.allSettled(
+    tabs.map(async (tab) => {
+      if (tab.id === undefined || tab.discarded || (tab.url && UNSCRIPTABLE_URL.test(tab.url))) return false;
+      const state = getState(tab);
+      if (!state) return false;
+      await callTab(tab.id, {}, 'updateBodyClass', state);
+      return true;
+    }),
+  );
+
+  let delivered = 0;
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      if (result.value) delivered++;
+      return;
+    }
+    if (!(result.reason instanceof RpcError && result.reason.code === 'no-receiver')) {
+      console.warn(`Could not send state to tab ${tabs[index].id}:`, result.reason);
+    }
+  });
+  return delivered;
+}
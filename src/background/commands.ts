@@ -0,0 +1,75 @@
+// src/background/commands.ts
+// Keyboard commands. Each one writes the changed setting to storage;
+// the storage listener then pushes the new state to the tabs, exactly as when the
+// popup changes it. Commands run one at a time, so quick repeated presses each
+// build on the previous one's write.
+
+import { AppearanceSchema, Settings } from '~/lib/schemas.ts';
+import { getNextTheme, isKeyboardCommand, stepBrightness } from '~/lib/commands.ts';
+import { resolveSiteState, upsertSiteRule } from '~/lib/site-rules.ts';
+import { writeSettings } from '~/lib/settings-store.ts';
+import { startBreakNow } from './break-reminders';
+
+// The last queued command; the next one starts once it has settled
+let commandQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Flips dark mode for the tab's site with an exact rule for its hostname,
+ * keeping the overrides (algorithm, media policy) of an existing exact rule.
+ */
+async function toggleSite(settings: Partial<Settings>, tab: chrome.tabs.Tab | undefined) {
+  const site = resolveSiteState(settings, tab?.url);
+  if (!site.hostname) {
+    console.info('Keyboard command: no site to toggle on this page');
+    return;
+  }
+  const existing = site.rule?.pattern === site.hostname ? site.rule : null;
+  const rule = { ...existing, pattern: site.hostname, mode: site.enabled ? 'off' : 'on' } as const;
+  await writeSettings({ siteRules: upsertSiteRule(settings.siteRules ?? [], rule) });
+}
+
+/**
+ * Queues a keyboard command behind the ones still running. Settings are read when
+ * its turn comes, so each command sees the writes of the commands before it.
+ * `tab` is the active tab when the command was pressed.
+ */
+export function handleKeyboardCommand(command: string, getSettings: () => Promise<Partial<Settings>>, tab?: chrome.tabs.Tab): Promise<void> {
+  const run = commandQueue.then(async () => runKeyboardCommand(command, await getSettings(), tab));
+  commandQueue = run.catch(() => undefined); // A failed command doesn't hold up the next
+  return run;
+}
+
+/**
+ * Runs a keyboard command against the current settings.
+ */
+async function runKeyboardCommand(command: string, settings: Partial<Settings>, tab?: chrome.tabs.Tab) {
+  if (!isKeyboardCommand(command)) {
+    console.warn('Unknown keyboard command:', command);
+    return;
+  }
+  console.info('Keyboard command:', command);
+
+  switch (command) {
+    case 'toggle-enabled':
+      await writeSettings({ enabled: !(settings.enabled ?? true) });
+      break;
+    case 'toggle-site':
+      await toggleSite(settings, tab);
+      break;
+    case 'cycle-theme':
+      await writeSettings({ theme: getNextTheme(settings.theme, Boolean(settings.location)) });
+      break;
+    case 'brightness-up':
+    case 'brightness-down': {
+      const appearance = AppearanceSchema.parse(settings.appearance ?? {});
+      const brightness = stepBrightness(appearance.brightness, command === 'brightness-up' ? 1 : -1);
+      if (brightness !== appearance.brightness) {
+        await writeSettings({ appearance: { ...appearance, brightness } });
+      }
+      break;
+    }
+    case 'start-break':
+      await startBreakNow();
+      break;
+  }
+}
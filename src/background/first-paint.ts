@@ -0,0 +1,77 @@
+// src/background/first-paint.ts
+// Keeps the first-paint state in chrome.storage.session up to date, so pages loaded
+// from now on start out with the current settings (see ~/lib/first-paint.ts).
+
+import { AppearanceSchema, DarkHostsSchema, FirstPaintState, Settings, WarmthSchema } from '~/lib/schemas.ts';
+import { COLOR_TRANSFORMERS, withAppearance } from '~/lib/color-transform.ts';
+import { DARK_HOSTS_KEY, FIRST_PAINT_KEY, recordDarkHost } from '~/lib/first-paint.ts';
+import { getHostname } from '~/lib/site-rules.ts';
+import { getScheduleState } from '~/lib/theme-schedule.ts';
+import { isWarmthActive } from '~/lib/warmth.ts';
+
+/**
+ * Lets content scripts read chrome.storage.session (by default only extension
+ * pages can). Not persisted, so it's called every time the worker starts.
+ *
+ * This opens every session key, not just the first-paint state: never store
+ * browsing data there (URLs, hostnames, tab ids with their pages) in the clear;
+ * it belongs in the worker's memory, or hashed with a key that stays there (see
+ * frames.ts). The dark hosts are the one deliberate exception, see hashHostname.
+ */
+export function allowFirstPaintAccess() {
+  chrome.storage.session.setAccessLevel({ accessLevel: 'TRUSTED_AND_UNTRUSTED_CONTEXTS' }).catch((error) => {
+    console.error('Could not open session storage to content scripts:', error);
+  });
+}
+
+function buildFirstPaintState(settings: Partial<Settings>): FirstPaintState {
+  const appearance = AppearanceSchema.parse(settings.appearance ?? {});
+  const warmth = WarmthSchema.parse(settings.warmth ?? {});
+  const pageFilters: Record<string, string> = {};
+  for (const [id, transformer] of Object.entries(COLOR_TRANSFORMERS)) {
+    const { pageFilter } = withAppearance(transformer, appearance);
+    if (pageFilter) pageFilters[id] = pageFilter;
+  }
+  return {
+    enabled: settings.enabled ?? true,
+    theme: settings.theme ?? 'auto',
+    scheduleDark: getScheduleState(settings)?.dark,
+    warmthReplacesDark: warmth.mode === 'replace' && isWarmthActive(settings),
+    algorithm: settings.algorithm ?? 'invert',
+    siteRules: settings.siteRules ?? [],
+    backgroundColor: appearance.backgroundColor,
+    textColor: appearance.textColor,
+    pageFilters,
+    detectDarkPages: settings.detectDarkPages ?? true,
+    skipCrossOriginFrames: settings.skipCrossOriginFrames ?? false,
+  };
+}
+
+/**
+ * Stores the first-paint state for the given settings.
+ */
+export async function updateFirstPaintState(settings: Partial<Settings>) {
+  try {
+    await chrome.storage.session.set({ [FIRST_PAINT_KEY]: buildFirstPaintState(settings) });
+  } catch (error) {
+    console.error('Error storing first-paint state:', error);
+  }
+}
+
+/**
+ * Remembers whether a top-level page turned out to be dark, so the next page load
+ * of its host isn't painted dark before the content script has checked it.
+ */
+export async function recordPageDarkness(url: string | undefined, prefersDark: boolean, isDark: boolean) {
+  const hostname = getHostname(url);
+  if (!hostname) return;
+  try {
+    const stored = await chrome.storage.session.get(DARK_HOSTS_KEY);
+    const parsed = DarkHostsSchema.safeParse(stored[DARK_HOSTS_KEY]);
+    const current = parsed.success ? parsed.data : { salt: crypto.randomUUID(), hosts: {} };
+    const darkHosts = recordDarkHost(current, hostname, prefersDark, isDark);
+    await chrome.storage.session.set({ [DARK_HOSTS_KEY]: darkHosts });
+  } catch (error) {
+    console.error('Error storing page darkness:', error);
+  }
+}
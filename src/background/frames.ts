@@ -0,0 +1,78 @@
+// src/background/frames.ts
+// Keeps frames consistent with their top-level page. The top frame shares how it
+// styled the page (see PageHandlingSchema); frames loaded later read it from here,
+// frames already running get it relayed. Kept in chrome.storage.session, so a
+// restarted worker still knows, one key per tab. Content scripts can read session
+// storage, so the page is only identified by a keyed hash of its URL (which also keeps
+// a navigated tab from being mistaken for its previous page). The key lives only in
+// the worker's memory, so nothing that reads the storage can confirm a guessed URL;
+// after a worker restart the stored entries no longer match and frames wait for
+// their top frame to share its handling again.
+
+import { z } from 'zod';
+import { PageHandling, PageHandlingSchema } from '~/lib/schemas.ts';
+import { RpcError, callTab } from '~/lib/rpc.ts';
+
+// chrome.storage.session key prefix, followed by the tab id
+const TOP_FRAME_HANDLING_KEY_PREFIX = 'topFrameHandling:';
+
+const TopFrameHandlingSchema = z.object({ urlHash: z.string(), handling: PageHandlingSchema });
+
+function getStorageKey(tabId: number): string {
+  return `${TOP_FRAME_HANDLING_KEY_PREFIX}${tabId}`;
+}
+
+// HMAC key for URL hashes, created once per worker lifetime and never stored
+let urlHashKey: Promise<CryptoKey> | null = null;
+
+/**
+ * HMAC-SHA-256 of a URL under the worker's secret key, hex encoded.
+ */
+async function hashUrl(url: string): Promise<string> {
+  urlHashKey ??= crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const digest = await crypto.subtle.sign('HMAC', await urlHashKey, new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * How the top-level page of a tab was styled, or null when its current page
+ * hasn't shared it (yet).
+ */
+export async function getTopFrameHandling(tabId: number | undefined, url: string | undefined): Promise<PageHandling | null> {
+  if (tabId === undefined || !url) return null;
+  try {
+    const key = getStorageKey(tabId);
+    const parsed = TopFrameHandlingSchema.safeParse((await chrome.storage.session.get(key))[key]);
+    return parsed.success && parsed.data.urlHash === (await hashUrl(url)) ? parsed.data.handling : null;
+  } catch (error) {
+    console.error('Error reading top frame handling:', error);
+    return null;
+  }
+}
+
+/**
+ * Records how a tab's top-level page was styled and relays it to the tab's frames.
+ */
+export async function shareTopFrameHandling(tabId: number, url: string, handling: PageHandling) {
+  try {
+    await chrome.storage.session.set({ [getStorageKey(tabId)]: { urlHash: await hashUrl(url), handling } });
+  } catch (error) {
+    console.error('Error storing top frame handling:', error);
+  }
+  try {
+    await callTab(tabId, {}, 'setTopFrameHandling', { handling });
+  } catch (error) {
+    if (!(error instanceof RpcError && error.code === 'no-receiver')) console.warn(`Could not relay top frame handling to tab ${tabId}:`, error);
+  }
+}
+
+/**
+ * Forgets a closed tab.
+ */
+export async function forgetTopFrameHandling(tabId: number) {
+  try {
+    await chrome.storage.session.remove(getStorageKey(tabId));
+  } catch (error) {
+    console.error('Error forgetting top frame handling:', error);
+  }
+}
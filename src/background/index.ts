@@ -1,36 +1,78 @@
-import { SettingsSchema, Settings, parseMessage } from '~/lib/schemas.ts'; // Import Zod schemas/types
+import { SettingsSchema, Settings, WarmthSchema, AppearanceSchema, MediaSettingsSchema, PageState, BACKGROUND_RPC } from '~/lib/schemas.ts'; // Import Zod schemas/types
+import { RpcHandlers, createRpcListener } from '~/lib/rpc.ts';
+import { resolveSiteState, upsertSiteRule, removeSiteRule } from '~/lib/site-rules.ts';
+import { resolveSiteFix } from '~/lib/site-fixes.ts';
+import { findProfile, getProfileChanges } from '~/lib/profiles.ts';
+import { getSettingsChanges, migrateSettings, readSettings, repairSettings, writeSettings } from '~/lib/settings-store.ts';
+import { getScheduleState } from '~/lib/theme-schedule.ts';
+import { getWarmthScheduleState, isWarmthActive } from '~/lib/warmth.ts';
+import {
+  BREAK_REMINDER_ALARM,
+  syncBreakReminders,
+  handleBreakAlarm,
+  handleBreakNotificationButton,
+  handleIdleStateChange,
+  snoozeBreak,
+  skipBreak,
+  getBreakStatus,
+} from './break-reminders';
+import { handleKeyboardCommand } from './commands';
+import { broadcastToTabs } from './broadcast';
+import { allowFirstPaintAccess, recordPageDarkness, updateFirstPaintState } from './first-paint';
+import { forgetTopFrameHandling, getTopFrameHandling, shareTopFrameHandling } from './frames';
+import { fetchFrameStyleSheet } from './style-sheets';
 
 console.info('EyeLove Background Service Worker Initialized');
+allowFirstPaintAccess();
 
-// Function to get current settings safely
+// Alarm that fires at the next scheduled light/dark transition
+const THEME_SCHEDULE_ALARM = 'eyelove-theme-schedule';
+
+// Function to get current settings safely. Damaged settings are reported and
+// repaired (their valid parts kept) instead of replacing everything with defaults.
 async function getSettings(): Promise<Partial<Settings>> {
   try {
-    const settings = await chrome.storage.sync.get(['enabled', 'theme']);
-    // Validate settings retrieved from storage
-    return SettingsSchema.partial().parse(settings || {});
+    const { settings, issues } = await readSettings();
+    if (issues.length > 0) {
+      console.error('Stored settings failed validation:', issues);
+      await repairSettings(settings, issues);
+    }
+    return settings;
   } catch (error) {
-    console.error('Error retrieving or validating settings:', error);
-    return { enabled: true, theme: 'auto' }; // Return default on error
+    console.error('Error retrieving settings:', error);
+    return SettingsSchema.parse({}); // Return defaults on error
   }
 }
 
-// Function to send message to active tab's content script
-async function sendMessageToActiveTab(message: { action: string; payload?: Record<string, unknown> }) {
-  const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
-  if (tabs[0]?.id) {
-    try {
-        console.info(`Background sending message to tab ${tabs[0].id}:`, message);
-        console.log(`[EyeLove BG] sendMessageToActiveTab: Attempting to send message to tab ${tabs[0].id}:`, message);
-        // Important: Check if the tab is ready before sending complex messages
-        // For simple toggles, it might be okay, but consider tab status for heavier actions.
-        await chrome.tabs.sendMessage(tabs[0].id, message);
-        console.log(`[EyeLove BG] sendMessageToActiveTab: Message sent successfully to tab ${tabs[0].id}`);
-    } catch (error) {
-        // Often happens if the content script isn't injected or ready on that specific page (e.g., chrome:// pages)
-        console.warn(`Could not send message to active tab ${tabs[0].id}:`, error instanceof Error ? error.message : error);
-    }
-  } else {
-      console.warn("Could not find active tab to send message.");
+// Builds the 'updateBodyClass' payload for a page, with its site rule and fixes resolved.
+// Frames refresh their own state when it arrives (see 'queryInitialState').
+function getPageState(settings: Partial<Settings>, url: string | undefined): PageState {
+  const site = resolveSiteState(settings, url);
+  const scheduleDark = getScheduleState(settings)?.dark;
+  return { enabled: site.enabled, theme: settings.theme, algorithm: site.algorithm, contrastTarget: settings.contrastTarget, engine: settings.engine, scheduleDark, warmth: settings.warmth, warmthActive: isWarmthActive(settings), appearance: settings.appearance, media: { ...MediaSettingsSchema.parse(settings.media ?? {}), policy: site.mediaPolicy }, dynamicContent: settings.dynamicContent, siteFix: resolveSiteFix(settings.siteFixes ?? [], url), detectDarkPages: settings.detectDarkPages };
+}
+
+// Function to push the current state to every tab and frame. Site rules are
+// resolved per tab against its top-level URL, like 'queryInitialState' does.
+async function broadcastState() {
+  const settings = await getSettings();
+  await updateFirstPaintState(settings); // For pages loaded from now on
+  const delivered = await broadcastToTabs((tab) => getPageState(settings, tab.url));
+  console.info(`Background broadcast state to ${delivered} tab(s)`);
+}
+
+// Function to (re)create the alarm for the next scheduled theme or warmth transition.
+// Only the 'schedule' and 'sunset' modes are time-driven; 'auto' is handled live by the content script.
+async function updateThemeScheduleAlarm() {
+  const settings = await getSettings();
+  const changes = [getScheduleState(settings)?.nextChange, getWarmthScheduleState(settings)?.nextChange]
+    .filter((date): date is Date => date instanceof Date);
+  await chrome.alarms.clear(THEME_SCHEDULE_ALARM);
+  if (changes.length > 0) {
+    const nextChange = new Date(Math.min(...changes.map((date) => date.getTime())));
+    // Small offset so the alarm never fires just before the boundary
+    chrome.alarms.create(THEME_SCHEDULE_ALARM, { when: nextChange.getTime() + 1000 });
+    console.info(`Theme schedule: next change at ${nextChange.toLocaleString()}`);
   }
 }
 
@@ -39,83 +81,181 @@ async function sendMessageToActiveTab(message: { action: string; payload?: Recor
 // On Install/Update: Set initial settings
 chrome.runtime.onInstalled.addListener(async (details) => {
   console.info('Extension installed or updated:', details.reason);
+  try {
+    await migrateSettings(); // On install this just records the current schema version
+  } catch (error) {
+    console.error('Error migrating settings (stored data left as is):', error);
+  }
   if (details.reason === 'install') {
-    const defaultSettings = SettingsSchema.parse({}); // Get defaults from schema
-    await chrome.storage.sync.set(defaultSettings);
+    // Settings may already have arrived through sync from another machine: only fill in what's missing
+    const defaultSettings = { ...SettingsSchema.parse({}), ...(await getSettings()) };
+    await writeSettings(defaultSettings);
     console.info('Default settings saved:', defaultSettings);
   }
-  // On update, could perform migrations if needed
+  await updateFirstPaintState(await getSettings()); // Session storage is cleared on install/update
+  await updateThemeScheduleAlarm();
+  await syncBreakReminders();
 });
 
-// On Message: Handle communication from popup, content scripts etc.
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('[EyeLove BG] Raw message received:', message);
-  const parsedMessage = parseMessage(message); // Validate message format
+// On Browser Startup: Alarms may have been missed while the browser was closed
+chrome.runtime.onStartup.addListener(() => {
+  getSettings().then(updateFirstPaintState);
+  updateThemeScheduleAlarm();
+  syncBreakReminders(true); // A timer from the previous session is meaningless
+});
 
-  if (!parsedMessage) {
-    console.warn("Received invalid message format:", message);
-    return false; // Ignore invalid messages
+// On Alarm: A scheduled theme transition is due
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === THEME_SCHEDULE_ALARM) {
+    console.info('Theme schedule alarm fired');
+    await broadcastState();
+    await updateThemeScheduleAlarm(); // Schedule the following transition
+  } else if (alarm.name === BREAK_REMINDER_ALARM) {
+    await handleBreakAlarm();
   }
+});
 
-  console.info('Background received validated message:', parsedMessage, 'from:', sender.tab ? `tab ${sender.tab.id}` : 'extension context');
-
-  // Handle 'getSettings' action
-  if (parsedMessage.action === 'getSettings') {
-    getSettings().then(settings => {
-      console.info('Background sending settings:', settings);
-      sendResponse(settings);
-    }).catch(error => {
-      console.error("Error handling getSettings:", error);
-      sendResponse(null); // Indicate error or send empty response
-    });
-    return true; // Indicates response will be sent asynchronously
-  }
+// On Notification Button: Snooze/Skip on the break reminder
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  handleBreakNotificationButton(notificationId, buttonIndex);
+});
 
-  // Handle 'toggleEnabled' action
-  if (parsedMessage.action === 'toggleEnabled') {
-     (async () => {
-        try {
-            const currentSettings = await getSettings();
-            const newState = !(currentSettings.enabled ?? true); // Toggle current state or default to enabling if undefined
-            await chrome.storage.sync.set({ enabled: newState });
-            console.info(`Background toggled 'enabled' state to: ${newState}`);
-            console.log(`[EyeLove BG] toggleEnabled: State changed to ${newState}. Attempting to send 'updateBodyClass' to active tab.`);
-            // Broadcast change to active tab immediately (storage listener will also fire)
-            await sendMessageToActiveTab({ action: 'updateBodyClass', payload: { enabled: newState } });
-            sendResponse({ success: true, newState }); // Acknowledge toggle
-        } catch (error) {
-             console.error("Error handling toggleEnabled:", error);
-             sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
-        }
-     })();
-     return true; // Indicates response will be sent asynchronously
-  }
+// On Idle State Change: Pause the break timer while nobody is at the machine
+chrome.idle.onStateChanged.addListener((state) => {
+  handleIdleStateChange(state);
+});
 
-  // Handle 'queryInitialState' from content script
-  if (parsedMessage.action === 'queryInitialState') {
-      (async () => {
-          const settings = await getSettings();
-          console.info('Background responding to queryInitialState with:', settings);
-          sendResponse(settings);
-      })();
-      return true; // Async response
+// On Command: Keyboard shortcuts; the storage listener pushes the resulting changes to the tab
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  try {
+    await handleKeyboardCommand(command, getSettings, tab);
+  } catch (error) {
+    console.error(`Error handling keyboard command ${command}:`, error);
   }
+});
+
+// On Message: Typed requests from the popup, options page and content scripts (see BACKGROUND_RPC)
+const messageHandlers: RpcHandlers<typeof BACKGROUND_RPC> = {
+  getSettings: () => getSettings(),
+
+  // The storage listener broadcasts the change; each tab's own site rule may still override it
+  toggleEnabled: async () => {
+    const enabled = !((await getSettings()).enabled ?? true);
+    await writeSettings({ enabled });
+    console.info(`Background toggled 'enabled' state to: ${enabled}`);
+    return { enabled };
+  },
+
+  // 'setEnabled' / 'setTheme': write to storage, the storage listener notifies the tabs
+  setEnabled: async (payload) => {
+    await writeSettings(payload);
+    return null;
+  },
+  setTheme: async (payload) => {
+    await writeSettings(payload);
+    return null;
+  },
+
+  // Resolve the site rule against the sender tab's top-level URL (frames may have their own
+  // rule), and the fixes against the sender's document, which they were written for
+  queryInitialState: async (_payload, sender) => {
+    const settings = await getSettings();
+    const url = sender.tab?.url ?? sender.url;
+    const frameUrl = sender.frameId ? sender.url : undefined;
+    const site = resolveSiteState(settings, url, frameUrl);
+    const siteFix = resolveSiteFix(settings.siteFixes ?? [], frameUrl ?? url);
+    const topFrameHandling = frameUrl ? await getTopFrameHandling(sender.tab?.id, url) : null;
+    return { ...settings, site, siteFix, scheduleDark: getScheduleState(settings)?.dark, warmthActive: isWarmthActive(settings), topFrameHandling };
+  },
+
+  // From the popup, which knows the active tab's URL
+  getSiteState: async ({ url }) => resolveSiteState(await getSettings(), url),
 
-  // Add handlers for other actions ('setTheme' etc.) later
+  // Update the rule store, the storage listener notifies the tabs
+  setSiteRule: async (rule) => {
+    const siteRules = upsertSiteRule((await getSettings()).siteRules ?? [], rule);
+    await writeSettings({ siteRules });
+    console.info('Background updated site rules (setSiteRule):', siteRules);
+    return { siteRules };
+  },
+  removeSiteRule: async ({ pattern }) => {
+    const siteRules = removeSiteRule((await getSettings()).siteRules ?? [], pattern);
+    await writeSettings({ siteRules });
+    console.info('Background updated site rules (removeSiteRule):', siteRules);
+    return { siteRules };
+  },
 
-  return false; // Indicate no async response for unhandled actions
+  // Content scripts can't read cross-origin sheets, but the worker has host permissions
+  fetchStyleSheet: async ({ url }, sender) => ({ css: await fetchFrameStyleSheet(url, sender) }),
+
+  // Merge the popup's change into the stored warmth / appearance settings
+  setWarmth: async (changes) => {
+    const warmth = WarmthSchema.parse({ ...(await getSettings()).warmth, ...changes });
+    await writeSettings({ warmth });
+    return warmth;
+  },
+  setAppearance: async (changes) => {
+    const appearance = AppearanceSchema.parse({ ...(await getSettings()).appearance, ...changes });
+    await writeSettings({ appearance });
+    return appearance;
+  },
+
+  // Break reminder actions from the popup and Options page
+  getBreakStatus: () => getBreakStatus(),
+  snoozeBreak: async () => {
+    await snoozeBreak();
+    return getBreakStatus();
+  },
+  skipBreak: async () => {
+    await skipBreak();
+    return getBreakStatus();
+  },
+
+  // Write the profile's settings, the storage listener notifies the tabs
+  applyProfile: async ({ name }) => {
+    const profile = findProfile((await getSettings()).profiles ?? [], name);
+    if (!profile) throw new Error(`No profile named "${name}"`);
+    await writeSettings(getProfileChanges(profile));
+    console.info('Background applied profile:', profile.name);
+    return null;
+  },
+
+  // Only top-level documents decide whether a host's first paint is skipped
+  reportPageDarkness: async ({ darkness, prefersDark }, sender) => {
+    if (sender.frameId !== 0) return null;
+    await recordPageDarkness(sender.tab?.url ?? sender.url, prefersDark, darkness === 'dark');
+    return null;
+  },
+  shareTopFrameHandling: async ({ handling }, sender) => {
+    if (sender.frameId !== 0 || sender.tab?.id === undefined || !sender.tab.url) return null;
+    await shareTopFrameHandling(sender.tab.id, sender.tab.url, handling);
+    return null;
+  },
+};
+
+chrome.runtime.onMessage.addListener(createRpcListener(BACKGROUND_RPC, messageHandlers));
+
+// On Tab Removed: Forget how its page was styled
+chrome.tabs.onRemoved.addListener((tabId) => {
+  forgetTopFrameHandling(tabId);
 });
 
 
 // On Storage Change: Broadcast changes to content scripts (optional, but good for sync)
-chrome.storage.onChanged.addListener(async (changes, areaName) => {
-    if (areaName === 'sync') {
-        console.info('Background detected storage change:', changes);
-        const settings = await getSettings(); // Get the complete current state
+chrome.storage.onChanged.addListener(async (storageChanges, areaName) => {
+    const changes = getSettingsChanges(storageChanges, areaName);
+    if (Object.keys(changes).length > 0) {
+        console.info('Background detected settings change:', changes);
+        if (changes.breakReminders !== undefined) {
+             await syncBreakReminders(true);
+        }
+        const scheduleChanged = changes.theme !== undefined || changes.schedule !== undefined || changes.location !== undefined || changes.warmth !== undefined;
+        if (scheduleChanged) {
+             await updateThemeScheduleAlarm();
+        }
         // Only broadcast if relevant settings changed
-        if (changes.enabled !== undefined || changes.theme !== undefined) {
-             await sendMessageToActiveTab({ action: 'updateBodyClass', payload: { enabled: settings.enabled } });
-             // Later, add theme update logic here too
+        if (changes.enabled !== undefined || changes.siteRules !== undefined || changes.algorithm !== undefined || changes.contrastTarget !== undefined || changes.engine !== undefined || changes.appearance !== undefined || changes.media !== undefined || changes.dynamicContent !== undefined || changes.siteFixes !== undefined || changes.detectDarkPages !== undefined || changes.skipCrossOriginFrames !== undefined || scheduleChanged) {
+             await broadcastState(); // Resolves the site rule and theme for each tab
         }
     }
 });
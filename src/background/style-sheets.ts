@@ -0,0 +1,62 @@
+// src/background/style-sheets.ts
+// Fetches cross-origin stylesheets for content scripts, which can't read their
+// rules. The worker's host permissions reach every origin, so it only fetches
+// http(s) sheets the asking frame actually uses: otherwise a compromised frame
+// could use the extension to read any URL.
+
+// Upper bound for cross-origin stylesheets fetched on behalf of content scripts (characters)
+const MAX_FETCHED_STYLESHEET_LENGTH = 5_000_000;
+
+/**
+ * Whether the document uses a stylesheet at `url`: a sheet of the document or of
+ * an open shadow root, or one they @import. Runs in the frame (isolated world,
+ * where page scripts can't change the DOM APIs) via chrome.scripting.executeScript,
+ * so it must stay self-contained.
+ */
+function isStyleSheetInUse(url: string): boolean {
+  const sheets: CSSStyleSheet[] = Array.from(document.styleSheets);
+  const walker = document.createTreeWalker(document, NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const shadowRoot = (node as Element).shadowRoot;
+    if (shadowRoot) sheets.push(...Array.from(shadowRoot.styleSheets));
+  }
+
+  for (let sheet = sheets.pop(); sheet; sheet = sheets.pop()) {
+    if (sheet.href === url) return true;
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue; // Cross-origin: its own imports aren't read either
+    }
+    for (const rule of Array.from(rules)) {
+      if (rule instanceof CSSImportRule && rule.styleSheet) sheets.push(rule.styleSheet);
+    }
+  }
+  return false;
+}
+
+/**
+ * Fetches a stylesheet the sender's frame uses, without credentials.
+ */
+export async function fetchFrameStyleSheet(url: string, sender: chrome.runtime.MessageSender): Promise<string> {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined) throw new Error('Not sent from a tab');
+  if (!/^https?:$/.test(new URL(url).protocol)) throw new Error(`Not an http(s) stylesheet: ${url}`);
+
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [sender.frameId ?? 0] },
+    func: isStyleSheetInUse,
+    args: [url],
+  });
+  if (injection?.result !== true) throw new Error(`Stylesheet not used by the sender's frame: ${url}`);
+
+  const response = await fetch(url, { credentials: 'omit' });
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!response.ok || (contentType && !contentType.includes('css'))) {
+    throw new Error(`Unexpected response: ${response.status} ${contentType}`);
+  }
+  const css = await response.text();
+  if (css.length > MAX_FETCHED_STYLESHEET_LENGTH) throw new Error('Stylesheet too large');
+  return css;
+}
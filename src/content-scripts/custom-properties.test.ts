@@ -0,0 +1,29 @@
+// src/content-scripts/custom-properties.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { CustomPropertyUsage, getUsageKey } from './custom-properties';
+import type { ColorRole } from '../lib/color-transform';
+
+function usage(roles: Array<[string, ColorRole]>, references: Array<[string, string[]]> = []): CustomPropertyUsage {
+  return {
+    roles: new Map(roles),
+    channels: new Map(),
+    referencedBy: new Map(references.map(([name, referencing]) => [name, new Set(referencing)])),
+  };
+}
+
+describe('getUsageKey', () => {
+  it('is the same for the same usage, whatever the order', () => {
+    expect(getUsageKey(usage([['--a', 'background'], ['--b', 'text']]))).toBe(getUsageKey(usage([['--b', 'text'], ['--a', 'background']])));
+  });
+
+  it('changes with a role even when the counts stay the same', () => {
+    expect(getUsageKey(usage([['--a', 'background']]))).not.toBe(getUsageKey(usage([['--a', 'variable']])));
+  });
+
+  it('changes when a var() chain moves', () => {
+    const before = usage([], [['--base', ['--surface']]]);
+    const after = usage([], [['--base', ['--text']]]);
+    expect(getUsageKey(before)).not.toBe(getUsageKey(after));
+  });
+});
@@ -0,0 +1,219 @@
+// src/content-scripts/custom-properties.ts
+// Discovery of the CSS custom properties that hold colors. Design systems define
+// hundreds of them, on many selectors, pass colors through var() chains and store
+// bare channels ('255 255 255', used as rgb(var(--x))). The page's stylesheets are
+// scanned for how each property is used; the stylesheet engine then rewrites the
+// declarations where they are, so each override applies in the scope the page declared it in.
+
+import type { ColorRole } from '../lib/color-transform';
+import {
+  ColorChannelFormat,
+  containsColor,
+  guessColorChannelFormat,
+  rewriteColorChannels,
+  rewriteColorsInValue,
+} from '../lib/css-color-values';
+import { COLOR_PROPERTY_ROLES, getStyleSheetSignature, hashText } from './stylesheet-engine';
+
+// How the scanned stylesheets use custom properties
+export interface CustomPropertyUsage {
+  roles: Map<string, ColorRole>; // Role of the color properties using the property ('variable' when they disagree)
+  channels: Map<string, ColorChannelFormat>; // Used as bare channels inside rgb()/hsl()
+  referencedBy: Map<string, Set<string>>; // Custom properties whose value uses the property (var() chains)
+}
+
+// Color properties as written in declarations, including the shorthands the CSSOM splits up
+const PROPERTY_ROLES: Record<string, ColorRole> = {
+  ...COLOR_PROPERTY_ROLES,
+  background: 'background',
+  border: 'border',
+  'border-color': 'border',
+  'border-top': 'border',
+  'border-right': 'border',
+  'border-bottom': 'border',
+  'border-left': 'border',
+  outline: 'border',
+  'column-rule': 'border',
+  'text-decoration': 'border',
+};
+
+// One declaration of a style block's cssText (shorthands using var() only show up there)
+const DECLARATION_PATTERN = /(?:^|;)\s*(--[\w-]+|[a-z-]+)\s*:\s*([^;]*)/g;
+const VAR_PATTERN = /var\(\s*(--[\w-]+)/g;
+const CHANNEL_USE_PATTERN = /\b(rgba?|hsla?)\(\s*var\(\s*(--[\w-]+)/gi;
+
+// Per-sheet results, so unchanged sheets aren't re-scanned (by content signature, see getStyleSheetSignature)
+const sheetUsageCache = new WeakMap<CSSStyleSheet, { signature: string; usage: CustomPropertyUsage }>();
+// Scanned copies of cross-origin sheets, by URL
+const externalUsageCache = new Map<string, { text: string; usage: CustomPropertyUsage }>();
+// Keys of collected usage results (see getUsageKey)
+const usageKeys = new WeakMap<CustomPropertyUsage, string>();
+
+function createUsage(): CustomPropertyUsage {
+  return { roles: new Map(), channels: new Map(), referencedBy: new Map() };
+}
+
+function addRole(usage: CustomPropertyUsage, name: string, role: ColorRole) {
+  const known = usage.roles.get(name);
+  usage.roles.set(name, known === undefined || known === role ? role : 'variable');
+}
+
+function addReference(usage: CustomPropertyUsage, name: string, referencingProperty: string) {
+  const set = usage.referencedBy.get(name) ?? new Set<string>();
+  set.add(referencingProperty);
+  usage.referencedBy.set(name, set);
+}
+
+/**
+ * Records how the declarations of one style block use custom properties.
+ */
+function scanDeclarations(cssText: string, usage: CustomPropertyUsage) {
+  for (const [, property, value] of cssText.matchAll(DECLARATION_PATTERN)) {
+    if (!value.includes('var(')) continue;
+    for (const [, fn, name] of value.matchAll(CHANNEL_USE_PATTERN)) {
+      usage.channels.set(name, fn.toLowerCase().startsWith('hsl') ? 'hsl' : 'rgb');
+    }
+    for (const [, name] of value.matchAll(VAR_PATTERN)) {
+      if (property.startsWith('--')) addReference(usage, name, property);
+      else if (PROPERTY_ROLES[property]) addRole(usage, name, PROPERTY_ROLES[property]);
+    }
+  }
+}
+
+function scanRules(rules: CSSRuleList, usage: CustomPropertyUsage) {
+  for (const rule of Array.from(rules)) {
+    try {
+      if (rule instanceof CSSImportRule) {
+        if (rule.styleSheet) scanRules(rule.styleSheet.cssRules, usage);
+        continue;
+      }
+      if (rule instanceof CSSStyleRule) scanDeclarations(rule.style.cssText, usage);
+      // Grouping rules (@media, @supports, @layer...) and style rules with nested rules
+      if ('cssRules' in rule && rule.cssRules instanceof CSSRuleList) scanRules(rule.cssRules, usage);
+    } catch {
+      // Cross-origin @import: its rules can't be read
+    }
+  }
+}
+
+function mergeUsage(target: CustomPropertyUsage, source: CustomPropertyUsage) {
+  source.roles.forEach((role, name) => addRole(target, name, role));
+  source.channels.forEach((format, name) => target.channels.set(name, format));
+  source.referencedBy.forEach((referencing, name) => referencing.forEach((property) => addReference(target, name, property)));
+}
+
+function scanSheet(sheet: CSSStyleSheet): CustomPropertyUsage | null {
+  let rules: CSSRuleList;
+  try {
+    rules = sheet.cssRules;
+  } catch {
+    return null; // Cross-origin
+  }
+  const signature = getStyleSheetSignature(sheet, rules);
+  const cached = sheetUsageCache.get(sheet);
+  if (cached && cached.signature === signature) return cached.usage;
+  const usage = createUsage();
+  scanRules(rules, usage);
+  sheetUsageCache.set(sheet, { signature, usage });
+  return usage;
+}
+
+function scanExternalSheet(href: string, text: string): CustomPropertyUsage {
+  const cached = externalUsageCache.get(href);
+  if (cached?.text === text) return cached.usage;
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(text);
+  const usage = createUsage();
+  scanRules(sheet.cssRules, usage);
+  externalUsageCache.set(href, { text, usage });
+  return usage;
+}
+
+/**
+ * Scans the stylesheets of every root for custom property usage. Custom properties
+ * inherit into shadow trees, so usage is collected across all roots at once.
+ *
+ * @param exclude Our own sheets
+ * @param getExternalText Text of a cross-origin sheet fetched by the background worker, or null
+ */
+export function collectCustomPropertyUsage(
+  roots: Array<Document | ShadowRoot>,
+  exclude: readonly CSSStyleSheet[],
+  getExternalText: (href: string) => string | null,
+): CustomPropertyUsage {
+  const usage = createUsage();
+  for (const root of roots) {
+    for (const sheet of [...Array.from(root.styleSheets), ...root.adoptedStyleSheets]) {
+      if (exclude.includes(sheet)) continue;
+      const text = sheet.href ? getExternalText(sheet.href) : null;
+      const sheetUsage = scanSheet(sheet) ?? (sheet.href && text ? scanExternalSheet(sheet.href, text) : null);
+      if (sheetUsage) mergeUsage(usage, sheetUsage);
+    }
+  }
+  return usage;
+}
+
+/**
+ * Identifies a usage result for caches of rewritten CSS: rewritten custom
+ * properties depend on how the other sheets use them. A hash of every role,
+ * channel format and var() reference, so a changed role or chain changes the key
+ * even when the counts stay the same.
+ */
+export function getUsageKey(usage: CustomPropertyUsage): string {
+  let key = usageKeys.get(usage);
+  if (key === undefined) {
+    const entries = [
+      ...Array.from(usage.roles, ([name, role]) => `role ${name} ${role}`),
+      ...Array.from(usage.channels, ([name, format]) => `channels ${name} ${format}`),
+      ...Array.from(usage.referencedBy, ([name, referencing]) => `var ${name} ${Array.from(referencing).sort().join(' ')}`),
+    ].sort();
+    key = `${entries.length}:${hashText(entries.join('\n')).toString(36)}`;
+    usageKeys.set(usage, key);
+  }
+  return key;
+}
+
+/**
+ * Follows var() chains towards the properties using `name` (--a: var(--b) makes --b
+ * inherit --a's use) and returns the first value `pick` finds.
+ */
+function findThroughReferences<T>(usage: CustomPropertyUsage, name: string, pick: (name: string) => T | undefined): T | undefined {
+  const seen = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    const found = pick(current);
+    if (found !== undefined) return found;
+    usage.referencedBy.get(current)?.forEach((referencing) => queue.push(referencing));
+  }
+  return undefined;
+}
+
+/**
+ * Transforms the colors in a custom property's value according to how the page
+ * uses it. Plain var() aliases hold no color of their own and are left alone:
+ * they follow the property they point to.
+ *
+ * @param mapColor Transforms one color token for a role; null keeps it
+ * @param assumeColor Treat bare channels as a color even without a rgb()/hsl() use (site fix variables)
+ * @returns The new value, or null to leave the declaration alone
+ */
+export function rewriteCustomProperty(
+  name: string,
+  value: string,
+  usage: CustomPropertyUsage,
+  mapColor: (color: string, role: ColorRole) => string | null,
+  assumeColor = false,
+): string | null {
+  const role = findThroughReferences(usage, name, (n) => usage.roles.get(n)) ?? 'variable';
+  const format = findThroughReferences(usage, name, (n) => usage.channels.get(n)) ?? (assumeColor ? guessColorChannelFormat(value) : null);
+  if (format) {
+    const channels = rewriteColorChannels(value, format, (color) => mapColor(color, role));
+    if (channels !== null) return channels;
+  }
+  if (!containsColor(value)) return null;
+  const rewritten = rewriteColorsInValue(value, (color) => mapColor(color, role));
+  return rewritten !== value ? rewritten : null;
+}
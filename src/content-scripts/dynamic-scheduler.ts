@@ -0,0 +1,109 @@
+// src/content-scripts/dynamic-scheduler.ts
+// Budgeted, incremental processing of dynamic content. Elements reported by the
+// MutationObserver are queued instead of styled on the spot; the queue is drained
+// in idle callbacks (or per-frame slices) that stop once the time budget is used,
+// so infinite-scroll feeds and chat apps don't stutter.
+
+import type { DynamicContent } from '../lib/schemas';
+import { countPerf, setPerf } from './perf-counters';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// Longest an idle callback may be postponed on a busy page before it runs anyway
+const IDLE_TIMEOUT_MS = 500;
+
+export interface DynamicScheduler {
+  enqueue(element: Element): void;
+  setOptions(options: DynamicContent): void;
+  cancel(): void; // Drops everything queued
+}
+
+/**
+ * Creates a scheduler that calls `processElement` for queued elements. Subtrees
+ * are deduplicated: an element is skipped when it's already queued, detached, or
+ * inside a queued (or since processed) element, since `processElement` handles
+ * whole subtrees. At least one element is processed per slice, so a single
+ * large subtree may overrun the budget.
+ */
+export function createDynamicScheduler(processElement: (element: Element) => void, options: DynamicContent): DynamicScheduler {
+  let currentOptions = options;
+  // Queued elements with their enqueue sequence number, in insertion order
+  const queue = new Map<Element, number>();
+  // Sequence number current when an element was processed: descendants queued before that are covered
+  const processedAt = new WeakMap<Element, number>();
+  let sequence = 0;
+  let pendingHandle: { type: 'idle' | 'frame'; id: number } | null = null;
+
+  const isCovered = (element: Element, queuedAt: number): boolean => {
+    for (let node = element.parentNode; node; node = node.parentNode) {
+      if (!(node instanceof Element)) break; // Document or shadow root
+      if (queue.has(node)) return true;
+      if ((processedAt.get(node) ?? -1) >= queuedAt) return true;
+    }
+    return false;
+  };
+
+  const runSlice = (deadline?: IdleDeadline) => {
+    pendingHandle = null;
+    const t0 = performance.now();
+    // An idle callback's own deadline can be shorter than the budget; a timed-out one has none
+    const budget = deadline && !deadline.didTimeout
+      ? Math.min(currentOptions.budgetMs, deadline.timeRemaining())
+      : currentOptions.budgetMs;
+
+    for (const [element, queuedAt] of queue) {
+      queue.delete(element);
+      if (!element.isConnected || isCovered(element, queuedAt)) {
+        countPerf('deduplicatedNodes');
+        continue;
+      }
+      try {
+        processElement(element);
+      } catch (e) {
+        if (isDev) console.warn('[EyeLove CS] Error processing dynamic element:', element, e);
+      }
+      processedAt.set(element, sequence);
+      countPerf('processedNodes');
+      if (performance.now() - t0 >= budget) break;
+    }
+
+    const elapsed = performance.now() - t0;
+    countPerf('slices');
+    countPerf('sliceMs', elapsed);
+    setPerf('longestSliceMs', elapsed, 'max');
+    setPerf('pendingNodes', queue.size);
+    if (queue.size > 0) scheduleSlice();
+  };
+
+  const scheduleSlice = () => {
+    if (pendingHandle) return;
+    if (currentOptions.scheduling === 'idle' && typeof requestIdleCallback === 'function') {
+      pendingHandle = { type: 'idle', id: requestIdleCallback(runSlice, { timeout: IDLE_TIMEOUT_MS }) };
+    } else {
+      pendingHandle = { type: 'frame', id: requestAnimationFrame(() => runSlice()) };
+    }
+  };
+
+  return {
+    enqueue(element) {
+      countPerf('queuedNodes');
+      if (queue.has(element)) {
+        countPerf('deduplicatedNodes');
+        return;
+      }
+      queue.set(element, ++sequence);
+      setPerf('pendingNodes', queue.size);
+      scheduleSlice();
+    },
+    setOptions(options) {
+      currentOptions = options;
+    },
+    cancel() {
+      if (pendingHandle?.type === 'idle') cancelIdleCallback(pendingHandle.id);
+      else if (pendingHandle) cancelAnimationFrame(pendingHandle.id);
+      pendingHandle = null;
+      queue.clear();
+      setPerf('pendingNodes', 0);
+    },
+  };
+}
@@ -0,0 +1,109 @@
+// src/content-scripts/form-controls.ts
+// Dark theming for native widgets: text fields, selects, buttons, checkboxes and
+// scrollbars. color-scheme gets the browser's own dark controls; these rules add the
+// base palette, the site's accent hue, visible focus rings and disabled states. Every
+// selector has zero specificity (:where), so controls the page styles itself keep
+// their (rewritten) look.
+
+import type { Oklch } from '../lib/color-transform';
+import { parseToOklch } from '../lib/color-transform';
+
+// Below this OKLCH chroma a color is gray and says nothing about the site's brand
+const MIN_ACCENT_CHROMA = 0.05;
+
+// The browser's default link color, which isn't the site's choice
+const DEFAULT_LINK_COLORS = new Set(['rgb(0, 0, 238)', 'rgb(85, 26, 139)']);
+
+// Text-like inputs (the rest are checkboxes, radios, sliders, pickers and buttons)
+const TEXT_FIELD_SELECTOR = 'input:not([type="checkbox"], [type="radio"], [type="range"], [type="color"], [type="file"], [type="image"], [type="submit"], [type="reset"], [type="button"]), textarea, select';
+const BUTTON_SELECTOR = 'button, input[type="submit"], input[type="reset"], input[type="button"]';
+const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, summary, [tabindex]';
+
+export interface FormControlPalette {
+  background: string; // Page background
+  text: string;
+  accent: string; // Checked boxes, sliders, progress bars, focus rings
+}
+
+/**
+ * Finds the site's accent color: its own accent-color, else its link color, else
+ * the background of its first colorful button. Returns null when the site only
+ * uses grays or browser defaults.
+ */
+export function findSiteAccent(root: Document): Oklch | null {
+  const isColorful = (color: Oklch | null): color is Oklch => color !== null && color.c >= MIN_ACCENT_CHROMA;
+
+  const accentColor = getComputedStyle(root.documentElement).accentColor;
+  const declared = accentColor && accentColor !== 'auto' ? parseToOklch(accentColor) : null;
+  if (isColorful(declared)) return declared;
+
+  const link = root.querySelector('a[href]');
+  const linkColor = link ? getComputedStyle(link).color : '';
+  const linkAccent = DEFAULT_LINK_COLORS.has(linkColor) ? null : parseToOklch(linkColor);
+  if (isColorful(linkAccent)) return linkAccent;
+
+  const button = root.querySelector('button, input[type="submit"], [role="button"]');
+  const buttonAccent = button ? parseToOklch(getComputedStyle(button).backgroundColor, 0.5) : null;
+  return isColorful(buttonAccent) ? buttonAccent : null;
+}
+
+/**
+ * Builds the widget rules.
+ *
+ * @param scope Selector the rules apply within (e.g. the dark mode body class), '' inside shadow roots
+ */
+export function buildFormControlCss(scope: string, { background, text, accent }: FormControlPalette): string {
+  // Pseudo-elements aren't allowed inside :where(), so they go after it
+  const within = (selector: string, pseudoElement = '') => `${scope ? `:where(${scope}) ` : ''}:where(${selector})${pseudoElement}`;
+  const surface = `color-mix(in oklch, ${background}, ${text} 8%)`;
+  const raised = `color-mix(in oklch, ${background}, ${text} 16%)`;
+  const border = `color-mix(in oklch, ${background}, ${text} 30%)`;
+  const muted = `color-mix(in oklch, ${text} 55%, ${background})`;
+
+  return `
+    ${within(TEXT_FIELD_SELECTOR)} {
+      background-color: ${surface};
+      color: ${text};
+      border-color: ${border};
+    }
+    ${within(BUTTON_SELECTOR)}, ${within('input[type="file"]', '::file-selector-button')} {
+      background-color: ${raised};
+      color: ${text};
+      border-color: ${border};
+    }
+    ${within('button:hover, input:is([type="submit"], [type="reset"], [type="button"]):hover')} {
+      background-color: color-mix(in oklch, ${background}, ${text} 24%);
+    }
+    ${within('input, select, textarea, button, progress, meter')} {
+      accent-color: ${accent};
+    }
+    ${within('input, textarea', '::placeholder')} {
+      color: ${muted};
+    }
+    ${within(':is(input, select, textarea, button):disabled')} {
+      background-color: ${background};
+      color: ${muted};
+      border-color: color-mix(in oklch, ${background}, ${text} 15%);
+    }
+    ${within(`:is(${FOCUSABLE_SELECTOR}):focus-visible`)} {
+      outline: 2px solid ${accent};
+      outline-offset: 1px;
+    }
+    ${scope ? `
+    :where(html) {
+      scrollbar-color: ${border} ${background};
+    }
+    /* Browsers without scrollbar-color */
+    :where(html)::-webkit-scrollbar, :where(html) ::-webkit-scrollbar {
+      background-color: ${background};
+    }
+    :where(html)::-webkit-scrollbar-thumb, :where(html) ::-webkit-scrollbar-thumb {
+      background-color: ${border};
+      border: 3px solid ${background};
+      border-radius: 8px;
+    }
+    :where(html)::-webkit-scrollbar-corner, :where(html) ::-webkit-scrollbar-corner {
+      background-color: ${background};
+    }` : ''}
+  `;
+}
@@ -1,34 +1,47 @@
 // src/content-scripts/fouc-handler.ts
 // Injected at document_start for Flash of Unstyled Content prevention
-// This is a minimal script that runs very early in page load
+// This is a minimal script that runs very early in page load, in every frame
+
+import { DarkHostsSchema, FirstPaintStateSchema } from '../lib/schemas';
+import { DARK_HOSTS_KEY, FIRST_PAINT_CLASS, FIRST_PAINT_KEY, ROOT_CLASS_DARK_ACTIVE, buildFirstPaintCss, resolveFirstPaint } from '../lib/first-paint';
 
 (() => {
   const isDev = process.env.NODE_ENV === 'development';
   if (isDev) console.info('[EyeLove] FOUC Prevention Handler Started');
 
-  // Try to read the cached setting from localStorage first for speed
-  let initialEnabledState = true; // Default to enabled if not found
-  
+  // Older versions cached the enabled flag in the page's own localStorage
   try {
-    const cachedEnabled = localStorage.getItem('eyelove-enabled-cache');
-    if (cachedEnabled !== null) {
-      initialEnabledState = cachedEnabled === 'true';
-      if (isDev) console.info('[EyeLove FOUC] Using cached enabled state:', initialEnabledState);
-    } else {
-      if (isDev) console.info('[EyeLove FOUC] No cached state found, using default enabled');
-    }
-  } catch (e) {
-    if (isDev) console.warn('[EyeLove FOUC] Error accessing localStorage:', e);
+    localStorage.removeItem('eyelove-enabled-cache');
+  } catch {
+    // Storage may be blocked on this page
   }
 
-  // Apply initial class based on cached state - this happens very early
-  if (initialEnabledState) {
-    // Add a class to document root that can be targeted in the CSS
-    document.documentElement.classList.add('eyelove-dark-theme-active');
-    if (isDev) console.info('[EyeLove FOUC] Added initial dark theme class to documentElement');
-  }
+  // The background worker keeps the precomputed state in session storage (in memory,
+  // so the read resolves well before the parser produces anything to paint)
+  chrome.storage.session.get([FIRST_PAINT_KEY, DARK_HOSTS_KEY]).then((result) => {
+    const parsed = FirstPaintStateSchema.safeParse(result[FIRST_PAINT_KEY]);
+    if (!parsed.success) {
+      if (isDev) console.info('[EyeLove FOUC] No first-paint state yet, leaving the page to main.ts');
+      return;
+    }
+    const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+    // Hosts the content script found already dark are left for it to decide
+    const darkHosts = DarkHostsSchema.safeParse(result[DARK_HOSTS_KEY]);
+    // Frames follow the rules of their top-level page, whose origin is all they can see of it
+    const isTopFrame = window === window.top;
+    const topOrigins = location.ancestorOrigins;
+    const pageUrl = isTopFrame || topOrigins.length === 0 ? location.href : topOrigins[topOrigins.length - 1];
+    const decision = resolveFirstPaint(parsed.data, pageUrl, prefersDark, darkHosts.success ? darkHosts.data : null, isTopFrame ? undefined : location.href);
+    if (!decision.dark) return;
 
-  // Additional preload checks could go here (media query for system preference, etc.)
-  // But keep it minimal as this runs at document_start
+    // An adopted sheet adds no node for the page's MutationObservers (it still shows in document.adoptedStyleSheets)
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(buildFirstPaintCss(parsed.data, decision));
+    document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+    document.documentElement.classList.add(FIRST_PAINT_CLASS, ROOT_CLASS_DARK_ACTIVE);
+    if (isDev) console.info('[EyeLove FOUC] Applied first-paint styles:', decision);
+  }).catch((e) => {
+    if (isDev) console.warn('[EyeLove FOUC] Error reading first-paint state:', e);
+  });
 
-})(); 
\ No newline at end of file
+})();
@@ -1,57 +1,178 @@
 // src/content-scripts/main.ts
 // Injected at document_idle (or later)
 
-import { SettingsSchema, parseMessage } from '../lib/schemas';
-import * as culori from 'culori'; // Import the culori library
-
-// Define Oklch type to match culori's internal type structure
-interface Oklch {
-  mode: "oklch"; // Literal type for mode
-  l: number;     // Lightness (0-1)
-  c: number;     // Chroma (0+)
-  h?: number;    // Hue (0-360), optional to match culori's type definition
-  alpha?: number; // Alpha channel (0-1), optional
-}
+import {
+  Settings,
+  TransformAlgorithm,
+  ContrastTarget,
+  StyleEngine,
+  Warmth,
+  Appearance,
+  AppearanceSchema,
+  MediaSettings,
+  MediaSettingsSchema,
+  DynamicContent,
+  DynamicContentSchema,
+  SiteFixStyles,
+  PageDarknessReport,
+  PageHandling,
+  CONTENT_RPC,
+} from '../lib/schemas';
+import { callBackground, createRpcListener } from '../lib/rpc';
+import { isDarkThemeActive } from '../lib/theme-schedule';
+import { FIRST_PAINT_CLASS, ROOT_CLASS_DARK_ACTIVE } from '../lib/first-paint';
+import { buildWarmthFilter } from '../lib/warmth';
+import { Oklch, ColorRole, ColorTransformer, getColorTransformer, withAppearance, parseToOklch, formatOklch } from '../lib/color-transform';
+import { rewriteColorsInValue } from '../lib/css-color-values';
+import {
+  COLOR_PROPERTY_ROLES,
+  DeclarationMapper,
+  getStyleSheetsFingerprint,
+  invalidateStyleSheetSignatures,
+  observeStyleSheetChanges,
+  rewriteCssText,
+  rewriteDeclarations,
+  rewriteStyleSheets,
+  watchStyleSheetRoot,
+} from './stylesheet-engine';
+import { collectOpenShadowRoots, observeShadowRootAttachments } from './shadow-roots';
+import { createDynamicScheduler } from './dynamic-scheduler';
+import { buildSiteFixCss, getIgnoreSelector, isIgnoredElement } from './site-fix';
+import { CustomPropertyUsage, collectCustomPropertyUsage, getUsageKey, rewriteCustomProperty } from './custom-properties';
+import { PageDarknessSignals, detectPageDarkness } from './page-darkness';
+import { activateNativeDarkTheme, revertNativeDarkTheme } from './native-theme';
+import { countPerf, getPerfCounters, resetPerfCounters, timePerf } from './perf-counters';
+import {
+  MEDIA_ID_ATTRIBUTE,
+  MEDIA_KIND_ATTRIBUTE,
+  applyBackgroundImagePolicy,
+  buildMediaPolicyCss,
+  analyzeImage,
+  canSampleImage,
+  getPolicyKind,
+  getProcessedImage,
+  isPolicyImage,
+} from './media-policy';
+import {
+  CONTRAST_UNMET_ATTRIBUTE,
+  ContrastCounters,
+  PipelineContext,
+  PipelineEnvironment,
+  collectStrategy2Elements,
+  recordContrastOutcome,
+  runStylePipeline,
+  solveForeground,
+} from './style-pipeline';
+import { createPseudoStyleWriter } from './pseudo-styles';
+import { buildFormControlCss, findSiteAccent } from './form-controls';
 
 // Store original element inline styles for proper restoration
 const elementOriginalStyles = new WeakMap<HTMLElement, string | null>();
+// Inline colors we wrote, with the resulting style attribute (to recognize our own style mutations)
+const ownInlineStyles = new WeakMap<Element, { attribute: string | null; properties: Record<string, string> }>();
 
-// Observer for dynamic content
+// Observer for dynamic content (in the document and every styled shadow root)
 let domObserver: MutationObserver | null = null;
+const DOM_OBSERVER_OPTIONS: MutationObserverInit = { childList: true, subtree: true, attributes: true, attributeFilter: ['class', 'style'] };
+
+// Stylesheet engine state: observer for <style>/<link> changes, the last variable
+// overrides (Strategy 1 can't be recomputed once our sheet is applied), how the page
+// uses its custom properties, and the text of cross-origin sheets fetched by the
+// background worker (null = pending/failed)
+let styleSheetObserver: MutationObserver | null = null;
+let variableOverrideRules: string[] = [];
+let customPropertyUsage: CustomPropertyUsage = collectCustomPropertyUsage([], [], () => null);
+const crossOriginSheetText = new Map<string, string | null>();
+const crossOriginSheetCss = new Map<string, { key: string; css: string }>(); // Rewritten copies, per style signature
+// Rules added through the CSSOM (insertRule) cause no DOM mutation. The sheets'
+// fingerprint is rechecked after the DOM changes, at most this often.
+const STYLE_SHEET_CHECK_INTERVAL_MS = 500;
+let styleSheetFingerprint = '';
+let styleSheetCheckPending = false;
+let stylesheetRefreshPending = false;
+let inlineFallbackApplied = false;
+
+// Shadow DOM coverage: every open shadow root being styled, with its own override sheet.
+// The document's override rules can't reach into shadow trees (and must not: its rewritten
+// page rules would match elements the page's own rules never styled), so each root gets its own CSS.
+const shadowRootSheets = new Map<ShadowRoot, CSSStyleSheet>();
+
+// Media policy state: processed logo copies by MEDIA_ID_ATTRIBUTE value (ids are per image URL),
+// and processed background images by URL (null = pending, failed or not of the policy's kind)
+const logoImageIds = new Map<string, number>();
+const logoImages = new Map<number, string>();
+const backgroundImages = new Map<string, string | null>();
+let readyBackgroundImages = 0;
+
+// Site fix state: the fix being edited on the Options page (replaces the stored fixes while set),
+// and the elements the current styling pass leaves alone
+let siteFixPreview: SiteFixStyles | null = null;
+let ignoreSelector: string | null = null;
+
+// What the darkness detector found before the current styling pass, and what was done about it
+// (null while detection is off or the page hasn't been checked)
+let pageDarkness: PageDarknessReport | null = null;
+
+// The site's own accent color, sampled before styling (form controls and focus rings keep its hue)
+let siteAccent: Oklch | null = null;
 
 const BODY_CLASS_DARK_ENABLED = 'eyelove-dark-mode-enabled';
 const isDev = process.env.NODE_ENV === 'development';
+const isTopFrame = window === window.top;
+
+// Contrast solver results for the current styling pass (reported to the popup)
+const contrastReport: ContrastCounters = { checked: 0, adjusted: 0, unmet: 0 };
+
+// Default base palette (page background, text, links) when no appearance settings were received
+const DEFAULT_APPEARANCE: Appearance = AppearanceSchema.parse({});
+
+// == Appearance ==
 
-// Initial list of common CSS variable names to check
-const TARGET_CSS_VARIABLES: string[] = [
-  // Backgrounds
-  '--bg-color', '--background-color', '--background', '--body-bg', '--body-background',
-  '--surface-color', '--surface', '--color-background', '--page-bg',
-  // Text
-  '--text-color', '--color-text', '--text', '--body-color', '--foreground-color',
-  '--color-foreground', '--fg-color', '--primary-text-color',
-  // Borders
-  '--border-color', '--color-border',
-  // Links
-  '--link-color', '--anchor-color', '--color-link',
-  // Primary / Accent
-  '--primary-color', '--primary', '--accent-color', '--accent', '--color-primary',
-  // Secondary
-  '--secondary-color', '--secondary', '--color-secondary',
-  // Common Framework Vars (Examples)
-  '--bs-body-bg', '--bs-body-color', '--bs-border-color',
-  '--md-sys-color-surface', '--md-sys-color-on-surface',
-  // GitHub Specific Vars
-  '--button-default-bgColor-rest', '--color-btn-bg', '--color-btn-text',
-  '--color-fg-default', '--color-canvas-default', '--color-canvas-subtle',
-  '--color-accent-fg', '--color-accent-emphasis', '--color-border-default',
-];
+/**
+ * The selected algorithm with the user's brightness/contrast/saturation applied.
+ */
+function getActiveTransformer(): ColorTransformer {
+  return withAppearance(getColorTransformer(currentState.algorithm), currentState.appearance);
+}
+
+/**
+ * Base page background from the appearance settings, used where an element's own background is unknown.
+ */
+function getPageBackground(): Oklch {
+  const { backgroundColor } = currentState.appearance ?? DEFAULT_APPEARANCE;
+  return parseToOklch(backgroundColor) ?? { mode: 'oklch', l: 0.2, c: 0, h: 0 };
+}
+
+// == Style Pipeline ==
+
+// Rules for the ::before/::after colors Strategy 2 chooses. Rules of removed elements
+// are dropped in batches, at most this often, so long-lived pages don't pile them up.
+const pseudoStyles = createPseudoStyleWriter();
+const PSEUDO_STYLE_SWEEP_INTERVAL_MS = 2000;
+let pseudoStyleSweepPending = false;
+
+// DOM access for the Strategy 2 pipeline
+const PIPELINE_ENVIRONMENT: PipelineEnvironment = {
+  getComputedStyle: (element, pseudoElement) => window.getComputedStyle(element, pseudoElement),
+  writeColors: setInlineColors,
+  writePseudoColors: pseudoStyles.write,
+};
+
+function getPipelineContext(transformer: ColorTransformer): PipelineContext {
+  return { transformer, pageBackground: getPageBackground(), contrastTarget: currentState.contrastTarget };
+}
 
 // == Dynamic Stylesheet Logic ==
 
 let dynamicStyleSheet: CSSStyleSheet | null = null;
+let warmthStyleSheet: CSSStyleSheet | null = null; // Night-shift filter, independent of dark mode
+let mediaStyleSheet: CSSStyleSheet | null = null; // Media policy, shared by the document and shadow roots
+let siteFixStyleSheet: CSSStyleSheet | null = null; // The site fix's CSS, after our overrides
 try {
   dynamicStyleSheet = new CSSStyleSheet();
+  warmthStyleSheet = new CSSStyleSheet();
+  mediaStyleSheet = new CSSStyleSheet();
+  siteFixStyleSheet = new CSSStyleSheet();
 } catch (e) {
   console.error('[EyeLove CS] Error creating CSSStyleSheet:', e);
   // Fallback or error handling might be needed for older browsers/environments
@@ -63,372 +184,57 @@ try {
 function applyDarkModeStyles() {
   if (!dynamicStyleSheet) return; // Exit if sheet couldn't be created
 
+  const transformer = getActiveTransformer();
+  resetContrastReport();
+  ignoreSelector = getIgnoreSelector(getSiteFix());
+  document.documentElement.classList.add(ROOT_CLASS_DARK_ACTIVE);
+
+  // Find the open shadow roots present now; later ones are announced by the attachShadow hook
+  discoverShadowRoots(document);
+
+  // Filter-based algorithms work on the whole page and skip per-color analysis entirely
+  if (transformer.pageFilter) {
+    applyPageFilterStyles(transformer.pageFilter);
+    applySiteFixStyles(transformer);
+    updateShadowRootSheets(transformer);
+    applyMediaPolicy(transformer);
+    return;
+  }
+
+  siteAccent = findSiteAccent(document);
   document.body.classList.add(BODY_CLASS_DARK_ENABLED);
 
-  // --- CSS Variable Override Logic using OKLCH ---
-  const computedStylesRoot = getComputedStyle(document.documentElement); // Renamed for clarity
+  // --- CSS Variable Strategy (Strategy 1) ---
+  // Custom properties found in the stylesheets are rewritten where they are declared
+  // (see buildStylesheetEngineCss); the site fix's variables are also overridden at the
+  // root, which covers ones set from script or in sheets we can't read.
+  refreshCustomPropertyUsage();
+  const computedStylesRoot = getComputedStyle(document.documentElement);
+  const mapColor = createColorMapper(transformer);
   const overrideRules: string[] = [];
-
-  for (const varName of TARGET_CSS_VARIABLES) {
+  for (const varName of getSiteFix()?.cssVariables ?? []) {
     const value = computedStylesRoot.getPropertyValue(varName).trim();
-    if (value) {
-      try {
-        const parsed = culori.parse(value); // Attempt to parse ANY valid CSS color
-        if (parsed) {
-          const originalOklch = culori.oklch(parsed); // Convert to OKLCH
-
-          if (originalOklch) {
-            // Transform OKLCH for dark mode
-            // L: Invert lightness (0 -> 1, 1 -> 0) - simple inversion for now
-            let newL = 1.0 - originalOklch.l;
-            // C: Reduce chroma (saturation) significantly
-            let newC = originalOklch.c * 0.3; // Reduce to 30% (adjust as needed)
-            // H: Keep Hue the same
-            const newH = originalOklch.h || 0; // Use 0 if hue is undefined (e.g., for grayscale)
-
-            // --- Refinements (Could be added later) ---
-            // Clamping: Ensure L is [0, 1], C >= 0
-            newL = Math.max(0, Math.min(1, newL));
-            newC = Math.max(0, newC);
-            // Add minimum contrast logic here if needed based on originalL vs newL
-
-            // Create the new color object with explicit type and mode as literal "oklch"
-            const darkOklch: Oklch = { 
-              mode: "oklch", 
-              l: newL, 
-              c: newC, 
-              h: newH 
-            };
-
-            // Format back to a common, compatible format like HEX
-            const newCssColor = culori.formatHex(darkOklch);
-
-            if (newCssColor) {
-              // Use !important for reliability
-              overrideRules.push(`${varName}: ${newCssColor} !important;`);
-            }
-          }
-        }
-      } catch (parseError) {
-        // culori.parse throws on invalid color string
-        if (isDev) console.debug(`[EyeLove CS] Could not parse color for var ${varName}:`, value, parseError);
-      }
-    }
+    const rewritten = value ? rewriteCustomProperty(varName, value, customPropertyUsage, mapColor, true) : null;
+    if (rewritten) overrideRules.push(`${varName}: ${rewritten} !important;`);
   }
-  // --- End of CSS Variable Strategy (Strategy 1) ---
+  variableOverrideRules = overrideRules;
 
-  // --- Computed Style Analysis Fallback (Strategy 2) ---
-  if (isDev) console.log('[EyeLove CS] Starting Strategy 2: Computed Style Analysis...');
-  const t0_strategy2 = performance.now(); // Start timing Strategy 2
-
-  // TODO: Refine selector later (performance) - avoid '*' initially
-  const elementSelector = 'body, div, section, article, main, header, footer, nav, aside, p, li, h1, h2, h3, h4, h5, h6, span, button, label, legend, td, th, svg'; // Common elements + SVG
-  const elementsToCheck = document.querySelectorAll(elementSelector);
-  const elementsToStyleData: Array<{
-      element: Element;
-      originalBg: string;
-      originalColor: string;
-      originalBorder: string;
-      originalFill?: string;
-      originalStroke?: string;
-  }> = [];
-
-  // == Read Phase (Batch DOM Reads) ==
-  // PERF_NOTE: Avoid reading and writing in the same loop!
-  elementsToCheck.forEach(element => {
-      try {
-          // PERF_NOTE: getComputedStyle can be expensive. Minimize calls.
-          const styles = window.getComputedStyle(element);
-          const bgColor = styles.backgroundColor;
-          const color = styles.color;
-          const borderColor = styles.borderTopColor; // Check one border color for simplicity
-          
-          // Add SVG-specific properties
-          const fill = styles.fill;
-          const stroke = styles.stroke;
-
-          // TODO: Add smarter check: Only process if element needs styling
-          // (e.g., light background OR dark text, AND not transparent/fully transparent,
-          // AND maybe check if it's already inheriting styles correctly from overridden vars)
-          // For now, store all found colors for processing.
-
-          elementsToStyleData.push({
-              element: element,
-              originalBg: bgColor,
-              originalColor: color,
-              originalBorder: borderColor,
-              originalFill: fill !== 'none' ? fill : undefined,
-              originalStroke: stroke !== 'none' ? stroke : undefined
-          });
-      } catch (e) {
-          if (isDev) console.warn('[EyeLove CS] Error getting computed style for element:', element, e);
-      }
-  });
-  if (isDev) console.log(`[EyeLove CS] Strategy 2: Read phase found ${elementsToStyleData.length} elements data points.`);
-
-
-  // == Write Phase (Batch DOM Writes - Apply Inline Styles) ==
-  // PERF_NOTE: This loop applies inline styles. Consider generating CSS rules for adopted sheet later if needed.
-  elementsToStyleData.forEach(data => {
-      try {
-          let newBg: string | null = null;
-          let newColor: string | null = null;
-          let newFill: string | null = null;
-          let newStroke: string | null = null;
-          let finalBackgroundL = 0.2; // Default assumed dark background lightness
-          let backgroundLuminance: number | undefined;
-          const isButton = data.element.tagName === 'BUTTON'; // Check if it's a button
-          let finalBgOklch: Oklch | undefined; // Store the final background color
-
-          // Process Background Color
-          const parsedBg = data.originalBg ? culori.parse(data.originalBg) : undefined;
-          const originalAlpha = parsedBg?.alpha ?? 1.0;
-          const hasDirectText = data.element.textContent?.trim().length > 0;
-          const oklchBg = parsedBg ? culori.oklch(parsedBg) : undefined;
-          let reasonSkipped = '';
-
-          if (isDev) { // Debug logs only in development
-              console.debug(`[EyeLove CS Debug BG] === Element:`, data.element);
-              console.debug(`  Original BG: ${data.originalBg}`);
-              console.debug(`  Parsed BG:`, parsedBg);
-              console.debug(`  Alpha: ${originalAlpha.toFixed(2)}`);
-              console.debug(`  Has Direct Text: ${hasDirectText}`);
-              if(oklchBg) console.debug(`  Original Lightness (L): ${oklchBg.l.toFixed(2)}`);
-          }
-
-          // --- Refined Check: Only process opaque backgrounds ---
-          if (oklchBg && originalAlpha > 0.5) { // Check opacity FIRST
-              if (oklchBg!.l > 0.3) { // Check if light enough
-                  if (hasDirectText) { // Check if it has text
-                      // Conditions met: Calculate new background
-                      const isButton = data.element.tagName === 'BUTTON';
-                      let targetL = isButton ? 0.35 : (1.0 - oklchBg.l);
-                      let targetC = oklchBg.c * (isButton ? 0.1 : 0.3);
-                      const newH = oklchBg.h || 0;
-                      targetL = Math.max(0, Math.min(1, targetL));
-                      targetC = Math.max(0, targetC);
-                      finalBackgroundL = targetL;
-                      finalBgOklch = { mode: "oklch", l: finalBackgroundL, c: targetC, h: newH };
-                      backgroundLuminance = getRelativeLuminance(finalBgOklch);
-                      newBg = culori.formatHex(finalBgOklch);
-                      if (isDev) console.debug(`  Decision: Applying new BG ${newBg}`);
-                  } else {
-                      reasonSkipped = 'No direct text content';
-                      // Estimate background luminance if skipping BG apply
-                      finalBackgroundL = 0.2;
-                      finalBgOklch = { mode: 'oklch', l: finalBackgroundL, c: 0, h: 0 };
-                      backgroundLuminance = getRelativeLuminance(finalBgOklch) ?? 0.1;
-                  }
-              } else {
-                  // Original was dark or near-dark
-                  reasonSkipped = 'Original BG not light enough (L <= 0.3)';
-                  finalBackgroundL = oklchBg.l;
-                  finalBgOklch = oklchBg;
-                  backgroundLuminance = getRelativeLuminance(finalBgOklch);
-              }
-          } else {
-               // Background was transparent, semi-transparent, or unparseable
-               reasonSkipped = `Parsed BG invalid or alpha <= 0.5 (alpha=${originalAlpha.toFixed(2)})`;
-               finalBackgroundL = 0.2;
-               finalBgOklch = { mode: 'oklch', l: finalBackgroundL, c: 0, h: 0 };
-               backgroundLuminance = getRelativeLuminance(finalBgOklch) ?? 0.1;
-          }
-          // --- End Refined Check ---
-
-          if (!newBg && isDev) {
-              console.debug(`  Decision: Skipping BG override. Reason: ${reasonSkipped}`);
-          }
-
-          // Fallback for background luminance if still undefined (shouldn't happen often now)
-          if (backgroundLuminance === undefined) {
-             backgroundLuminance = finalBackgroundL < 0.5 ? 0.1 : 0.9;
-             if (isDev) console.debug(`  Using estimated fallback luminance: ${backgroundLuminance.toFixed(2)}`);
-          }
-
-          // Process Text Color with simpler contrast approach
-          const parsedColor = data.originalColor ? culori.parse(data.originalColor) : undefined;
-          if (parsedColor && (parsedColor.alpha ?? 1) > 0.5) {
-            const oklchColor = culori.oklch(parsedColor);
-            if (oklchColor) {
-              // Initial transformation
-              let newL = 1.0 - oklchColor.l;
-              let newC = oklchColor.c * (isButton ? 0.5 : 0.3); // Less chroma reduction for button text
-              const newH = oklchColor.h || 0;
-              
-              // Basic clamping
-              newL = Math.max(0, Math.min(1, newL));
-              newC = Math.max(0, newC);
-              
-              // --- Apply Simpler Contrast Clamp ---
-              if (finalBackgroundL < 0.5) {
-                  newL = Math.max(newL, 0.75); // Force light text on dark background
-              } else {
-                  newL = Math.min(newL, 0.25); // Force dark text on light background
-              }
-              newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-              // --- End Simpler Contrast Clamp ---
-              
-              // Create transformed text color
-              const darkOklchText: Oklch = { 
-                mode: "oklch", 
-                l: newL, 
-                c: newC, 
-                h: newH 
-              };
-              
-              // Generate hex color
-              newColor = culori.formatHex(darkOklchText);
-            }
-          }
-          
-          // Process SVG Fill Color
-          if (data.originalFill) {
-              try {
-                  const parsedFill = culori.parse(data.originalFill);
-                  if (parsedFill && (parsedFill.alpha ?? 1) > 0.1) {
-                      const oklchFill = culori.oklch(parsedFill);
-                      if (oklchFill) {
-                          // Simple transformation
-                          let newL = 1.0 - oklchFill.l; // Invert lightness
-                          let newC = oklchFill.c * (isButton ? 0.4 : 0.3); // Less chroma reduction for button icons
-                          const newH = oklchFill.h || 0;
-                          
-                          // Basic clamping
-                          newL = Math.max(0, Math.min(1, newL));
-                          newC = Math.max(0, newC);
-                          
-                          // --- Apply Simpler Contrast Clamp ---
-                          if (finalBackgroundL < 0.5) {
-                              newL = Math.max(newL, 0.75); // Force light fill on dark background
-                          } else {
-                              newL = Math.min(newL, 0.25); // Force dark fill on light background
-                          }
-                          newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-                          // --- End Simpler Contrast Clamp ---
-                          
-                          // Create transformed fill color
-                          const darkOklchFill: Oklch = { 
-                              mode: "oklch", 
-                              l: newL, 
-                              c: newC, 
-                              h: newH 
-                          };
-                          
-                          // Generate hex color
-                          newFill = culori.formatHex(darkOklchFill);
-                      }
-                  }
-              } catch (e) {
-                  if (isDev) console.debug(`[EyeLove CS] Error processing fill color: ${data.originalFill}`, e);
-              }
-          }
-          
-          // Process SVG Stroke Color
-          if (data.originalStroke) {
-              try {
-                  const parsedStroke = culori.parse(data.originalStroke);
-                  if (parsedStroke && (parsedStroke.alpha ?? 1) > 0.1) {
-                      const oklchStroke = culori.oklch(parsedStroke);
-                      if (oklchStroke) {
-                          // Simple transformation
-                          let newL = 1.0 - oklchStroke.l; // Invert lightness
-                          let newC = oklchStroke.c * (isButton ? 0.3 : 0.2); // Less chroma reduction for button strokes
-                          const newH = oklchStroke.h || 0;
-                          
-                          // Basic clamping
-                          newL = Math.max(0, Math.min(1, newL));
-                          newC = Math.max(0, newC);
-                          
-                          // --- Apply Simpler Contrast Clamp ---
-                          if (finalBackgroundL < 0.5) {
-                              newL = Math.max(newL, 0.75); // Force light stroke on dark background
-                          } else {
-                              newL = Math.min(newL, 0.25); // Force dark stroke on light background
-                          }
-                          newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-                          // --- End Simpler Contrast Clamp ---
-                          
-                          // Create transformed stroke color
-                          const darkOklchStroke: Oklch = { 
-                              mode: "oklch", 
-                              l: newL, 
-                              c: newC, 
-                              h: newH 
-                          };
-                          
-                          // Generate hex color
-                          newStroke = culori.formatHex(darkOklchStroke);
-                      }
-                  }
-              } catch (e) {
-                  if (isDev) console.debug(`[EyeLove CS] Error processing stroke color: ${data.originalStroke}`, e);
-              }
-          }
-
-          // Apply styles directly to the element using setProperty
-          // PERF_NOTE: Writing inline styles. Causes DOM modification.
-          let stylesApplied = false;
-          
-          if (data.element instanceof HTMLElement || data.element instanceof SVGElement) {
-              // First, store the original style but only if not already styled by us
-              if (!data.element.hasAttribute('data-eyelove-styled')) {
-                  const originalStyle = data.element.getAttribute('style');
-                  elementOriginalStyles.set(data.element as HTMLElement, originalStyle);
-              }
-              
-              // Apply new styles
-              if (newBg) {
-                  data.element.style.setProperty('background-color', newBg, 'important');
-                  stylesApplied = true;
-              }
-              if (newColor) {
-                  data.element.style.setProperty('color', newColor, 'important');
-                  stylesApplied = true;
-              }
-              // Apply SVG-specific styles
-              if (newFill) {
-                  data.element.style.setProperty('fill', newFill, 'important');
-                  stylesApplied = true;
-              }
-              if (newStroke) {
-                  data.element.style.setProperty('stroke', newStroke, 'important');
-                  stylesApplied = true;
-              }
-              
-              // Mark the element as styled by EyeLove for later cleanup
-              if (stylesApplied) {
-                  data.element.dataset.eyeloveStyled = 'inline';
-              }
-          }
-      } catch (e) {
-          if (isDev) console.warn('[EyeLove CS] Error processing or styling element:', data.element, e);
-      }
-  });
+  // --- Element Color Strategy (Strategy 2: inline styles, or Strategy 3: stylesheet rewriting) ---
+  // The inline engine styles elements itself, so only custom properties are rewritten in its sheet
+  let engineCss = '';
+  if (currentState.engine === 'inline') {
+    applyComputedStyleStrategy(transformer);
+    engineCss = buildStylesheetEngineCss(transformer, document, true);
+  } else {
+    engineCss = buildStylesheetEngineCss(transformer);
+    getStyledRoots().forEach((root) => applyInlineDeclaredStyles(root, transformer));
+  }
 
-  const t1_strategy2 = performance.now();
-  if (isDev) console.log(`[EyeLove CS] Strategy 2: Write phase finished. Duration: ${(t1_strategy2 - t0_strategy2).toFixed(2)}ms`);
-  // --- End of Strategy 2 ---
+  rememberStyleSheets();
 
   // Combine generated rules with fallback styles
-  const cssOverrideRules = `
-    /* EyeLove Dynamic Styles (OKLCH-based) */
-    html.eyelove-dark-theme-active,
-    body.${BODY_CLASS_DARK_ENABLED} {
-      /* Basic Fallbacks */
-      background-color: #1a1a1a !important;
-      color: #e0e0e0 !important;
-      border-color: #444444 !important;
-      color-scheme: dark !important;
-
-      /* Generated Variable Overrides (Strategy 1) */
-      ${overrideRules.join('\n      ')}
-    }
-
-    /* Specific non-variable overrides */
-    body.${BODY_CLASS_DARK_ENABLED} a {
-      color: #9ecaed !important;
-    }
-  `;
+  const cssOverrideRules = buildOverrideCss(transformer, overrideRules, engineCss);
+  updateShadowRootSheets(transformer);
 
   try {
     // Update the sheet content
@@ -446,42 +252,438 @@ function applyDarkModeStyles() {
   } catch (e) {
       console.error('[EyeLove CS] Error applying dynamic styles:', e);
   }
+  applySiteFixStyles(transformer);
+  applyMediaPolicy(transformer);
 
-  // Cache state
-  try {
-    localStorage.setItem('eyelove-enabled-cache', 'true');
-  } catch (e) {
-    if (isDev) console.error('Error writing to localStorage cache:', e);
-  }
-  
   // Set up MutationObserver for dynamic content if not already observing
   if (!domObserver) {
     if (isDev) console.log('[EyeLove CS] Setting up MutationObserver for dynamic content');
     
-    domObserver = new MutationObserver((mutationsList) => {
-      if (isDev) console.log('[EyeLove CS] DOM mutations detected:', mutationsList.length);
-      
-      for (const mutation of mutationsList) {
-        if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
-          mutation.addedNodes.forEach(node => {
-            if (node instanceof HTMLElement) {
-              if (isDev) console.log('[EyeLove CS] New element added to DOM:', node);
-              applyStylesToElementAndChildren(node);
-            }
-          });
-        }
-      }
-    });
+    domObserver = new MutationObserver(handleDomMutations);
     
     // Start observing with configuration
-    domObserver.observe(document.body, {
-      childList: true,
-      subtree: true,
-      attributes: false
-    });
+    domObserver.observe(document.body, DOM_OBSERVER_OPTIONS);
+    shadowRootSheets.forEach((_sheet, root) => domObserver?.observe(root, DOM_OBSERVER_OPTIONS));
     
     if (isDev) console.log('[EyeLove CS] MutationObserver started for dynamic content');
   }
+
+  // Regenerate overrides when the page adds, removes or edits stylesheets
+  if (!styleSheetObserver) {
+    const observer = observeStyleSheetChanges(document, scheduleOverrideRefresh);
+    shadowRootSheets.forEach((_sheet, root) => watchStyleSheetRoot(observer, root));
+    styleSheetObserver = observer;
+  }
+}
+
+/**
+ * Builds the full override sheet: base fallbacks, widget theming, site fix variable
+ * overrides (Strategy 1) and the rewritten page rules (Strategy 3; custom properties
+ * only with the inline engine).
+ */
+function buildOverrideCss(transformer: ColorTransformer, variableRules: string[], engineCss: string): string {
+  const { backgroundColor, textColor, linkColor } = currentState.appearance ?? DEFAULT_APPEARANCE;
+  // Light touch (partly dark pages): no page-level fallbacks, only what the page's own rules make light is changed
+  const lightTouch = pageDarkness?.handling === 'light';
+  return `
+    /* EyeLove Dynamic Styles (OKLCH-based) */
+    html.${ROOT_CLASS_DARK_ACTIVE},
+    body.${BODY_CLASS_DARK_ENABLED} {
+      ${lightTouch ? '' : `/* Basic Fallbacks */
+      background-color: ${backgroundColor} !important;
+      color: ${textColor} !important;
+      border-color: #444444 !important;
+      color-scheme: dark !important;`}
+
+      /* Generated Variable Overrides (Strategy 1) */
+      ${variableRules.join('\n      ')}
+    }
+
+    /* Specific non-variable overrides; the selection and widgets lose to the page's own (rewritten) rules */
+    ${lightTouch ? '' : `body.${BODY_CLASS_DARK_ENABLED} a {
+      color: ${linkColor} !important;
+    }
+    :where(body.${BODY_CLASS_DARK_ENABLED}) ::selection {
+      background-color: color-mix(in oklch, ${linkColor} 45%, ${backgroundColor});
+      color: ${textColor};
+    }
+    ${buildWidgetCss(transformer, `body.${BODY_CLASS_DARK_ENABLED}`)}`}
+
+    /* Rewritten Page Stylesheets (Strategy 3) */
+    ${engineCss}
+  `;
+}
+
+/**
+ * Form control and scrollbar theming from the base palette. The site's accent is
+ * transformed like any other color and kept legible on the page background; sites
+ * without one get the link color.
+ *
+ * @param scope Selector the rules apply within, '' inside shadow roots
+ */
+function buildWidgetCss(transformer: ColorTransformer, scope: string): string {
+  const { backgroundColor, textColor, linkColor } = currentState.appearance ?? DEFAULT_APPEARANCE;
+  let accent = linkColor;
+  if (siteAccent) {
+    const transformed = transformer.transform(siteAccent, 'fill');
+    accent = formatOklch(solveForeground(transformed, undefined, siteAccent, undefined, 'graphic', getPipelineContext(transformer)).color);
+  }
+  return buildFormControlCss(scope, { background: backgroundColor, text: textColor, accent });
+}
+
+/**
+ * Strategy 2: reads the computed colors of common elements and writes
+ * transformed colors back as inline `!important` styles.
+ */
+function applyComputedStyleStrategy(transformer: ColorTransformer) {
+  if (isDev) console.log('[EyeLove CS] Starting Strategy 2: Computed Style Analysis...');
+  const t0 = performance.now();
+
+  const elements = getStyledRoots().flatMap((root) => collectStyledElements(root));
+  const decisions = runStylePipeline(elements, getPipelineContext(transformer), PIPELINE_ENVIRONMENT, contrastReport);
+
+  if (isDev) console.log(`[EyeLove CS] Strategy 2: Styled ${decisions.length} elements in ${(performance.now() - t0).toFixed(2)}ms`);
+}
+
+// == Stylesheet Engine (Strategy 3) ==
+
+/**
+ * Transforms one color token for a role; null keeps it. Text has no known element
+ * background here, so it is solved against the page background.
+ */
+function createColorMapper(transformer: ColorTransformer): (token: string, role: ColorRole) => string | null {
+  return (token, role) => {
+    const color = parseToOklch(token); // Null for fully transparent colors
+    if (!color) return null;
+    // Dark backgrounds are already fine (same threshold as Strategy 2)
+    if (role === 'background' && color.l <= 0.3) return null;
+    let result = transformer.transform(color, role);
+    if (role === 'text') {
+      const solved = solveForeground(result, undefined, color, undefined, 'text', getPipelineContext(transformer));
+      recordContrastOutcome(contrastReport, solved.outcome, null);
+      result = solved.color;
+    }
+    return formatOklch(result);
+  };
+}
+
+/**
+ * Builds the declaration mapper used by the stylesheet engine and for inline-only
+ * styles: every color token is transformed according to the property's role, and
+ * custom properties according to how the page's stylesheets use them.
+ *
+ * @param customPropertiesOnly Leave every other property alone
+ */
+function createDeclarationMapper(transformer: ColorTransformer, customPropertiesOnly = false): DeclarationMapper {
+  const mapColor = createColorMapper(transformer);
+  return (property, value) => {
+    if (property.startsWith('--')) return rewriteCustomProperty(property, value, customPropertyUsage, mapColor);
+    const role = COLOR_PROPERTY_ROLES[property];
+    if (!role || customPropertiesOnly) return null;
+    const rewritten = rewriteColorsInValue(value, (token) => mapColor(token, role));
+    if (property !== 'background-image') return rewritten;
+    return applyBackgroundImagePolicy(rewritten, currentState.media, getBackgroundImage) ?? rewritten;
+  };
+}
+
+/**
+ * Our own sheets, which are never rewritten or scanned.
+ */
+function getOwnStyleSheets(): CSSStyleSheet[] {
+  return [dynamicStyleSheet, mediaStyleSheet, siteFixStyleSheet, ...shadowRootSheets.values()].filter((sheet): sheet is CSSStyleSheet => sheet !== null);
+}
+
+/**
+ * Rescans the stylesheets of every styled root for how they use custom properties.
+ */
+function refreshCustomPropertyUsage() {
+  customPropertyUsage = collectCustomPropertyUsage(getStyledRoots(), getOwnStyleSheets(), (href) => crossOriginSheetText.get(href) ?? null);
+}
+
+/**
+ * Rewrites the stylesheets of the document (or of one shadow root) into override
+ * CSS. Cross-origin sheets are fetched through the background worker; if that
+ * fails, the page falls back to Strategy 2 inline styles.
+ *
+ * @param customPropertiesOnly Only rewrite custom property declarations (inline engine)
+ */
+function buildStylesheetEngineCss(transformer: ColorTransformer, root: Document | ShadowRoot = document, customPropertiesOnly = false): string {
+  const t0 = performance.now();
+  const mapDeclaration = createDeclarationMapper(transformer, customPropertiesOnly);
+  // Processed background images and custom property usage change the output, so they are part of the cache key
+  const cacheKey = `${getStyleSignature()}#${readyBackgroundImages}#${getUsageKey(customPropertyUsage)}${customPropertiesOnly ? '#vars' : ''}`;
+
+  const exclude = getOwnStyleSheets();
+  const getExternalCss = (href: string) => {
+    const text = crossOriginSheetText.get(href);
+    if (!text) return null;
+    const cached = crossOriginSheetCss.get(href);
+    if (cached?.key === cacheKey) return cached.css;
+    const rewritten = rewriteCssText(text, mapDeclaration, href, ignoreSelector ?? undefined);
+    crossOriginSheetCss.set(href, { key: cacheKey, css: rewritten });
+    return rewritten;
+  };
+
+  const { css, inaccessibleSheets } = rewriteStyleSheets(root, mapDeclaration, cacheKey, exclude, getExternalCss, ignoreSelector ?? undefined);
+
+  inaccessibleSheets.forEach(fetchCrossOriginSheet);
+
+  if (isDev && root === document) console.log(`[EyeLove CS] Strategy 3: Rewrote stylesheets in ${(performance.now() - t0).toFixed(2)}ms (${inaccessibleSheets.length} inaccessible)`);
+  return css;
+}
+
+/**
+ * Asks the background worker (which has host permissions) for the text of a
+ * cross-origin stylesheet, then regenerates the overrides. Falls back to inline
+ * styles when the sheet can't be fetched.
+ */
+function fetchCrossOriginSheet(href: string) {
+  if (crossOriginSheetText.has(href) || !chrome.runtime?.id) return;
+  crossOriginSheetText.set(href, null); // Pending (or failed)
+
+  callBackground('fetchStyleSheet', { url: href }).then(({ css }) => {
+    crossOriginSheetText.set(href, css);
+    scheduleOverrideRefresh();
+  }).catch((error) => {
+    if (isDev) console.warn('[EyeLove CS] Could not fetch cross-origin stylesheet:', href, error);
+    if (currentState.engine !== 'inline') applyInlineFallback();
+  });
+}
+
+/**
+ * Strategy 2 as a fallback for content the stylesheet engine can't see. Our
+ * override sheet is detached while computed styles are read, so elements
+ * already covered by it aren't transformed twice.
+ */
+function applyInlineFallback() {
+  if (inlineFallbackApplied || !areStylesApplied() || !dynamicStyleSheet) return;
+  inlineFallbackApplied = true;
+
+  const sheet = dynamicStyleSheet;
+  document.adoptedStyleSheets = document.adoptedStyleSheets.filter((s) => s !== sheet);
+  shadowRootSheets.forEach((rootSheet, root) => {
+    root.adoptedStyleSheets = root.adoptedStyleSheets.filter((s) => s !== rootSheet);
+  });
+  applyComputedStyleStrategy(getActiveTransformer());
+  document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+  shadowRootSheets.forEach((rootSheet, root) => {
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, rootSheet];
+  });
+}
+
+/**
+ * Rewrites colors declared in `style` attributes, which no stylesheet can override
+ * without `!important`. Handles `root` and all its descendants.
+ */
+function applyInlineDeclaredStyles(root: Document | ShadowRoot | Element, transformer: ColorTransformer) {
+  const mapDeclaration = createDeclarationMapper(transformer);
+  const elements = root instanceof Element && root.hasAttribute('style')
+    ? [root, ...Array.from(root.querySelectorAll('[style]'))]
+    : Array.from(root.querySelectorAll('[style]'));
+
+  for (const element of elements) {
+    if (!(element instanceof HTMLElement || element instanceof SVGElement)) continue;
+    if (element.hasAttribute('data-eyelove-styled')) continue; // Already rewritten
+    if (isIgnoredElement(element, ignoreSelector)) continue;
+    const rewritten = rewriteDeclarations(element.style, mapDeclaration);
+    setInlineColors(element, Object.fromEntries(rewritten.map(({ property, value }) => [property, value])));
+  }
+}
+
+/**
+ * Regenerates the override sheets (document and shadow roots) on the next frame.
+ * Coalesces bursts of stylesheet changes (e.g. a framework injecting many <style> tags).
+ */
+function scheduleOverrideRefresh() {
+  if (stylesheetRefreshPending) return;
+  stylesheetRefreshPending = true;
+  requestAnimationFrame(() => {
+    stylesheetRefreshPending = false;
+    if (!areStylesApplied() || !dynamicStyleSheet) return;
+    const sheet = dynamicStyleSheet;
+    timePerf('overrideRefreshes', 'overrideRefreshMs', () => {
+      const transformer = getActiveTransformer();
+      if (!transformer.pageFilter) {
+        try {
+          rememberStyleSheets();
+          refreshCustomPropertyUsage();
+          const engineCss = buildStylesheetEngineCss(transformer, document, currentState.engine === 'inline');
+          sheet.replaceSync(buildOverrideCss(transformer, variableOverrideRules, engineCss));
+        } catch (e) {
+          console.error('[EyeLove CS] Error refreshing stylesheet overrides:', e);
+        }
+      }
+      updateShadowRootSheets(transformer);
+      updateMediaPolicySheet(transformer);
+    });
+  });
+}
+
+/**
+ * Notes which stylesheets the overrides are built from (see getStyleSheetsFingerprint).
+ */
+function rememberStyleSheets() {
+  styleSheetFingerprint = getStyleSheetsFingerprint(getStyledRoots(), getOwnStyleSheets());
+}
+
+/**
+ * Schedules a check for rules the page added through the CSSOM since the overrides
+ * were built (CSS-in-JS libraries insert them as components render), which the
+ * stylesheet observer can't see. Runs when idle, at most every STYLE_SHEET_CHECK_INTERVAL_MS.
+ */
+function scheduleStyleSheetCheck() {
+  if (styleSheetCheckPending || currentState.engine === 'inline') return;
+  styleSheetCheckPending = true;
+  setTimeout(() => {
+    const check = () => {
+      styleSheetCheckPending = false;
+      if (!areStylesApplied() || getActiveTransformer().pageFilter) return;
+      if (getStyleSheetsFingerprint(getStyledRoots(), getOwnStyleSheets()) !== styleSheetFingerprint) {
+        invalidateStyleSheetSignatures();
+        scheduleOverrideRefresh();
+      }
+    };
+    if (typeof requestIdleCallback === 'function') requestIdleCallback(check, { timeout: STYLE_SHEET_CHECK_INTERVAL_MS });
+    else check();
+  }, STYLE_SHEET_CHECK_INTERVAL_MS);
+}
+
+// == Shadow DOM ==
+
+/**
+ * The document plus every open shadow root being styled.
+ */
+function getStyledRoots(): Array<Document | ShadowRoot> {
+  return [document, ...shadowRootSheets.keys()];
+}
+
+/**
+ * Finds open shadow roots in or below `root` and registers the ones not seen
+ * before. Returns the newly registered roots.
+ */
+function discoverShadowRoots(root: Document | Element | ShadowRoot): ShadowRoot[] {
+  const added = collectOpenShadowRoots(root).filter((shadowRoot) => !shadowRootSheets.has(shadowRoot));
+  added.forEach(registerShadowRoot);
+  return added;
+}
+
+/**
+ * Gives a shadow root its own override sheet and adds it to the running observers.
+ */
+function registerShadowRoot(root: ShadowRoot) {
+  shadowRootSheets.set(root, new CSSStyleSheet());
+  root.addEventListener('load', handleMediaLoad, true); // Image loads don't leave the shadow tree
+  domObserver?.observe(root, DOM_OBSERVER_OPTIONS);
+  if (styleSheetObserver) watchStyleSheetRoot(styleSheetObserver, root);
+}
+
+/**
+ * Styles shadow roots that appeared after the initial pass. Their sheets are
+ * rewritten on the next frame, once the component has adopted its styles.
+ */
+function styleNewShadowRoots(roots: ShadowRoot[], transformer: ColorTransformer) {
+  if (roots.length === 0) return;
+  if (!transformer.pageFilter) {
+    for (const root of roots) {
+      if (currentState.engine === 'inline') {
+        Array.from(root.children).forEach((child) => applyStylesToElementAndChildren(child));
+      } else {
+        applyInlineDeclaredStyles(root, transformer);
+      }
+    }
+  }
+  roots.forEach(scanMediaElements);
+  scheduleOverrideRefresh();
+}
+
+/**
+ * Rebuilds and (re-)adopts every shadow root's override sheet: the root's own
+ * rewritten stylesheets and widget theming, or the media counter-filter for filter-based algorithms.
+ * Components may replace adoptedStyleSheets wholesale, so adoption is re-checked each time.
+ */
+function updateShadowRootSheets(transformer: ColorTransformer) {
+  shadowRootSheets.forEach((sheet, root) => {
+    try {
+      let css = '';
+      if (transformer.pageFilter) css = buildMediaFilterCss(transformer.pageFilter);
+      else {
+        css = buildStylesheetEngineCss(transformer, root, currentState.engine === 'inline');
+        if (pageDarkness?.handling !== 'light') css += buildWidgetCss(transformer, '');
+      }
+      sheet.replaceSync(css);
+      if (!root.adoptedStyleSheets.includes(sheet)) {
+        root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+      }
+    } catch (e) {
+      if (isDev) console.warn('[EyeLove CS] Error styling shadow root:', root.host, e);
+    }
+  });
+}
+
+/**
+ * Removes our sheets from all shadow roots and forgets them.
+ */
+function removeShadowRootStyles() {
+  shadowRootSheets.forEach((sheet, root) => {
+    root.adoptedStyleSheets = root.adoptedStyleSheets.filter((s) => s !== sheet);
+    root.removeEventListener('load', handleMediaLoad, true);
+  });
+  shadowRootSheets.clear();
+}
+
+/**
+ * Applies a whole-page CSS filter (used by filter-based algorithms such as 'filter').
+ * Media is filtered a second time so photos and videos keep their original colors.
+ */
+function applyPageFilterStyles(filter: string) {
+  if (!dynamicStyleSheet) return;
+
+  const cssFilterRules = `
+    /* EyeLove Dynamic Styles (page filter) */
+    html {
+      filter: ${filter} !important;
+      /* Light base so the inverted page comes out dark */
+      background-color: #ffffff !important;
+      color-scheme: light !important;
+    }
+
+    ${buildMediaFilterCss(filter)}
+  `;
+
+  try {
+    dynamicStyleSheet.replaceSync(cssFilterRules);
+    if (!document.adoptedStyleSheets.includes(dynamicStyleSheet)) {
+      document.adoptedStyleSheets = [...document.adoptedStyleSheets, dynamicStyleSheet];
+    }
+    if (isDev) console.info('[EyeLove CS] Applied page filter styles:', filter);
+  } catch (e) {
+    console.error('[EyeLove CS] Error applying page filter styles:', e);
+  }
+}
+
+/**
+ * Counter-filter for media, so photos and videos aren't shown as negatives.
+ * Also used inside shadow roots, which the page-level rule can't reach.
+ */
+function buildMediaFilterCss(filter: string): string {
+  return `
+    /* Undo the filter on media so it isn't shown as a negative */
+    img, video, picture, canvas, iframe, embed, object, svg image {
+      filter: ${filter} !important;
+    }
+  `;
+}
+
+/**
+ * Clears the contrast report and the markers on elements that missed the target.
+ */
+function resetContrastReport() {
+  contrastReport.checked = 0;
+  contrastReport.adjusted = 0;
+  contrastReport.unmet = 0;
+  getStyledRoots().forEach((root) => {
+    root.querySelectorAll(`[${CONTRAST_UNMET_ATTRIBUTE}]`).forEach((element) => element.removeAttribute(CONTRAST_UNMET_ATTRIBUTE));
+  });
 }
 
 /**
@@ -492,62 +694,37 @@ function removeDarkModeStyles() {
   if (domObserver) {
     domObserver.disconnect();
     domObserver = null;
+    dynamicScheduler.cancel();
     if (isDev) console.log('[EyeLove CS] MutationObserver disconnected');
   }
+  if (styleSheetObserver) {
+    styleSheetObserver.disconnect();
+    styleSheetObserver = null;
+  }
+  inlineFallbackApplied = false;
   
   // First, clean up any inline styles applied by Strategy 2
   const t0_cleanup = performance.now();
-  const inlineStyledElements = document.querySelectorAll('[data-eyelove-styled="inline"]');
+  const inlineStyledElements = getStyledRoots().flatMap((root) => Array.from(root.querySelectorAll('[data-eyelove-styled="inline"]')));
   
   if (inlineStyledElements.length > 0) {
       if (isDev) console.log(`[EyeLove CS Cleanup] Removing inline styles from ${inlineStyledElements.length} elements`);
-      
-      inlineStyledElements.forEach(element => {
-          if (element instanceof HTMLElement || element instanceof SVGElement) {
-              // Retrieve original style
-              const originalStyle = elementOriginalStyles.get(element as HTMLElement);
-              
-              // --- Add Debug Logging Here ---
-              if (isDev) {
-                  console.debug(`[EyeLove CS Cleanup] Processing element:`, element);
-                  console.debug(`[EyeLove CS Cleanup]   Original style retrieved from WeakMap:`, originalStyle);
-              }
-              // --- End Debug Logging ---
-              
-              // Restore original style state
-              if (originalStyle !== undefined) {
-                  if (originalStyle !== null) {
-                      if (isDev) console.debug(`[EyeLove CS Cleanup]   Restoring style attribute to: "${originalStyle}"`);
-                      element.setAttribute('style', originalStyle);
-                  } else {
-                      if (isDev) console.debug('[EyeLove CS Cleanup]   Original style was null, removing attribute.');
-                      element.removeAttribute('style');
-                  }
-                  // Clean up WeakMap entry
-                  elementOriginalStyles.delete(element as HTMLElement);
-              } else {
-                  // Fallback / Error case
-                  if (isDev) console.warn('[EyeLove CS Cleanup] Missing original style in WeakMap for element:', element);
-                  // Attempt cleanup by removing attribute as fallback
-                   element.removeAttribute('style');
-                   // Fallback: remove individual properties (optional, maybe redundant now)
-                   // (element as HTMLElement).style.removeProperty('background-color');
-                   // (element as HTMLElement).style.removeProperty('color');
-                   // (element as HTMLElement).style.removeProperty('fill');
-                   // (element as HTMLElement).style.removeProperty('stroke');
-              }
-              
-              // Remove our marker
-              element.removeAttribute('data-eyelove-styled');
-          }
-      });
+      inlineStyledElements.forEach(restoreOriginalStyle);
       
       const t1_cleanup = performance.now();
       if (isDev) console.log(`[EyeLove CS] Inline styles cleanup completed in ${(t1_cleanup - t0_cleanup).toFixed(2)}ms`);
   }
   
-  // Then remove the body class
+  pseudoStyles.clear();
+  resetContrastReport();
+  removeMediaPolicy();
+  removeSiteFixStyles();
+  removeShadowRootStyles();
+  ignoreSelector = null;
+
+  // Then remove the body and root classes
   document.body.classList.remove(BODY_CLASS_DARK_ENABLED);
+  document.documentElement.classList.remove(ROOT_CLASS_DARK_ACTIVE);
 
   // Remove our specific sheet from the document
   console.log('[EyeLove CS] removeDarkModeStyles: Current adoptedStyleSheets:', [...document.adoptedStyleSheets]);
@@ -558,333 +735,609 @@ function removeDarkModeStyles() {
     );
   }
   if (isDev) console.info('[EyeLove CS] Removed dynamic dark mode styles.');
+}
 
-  // Cache state
-  try {
-    localStorage.setItem('eyelove-enabled-cache', 'false');
-  } catch (e) {
-    if (isDev) console.error('Error writing to localStorage cache:', e);
+/**
+ * Writes transformed colors as inline `!important` styles (null values are skipped).
+ * Remembers the element's original style attribute for cleanup, and what we wrote,
+ * so our own style mutations can be told apart from the page's.
+ */
+function setInlineColors(element: Element, properties: Record<string, string | null>) {
+  if (!(element instanceof HTMLElement || element instanceof SVGElement)) return;
+  const entries = Object.entries(properties).filter((entry): entry is [string, string] => entry[1] !== null);
+  if (entries.length === 0) return;
+
+  if (!element.hasAttribute('data-eyelove-styled')) {
+    elementOriginalStyles.set(element as HTMLElement, element.getAttribute('style'));
+  }
+  const written = { ...ownInlineStyles.get(element)?.properties };
+  for (const [property, value] of entries) {
+    element.style.setProperty(property, value, 'important');
+    written[property] = element.style.getPropertyValue(property); // Serialized form, for comparisons
   }
+  element.dataset.eyeloveStyled = 'inline';
+  ownInlineStyles.set(element, { attribute: element.getAttribute('style'), properties: written });
 }
 
 /**
- * Apply styles to a dynamically added element and its children
- * 
- * @param element The newly added element to style
+ * The page changed the style attribute of an element we styled: its new attribute,
+ * minus the colors we wrote, becomes the original, and the element is unstyled
+ * so it can be processed again.
+ */
+function adoptPageStyleChange(element: Element) {
+  const own = ownInlineStyles.get(element);
+  if (!own || !(element instanceof HTMLElement || element instanceof SVGElement)) return;
+  for (const [property, value] of Object.entries(own.properties)) {
+    if (element.style.getPropertyValue(property) === value && element.style.getPropertyPriority(property) === 'important') {
+      element.style.removeProperty(property);
+    }
+  }
+  elementOriginalStyles.set(element as HTMLElement, element.getAttribute('style'));
+  restoreOriginalStyle(element);
+}
+
+/**
+ * Puts back an element's original style attribute and removes our marker.
+ */
+function restoreOriginalStyle(element: Element) {
+  if (!(element instanceof HTMLElement || element instanceof SVGElement)) return;
+  const originalStyle = elementOriginalStyles.get(element as HTMLElement);
+  if (isDev) console.debug('[EyeLove CS Cleanup] Restoring element:', element, 'original style:', originalStyle);
+
+  if (originalStyle === undefined) {
+    // Missing original: removing the attribute is the best we can do
+    if (isDev) console.warn('[EyeLove CS Cleanup] Missing original style in WeakMap for element:', element);
+    element.removeAttribute('style');
+  } else if (originalStyle === null) {
+    element.removeAttribute('style');
+  } else if (element.getAttribute('style') !== originalStyle) {
+    element.setAttribute('style', originalStyle);
+  }
+  elementOriginalStyles.delete(element as HTMLElement);
+  ownInlineStyles.delete(element);
+
+  // Remove our marker
+  element.removeAttribute('data-eyelove-styled');
+}
+
+/**
+ * Strategy 2 for a dynamically added (or restyled) element and its descendants.
  */
 function applyStylesToElementAndChildren(element: Element) {
-  if (!element) return;
-  
   const t0 = performance.now();
-  
-  // Target this element and all its descendants matching our selector
-  const elementSelector = 'body, div, section, article, main, header, footer, nav, aside, p, li, h1, h2, h3, h4, h5, h6, span, button, label, legend, td, th, svg';
-  const elementsToProcess: Element[] = [];
-  
-  // Add the element itself if it matches our target tags
-  if (element.nodeName && elementSelector.includes(element.nodeName.toLowerCase())) {
-    elementsToProcess.push(element);
+  const elements = collectStyledElements(element);
+  if (elements.length === 0) return;
+
+  const decisions = runStylePipeline(elements, getPipelineContext(getActiveTransformer()), PIPELINE_ENVIRONMENT, contrastReport);
+  if (isDev) console.log(`[EyeLove CS] Processed ${decisions.length} dynamic elements in ${(performance.now() - t0).toFixed(2)}ms`);
+}
+
+// == Dynamic Content ==
+
+// Added nodes and class/style changes are styled in budgeted slices rather than on the spot
+const dynamicScheduler = createDynamicScheduler(processDynamicElement, DynamicContentSchema.parse({}));
+
+/**
+ * MutationObserver callback: queues added elements and elements whose class or
+ * style changed. Style mutations caused by our own inline styles are ignored.
+ */
+function handleDomMutations(mutations: MutationRecord[]) {
+  countPerf('mutationRecords', mutations.length);
+  for (const mutation of mutations) {
+    if (mutation.type === 'childList') {
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof Element) dynamicScheduler.enqueue(node);
+      });
+      if (mutation.addedNodes.length > 0) scheduleStyleSheetCheck();
+      if (mutation.removedNodes.length > 0) schedulePseudoStyleSweep();
+    } else if (mutation.type === 'attributes' && mutation.target instanceof Element) {
+      countPerf('attributeMutations');
+      handleAttributeMutation(mutation.target, mutation.attributeName);
+    }
   }
-  
-  // Add matching child elements
-  if (element.querySelectorAll) {
-    const children = element.querySelectorAll(elementSelector);
-    children.forEach(child => elementsToProcess.push(child));
+}
+
+/**
+ * Drops the pseudo-element rules of removed elements once the page has settled.
+ */
+function schedulePseudoStyleSweep() {
+  if (pseudoStyleSweepPending) return;
+  pseudoStyleSweepPending = true;
+  setTimeout(() => {
+    pseudoStyleSweepPending = false;
+    pseudoStyles.sweep();
+  }, PSEUDO_STYLE_SWEEP_INTERVAL_MS);
+}
+
+function handleAttributeMutation(element: Element, attributeName: string | null) {
+  if (attributeName === 'style') {
+    if (ownInlineStyles.get(element)?.attribute === element.getAttribute('style')) {
+      countPerf('ignoredMutations');
+      return;
+    }
+    adoptPageStyleChange(element);
+  } else if (currentState.engine !== 'inline') {
+    // The rewritten stylesheets follow class changes by themselves, once they include
+    // the rules the new class may have come with
+    countPerf('ignoredMutations');
+    scheduleStyleSheetCheck();
+    return;
   }
-  
-  if (elementsToProcess.length === 0) return;
-  if (isDev) console.log(`[EyeLove CS] Processing ${elementsToProcess.length} dynamic elements`);
-  
-  // --- Read Phase ---
-  const elementsData: Array<{
-    element: Element;
-    originalBg: string;
-    originalColor: string;
-    originalFill?: string;
-    originalStroke?: string;
-  }> = [];
-  
-  // Batch DOM reads
-  elementsToProcess.forEach(el => {
-    try {
-      const styles = window.getComputedStyle(el);
-      elementsData.push({
-        element: el,
-        originalBg: styles.backgroundColor,
-        originalColor: styles.color,
-        originalFill: styles.fill !== 'none' ? styles.fill : undefined,
-        originalStroke: styles.stroke !== 'none' ? styles.stroke : undefined
-      });
-    } catch (e) {
-      if (isDev) console.warn('[EyeLove CS] Error reading styles from dynamic element:', el, e);
+  dynamicScheduler.enqueue(element);
+}
+
+/**
+ * Styles one queued element and its subtree. With inline styles, styles we wrote
+ * earlier (moved or restyled subtrees) are removed first, so the page's own colors
+ * are read rather than ours.
+ */
+function processDynamicElement(element: Element) {
+  if (!areStylesApplied()) return;
+  const transformer = getActiveTransformer();
+  if (currentState.engine === 'inline') {
+    if (element.hasAttribute('data-eyelove-styled')) restoreOriginalStyle(element);
+    element.querySelectorAll('[data-eyelove-styled="inline"]').forEach(restoreOriginalStyle);
+    applyStylesToElementAndChildren(element);
+  } else {
+    // Stylesheet rules already cover new elements; only their own style attributes need work
+    applyInlineDeclaredStyles(element, transformer);
+  }
+  // Web components inserted with their shadow roots already attached
+  styleNewShadowRoots(discoverShadowRoots(element), transformer);
+}
+
+/**
+ * Updates the scheduling mode and time budget for dynamic content.
+ */
+function setDynamicContent(dynamicContent: DynamicContent) {
+  currentState.dynamicContent = dynamicContent;
+  dynamicScheduler.setOptions(dynamicContent);
+}
+
+// == Media Policy ==
+
+/**
+ * Applies the media policy: the policy sheet, plus analysis of the images already
+ * loaded (later loads are caught by handleMediaLoad).
+ */
+function applyMediaPolicy(transformer: ColorTransformer) {
+  document.addEventListener('load', handleMediaLoad, true);
+  getStyledRoots().forEach(scanMediaElements);
+  updateMediaPolicySheet(transformer);
+}
+
+/**
+ * Rebuilds the media policy sheet and (re-)adopts it last in every styled root,
+ * so its filters win over the media counter-filter.
+ */
+function updateMediaPolicySheet(transformer: ColorTransformer) {
+  if (!mediaStyleSheet) return;
+  const sheet = mediaStyleSheet;
+  try {
+    sheet.replaceSync(buildMediaPolicyCss(currentState.media, transformer.pageFilter, logoImages));
+  } catch (e) {
+    console.error('[EyeLove CS] Error applying media policy:', e);
+    return;
+  }
+  getStyledRoots().forEach((root) => {
+    const sheets = root.adoptedStyleSheets;
+    if (sheets[sheets.length - 1] !== sheet) {
+      root.adoptedStyleSheets = [...sheets.filter((s) => s !== sheet), sheet];
     }
   });
-  
-  // --- Write Phase ---
-  // Apply the same strategy 2 logic but without border handling
-  elementsData.forEach(data => {
-    try {
-      let newBg: string | null = null;
-      let newColor: string | null = null;
-      let newFill: string | null = null;
-      let newStroke: string | null = null;
-      let finalBackgroundL = 0.2; // Default assumed dark background lightness
-      const isButton = data.element.tagName === 'BUTTON'; // Check if it's a button
-      let finalBgOklch: Oklch | undefined; // Store the final background color
-
-      // Process Background Color
-      const parsedBg = data.originalBg ? culori.parse(data.originalBg) : undefined;
-      const originalAlpha = parsedBg?.alpha ?? 1.0;
-      const hasDirectText = data.element.textContent?.trim().length > 0;
-      const oklchBg = parsedBg ? culori.oklch(parsedBg) : undefined;
-      let reasonSkipped = '';
-
-      if (isDev) { // Debug logs only in development
-          console.debug(`[EyeLove CS Debug BG] === Element:`, data.element);
-          console.debug(`  Original BG: ${data.originalBg}`);
-          console.debug(`  Parsed BG:`, parsedBg);
-          console.debug(`  Alpha: ${originalAlpha.toFixed(2)}`);
-          console.debug(`  Has Direct Text: ${hasDirectText}`);
-          if(oklchBg) console.debug(`  Original Lightness (L): ${oklchBg.l.toFixed(2)}`);
-      }
+}
 
-      // --- Refined Check: Only process opaque backgrounds ---
-      if (oklchBg && originalAlpha > 0.5) { // Check opacity FIRST
-          if (oklchBg!.l > 0.3) { // Check if light enough
-              if (hasDirectText) { // Check if it has text
-                  // Conditions met: Calculate new background
-                  const isButton = data.element.tagName === 'BUTTON';
-                  let targetL = isButton ? 0.35 : (1.0 - oklchBg.l);
-                  let targetC = oklchBg.c * (isButton ? 0.1 : 0.3);
-                  const newH = oklchBg.h || 0;
-                  targetL = Math.max(0, Math.min(1, targetL));
-                  targetC = Math.max(0, targetC);
-                  finalBackgroundL = targetL;
-                  finalBgOklch = { mode: "oklch", l: finalBackgroundL, c: targetC, h: newH };
-                  newBg = culori.formatHex(finalBgOklch);
-                  if (isDev) console.debug(`  Decision: Applying new BG ${newBg}`);
-              } else {
-                  reasonSkipped = 'No direct text content';
-                  // Estimate background luminance if skipping BG apply
-                  finalBackgroundL = 0.2;
-                  finalBgOklch = { mode: 'oklch', l: finalBackgroundL, c: 0, h: 0 };
-              }
-          } else {
-              // Original was dark or near-dark
-              reasonSkipped = 'Original BG not light enough (L <= 0.3)';
-              finalBackgroundL = oklchBg.l;
-              finalBgOklch = oklchBg;
-          }
-      } else {
-           // Background was transparent, semi-transparent, or unparseable
-           reasonSkipped = `Parsed BG invalid or alpha <= 0.5 (alpha=${originalAlpha.toFixed(2)})`;
-           finalBackgroundL = 0.2;
-           finalBgOklch = { mode: 'oklch', l: finalBackgroundL, c: 0, h: 0 };
-      }
-      // --- End Refined Check ---
+/**
+ * Analyzes the loaded images in a document or shadow root.
+ */
+function scanMediaElements(root: Document | ShadowRoot) {
+  if (!getPolicyKind(currentState.media)) return;
+  root.querySelectorAll('img').forEach((image) => {
+    if (image.complete && image.naturalWidth > 0) classifyMediaElement(image);
+  });
+}
 
-      if (!newBg && isDev) {
-          console.debug(`  Decision: Skipping BG override. Reason: ${reasonSkipped}`);
-      }
+/**
+ * Capture listener for load events, which don't bubble: classifies images as they
+ * load, including when their source changes.
+ */
+function handleMediaLoad(event: Event) {
+  if (event.target instanceof HTMLImageElement && areStylesApplied()) {
+    classifyMediaElement(event.target);
+  }
+}
 
-      // Process Text Color with simpler contrast approach
-      const parsedColor = data.originalColor ? culori.parse(data.originalColor) : undefined;
-      if (parsedColor && (parsedColor.alpha ?? 1) > 0.5) {
-        const oklchColor = culori.oklch(parsedColor);
-        if (oklchColor) {
-          // Initial transformation
-          let newL = 1.0 - oklchColor.l;
-          let newC = oklchColor.c * (isButton ? 0.5 : 0.3); // Less chroma reduction for button text
-          const newH = oklchColor.h || 0;
-          
-          // Basic clamping
-          newL = Math.max(0, Math.min(1, newL));
-          newC = Math.max(0, newC);
-          
-          // --- Apply Simpler Contrast Clamp ---
-          if (finalBackgroundL < 0.5) {
-              newL = Math.max(newL, 0.75); // Force light text on dark background
-          } else {
-              newL = Math.min(newL, 0.25); // Force dark text on light background
-          }
-          newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-          // --- End Simpler Contrast Clamp ---
-          
-          // Create transformed text color
-          const darkOklchText: Oklch = { 
-            mode: "oklch", 
-            l: newL, 
-            c: newC, 
-            h: newH 
-          };
-          
-          // Generate hex color
-          newColor = culori.formatHex(darkOklchText);
-        }
-      }
-      
-      // Process SVG Fill Color
-      if (data.originalFill) {
-        try {
-          const parsedFill = culori.parse(data.originalFill);
-          if (parsedFill && (parsedFill.alpha ?? 1) > 0.1) {
-            const oklchFill = culori.oklch(parsedFill);
-            if (oklchFill) {
-              // Simple transformation
-              let newL = 1.0 - oklchFill.l; // Invert lightness
-              let newC = oklchFill.c * (isButton ? 0.4 : 0.3); // Less chroma reduction for button icons
-              const newH = oklchFill.h || 0;
-              
-              // Basic clamping
-              newL = Math.max(0, Math.min(1, newL));
-              newC = Math.max(0, newC);
-              
-              // --- Apply Simpler Contrast Clamp ---
-              if (finalBackgroundL < 0.5) {
-                  newL = Math.max(newL, 0.75); // Force light fill on dark background
-              } else {
-                  newL = Math.min(newL, 0.25); // Force dark fill on light background
-              }
-              newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-              // --- End Simpler Contrast Clamp ---
-              
-              // Create transformed fill color
-              const darkOklchFill: Oklch = { 
-                mode: "oklch", 
-                l: newL, 
-                c: newC, 
-                h: newH 
-              };
-              
-              // Generate hex color
-              newFill = culori.formatHex(darkOklchFill);
-            }
-          }
-        } catch (e) {
-          if (isDev) console.debug(`[EyeLove CS] Error processing fill color: ${data.originalFill}`, e);
-        }
-      }
-      
-      // Process SVG Stroke Color
-      if (data.originalStroke) {
-        try {
-          const parsedStroke = culori.parse(data.originalStroke);
-          if (parsedStroke && (parsedStroke.alpha ?? 1) > 0.1) {
-            const oklchStroke = culori.oklch(parsedStroke);
-            if (oklchStroke) {
-              // Simple transformation
-              let newL = 1.0 - oklchStroke.l; // Invert lightness
-              let newC = oklchStroke.c * (isButton ? 0.3 : 0.2); // Less chroma reduction for button strokes
-              const newH = oklchStroke.h || 0;
-              
-              // Basic clamping
-              newL = Math.max(0, Math.min(1, newL));
-              newC = Math.max(0, newC);
-              
-              // --- Apply Simpler Contrast Clamp ---
-              if (finalBackgroundL < 0.5) {
-                  newL = Math.max(newL, 0.75); // Force light stroke on dark background
-              } else {
-                  newL = Math.min(newL, 0.25); // Force dark stroke on light background
-              }
-              newL = Math.max(0, Math.min(1, newL)); // Re-clamp
-              // --- End Simpler Contrast Clamp ---
-              
-              // Create transformed stroke color
-              const darkOklchStroke: Oklch = { 
-                mode: "oklch", 
-                l: newL, 
-                c: newC, 
-                h: newH 
-              };
-              
-              // Generate hex color
-              newStroke = culori.formatHex(darkOklchStroke);
-            }
-          }
-        } catch (e) {
-          if (isDev) console.debug(`[EyeLove CS] Error processing stroke color: ${data.originalStroke}`, e);
-        }
-      }
-      
-      // Apply styles
-      let stylesApplied = false;
-      
-      if (data.element instanceof HTMLElement || data.element instanceof SVGElement) {
-        // Store original style
-        if (!data.element.hasAttribute('data-eyelove-styled')) {
-          const originalStyle = data.element.getAttribute('style');
-          elementOriginalStyles.set(data.element as HTMLElement, originalStyle);
-        }
-        
-        // Apply new styles
-        if (newBg) {
-          data.element.style.setProperty('background-color', newBg, 'important');
-          stylesApplied = true;
-        }
-        if (newColor) {
-          data.element.style.setProperty('color', newColor, 'important');
-          stylesApplied = true;
-        }
-        // Apply SVG-specific styles
-        if (newFill) {
-          data.element.style.setProperty('fill', newFill, 'important');
-          stylesApplied = true;
-        }
-        if (newStroke) {
-          data.element.style.setProperty('stroke', newStroke, 'important');
-          stylesApplied = true;
-        }
-        
-        if (stylesApplied) {
-          data.element.dataset.eyeloveStyled = 'inline';
-        }
-      }
-    } catch (e) {
-      if (isDev) console.warn('[EyeLove CS] Error styling dynamic element:', data.element, e);
+/**
+ * Tags an image with its kind so the policy CSS can target it. Logos also get an id
+ * whose rule swaps in the processed copy once it's ready.
+ */
+function classifyMediaElement(image: HTMLImageElement) {
+  const kind = getPolicyKind(currentState.media);
+  const url = image.currentSrc || image.src;
+  if (!kind || !url || !canSampleImage(url) || isIgnoredElement(image, ignoreSelector)) return;
+
+  analyzeImage(url).then((analysis) => {
+    if (!analysis || getPolicyKind(currentState.media) !== kind || (image.currentSrc || image.src) !== url) return;
+    if (!isPolicyImage(analysis, kind)) {
+      image.removeAttribute(MEDIA_KIND_ATTRIBUTE);
+      image.removeAttribute(MEDIA_ID_ATTRIBUTE);
+      return;
     }
+    image.setAttribute(MEDIA_KIND_ATTRIBUTE, kind);
+    if (kind !== 'logo') return;
+
+    let id = logoImageIds.get(url);
+    if (id === undefined) {
+      id = logoImageIds.size;
+      logoImageIds.set(url, id);
+      const logoId = id;
+      getProcessedImage(url, 'logo').then((dataUrl) => {
+        if (!dataUrl) return;
+        logoImages.set(logoId, dataUrl);
+        if (areStylesApplied()) updateMediaPolicySheet(getActiveTransformer());
+      });
+    }
+    image.setAttribute(MEDIA_ID_ATTRIBUTE, String(id));
   });
-  
-  const t1 = performance.now();
-  if (isDev && elementsData.length > 0) {
-    console.log(`[EyeLove CS] Processed ${elementsData.length} dynamic elements in ${(t1 - t0).toFixed(2)}ms`);
+}
+
+/**
+ * Processed copy of a background image for the declaration mapper, or null while
+ * it isn't available. The first request starts processing; once a copy is ready
+ * the overrides are regenerated to pick it up.
+ */
+function getBackgroundImage(url: string): string | null {
+  const kind = getPolicyKind(currentState.media);
+  if (!kind || !canSampleImage(url)) return null;
+
+  const key = `${kind}|${url}`;
+  if (!backgroundImages.has(key)) {
+    backgroundImages.set(key, null);
+    getProcessedImage(url, kind).then((dataUrl) => {
+      if (!dataUrl) return;
+      backgroundImages.set(key, dataUrl);
+      readyBackgroundImages++;
+      scheduleOverrideRefresh();
+    });
   }
+  return backgroundImages.get(key) ?? null;
 }
 
-// == Listeners ==
+/**
+ * Removes the media policy sheet, listener and image tags.
+ */
+function removeMediaPolicy() {
+  document.removeEventListener('load', handleMediaLoad, true);
+  getStyledRoots().forEach((root) => {
+    if (mediaStyleSheet) root.adoptedStyleSheets = root.adoptedStyleSheets.filter((s) => s !== mediaStyleSheet);
+    root.querySelectorAll(`[${MEDIA_KIND_ATTRIBUTE}]`).forEach((element) => {
+      element.removeAttribute(MEDIA_KIND_ATTRIBUTE);
+      element.removeAttribute(MEDIA_ID_ATTRIBUTE);
+    });
+  });
+}
+
+// == Site Fixes ==
+
+/**
+ * The fix in effect: the Options page preview, or the one resolved for this page.
+ */
+function getSiteFix(): SiteFixStyles | null {
+  return siteFixPreview ?? currentState.siteFix ?? null;
+}
+
+/**
+ * Strategy 2 candidates in or below `root`, minus the site fix's ignored elements.
+ */
+function collectStyledElements(root: Document | ShadowRoot | Element): Element[] {
+  const elements = collectStrategy2Elements(root);
+  return ignoreSelector ? elements.filter((element) => !isIgnoredElement(element, ignoreSelector)) : elements;
+}
 
-// Listen for messages from the background script
-chrome.runtime.onMessage.addListener((message, sender) => {
-  // --- Add this sender check ---
-  if (sender.id !== chrome.runtime.id) {
-    // Optional: Log ignored messages from other sources during development
-    // if (isDev) console.debug('[EyeLove CS] Ignoring message from other sender:', sender.id, message);
-    return false; // Ignore message from other senders
+/**
+ * Adopts the site fix's CSS after our override sheet, so a fix can correct our styles.
+ */
+function applySiteFixStyles(transformer: ColorTransformer) {
+  if (!siteFixStyleSheet) return;
+  const sheet = siteFixStyleSheet;
+  const fix = getSiteFix();
+  if (!fix) {
+    removeSiteFixStyles();
+    return;
   }
-  // --- End of sender check ---
+  try {
+    sheet.replaceSync(buildSiteFixCss(fix, transformer.pageFilter));
+    if (!document.adoptedStyleSheets.includes(sheet)) {
+      document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+    }
+  } catch (e) {
+    console.error('[EyeLove CS] Error applying site fix:', e);
+  }
+}
 
-  if (isDev) console.log('[EyeLove CS] Raw message received from own extension:', message);
-  const parsedMessage = parseMessage(message); // Use the parser
+function removeSiteFixStyles() {
+  const sheet = siteFixStyleSheet;
+  if (sheet) document.adoptedStyleSheets = document.adoptedStyleSheets.filter((s) => s !== sheet);
+}
 
-  if (!parsedMessage) {
-    // Log handled by parseMessage utility itself
-    return false;
+/**
+ * Shows (or stops showing) a fix edited on the Options page. The page is restyled
+ * from scratch, since ignored elements and variables change what the pipeline does.
+ */
+function setSiteFixPreview(fix: SiteFixStyles | null) {
+  siteFixPreview = fix;
+  refreshDarkMode();
+}
+
+// == Warmth Filter ==
+
+/**
+ * Whether the night-shift filter is enabled and within its schedule. It has its own
+ * switch, so it also works on sites where dark mode is off.
+ */
+function isWarmthOn(): boolean {
+  return (currentState.warmth?.enabled ?? false) && (currentState.warmthActive ?? true);
+}
+
+/**
+ * Applies or removes the warmth filter on the root element. Only the top frame
+ * filters: its filter already tints every iframe, so filtering frames as well
+ * would double the tint.
+ */
+function refreshWarmth() {
+  if (!warmthStyleSheet || !isTopFrame) return;
+  const sheet = warmthStyleSheet;
+
+  if (!currentState.warmth || !isWarmthOn()) {
+    document.adoptedStyleSheets = document.adoptedStyleSheets.filter((s) => s !== sheet);
+    return;
   }
 
-  if (isDev) console.log('[EyeLove CS] Parsed message received:', parsedMessage);
+  // The 'filter' algorithm also filters the root element; both filters have to go into one declaration
+  const pageFilter = areStylesApplied() ? getActiveTransformer().pageFilter : undefined;
+  const filter = [pageFilter, buildWarmthFilter(currentState.warmth)].filter(Boolean).join(' ');
+  try {
+    // html:root outranks the page filter's `html` rule
+    sheet.replaceSync(`
+      /* EyeLove Warmth Filter */
+      html:root {
+        filter: ${filter} !important;
+      }
+    `);
+    if (!document.adoptedStyleSheets.includes(sheet)) {
+      document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+    }
+    if (isDev) console.info('[EyeLove CS] Applied warmth filter:', currentState.warmth);
+  } catch (e) {
+    console.error('[EyeLove CS] Error applying warmth filter:', e);
+  }
+}
+
+// == Theme State ==
 
-  if (parsedMessage.action === 'updateBodyClass') {
-    const enabled = parsedMessage.payload?.enabled;
-    console.log('[EyeLove CS] Handling updateBodyClass. Enabled:', enabled);
-    if (enabled === true) {
-      applyDarkModeStyles();
-    } else if (enabled === false) {
-      removeDarkModeStyles();
+// Last state received from the background worker. The final light/dark decision
+// also depends on prefers-color-scheme, which only the page itself can observe.
+const currentState: {
+  enabled: boolean;
+  theme?: Settings['theme'];
+  algorithm?: TransformAlgorithm;
+  contrastTarget?: ContrastTarget;
+  engine?: StyleEngine;
+  scheduleDark?: boolean;
+  warmth?: Warmth;
+  warmthActive?: boolean;
+  appearance?: Appearance;
+  media?: MediaSettings; // With the site's policy resolved
+  dynamicContent?: DynamicContent;
+  siteFix?: SiteFixStyles | null; // Combined fixes for this page
+  detectDarkPages?: boolean;
+  topFrameHandling?: PageHandling | null; // Frames: how the tab's top-level page was styled
+} = { enabled: true };
+const colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+
+// Signature of the style-affecting settings dark mode was applied with, and how the page
+// was handled then (null while dark mode is off)
+let appliedStyle: { signature: string; handling: PageHandling } | null = null;
+
+/**
+ * Whether our dark styles are on the page. Dark mode may be on without them:
+ * pages that are already dark ('skip') or use their own dark theme ('native') are left alone.
+ */
+function areStylesApplied(): boolean {
+  return appliedStyle !== null && (appliedStyle.handling === 'full' || appliedStyle.handling === 'light');
+}
+
+/**
+ * Identifies the style-affecting settings; a change means the page must be restyled from scratch.
+ */
+function getStyleSignature(): string {
+  return JSON.stringify([
+    currentState.algorithm ?? 'invert',
+    currentState.contrastTarget ?? 'AA',
+    currentState.engine ?? 'stylesheet',
+    currentState.appearance ?? DEFAULT_APPEARANCE,
+    currentState.media ?? null,
+    getSiteFix(),
+    currentState.detectDarkPages ?? true,
+    currentState.topFrameHandling ?? null,
+  ]);
+}
+
+/**
+ * Applies or removes dark mode based on the current state and theme mode, then
+ * updates the warmth filter (which may replace dark mode while it's on).
+ */
+function refreshDarkMode() {
+  const replacedByWarmth = isWarmthOn() && currentState.warmth?.mode === 'replace';
+  const active = currentState.enabled && !replacedByWarmth && isDarkThemeActive(currentState.theme, colorSchemeQuery.matches, currentState.scheduleDark);
+  const signature = getStyleSignature();
+  if (isDev) console.log('[EyeLove CS] refreshDarkMode:', { ...currentState, prefersDark: colorSchemeQuery.matches, active });
+  if (active) {
+    // Skip when already styled with these settings: re-applying would read our own inline styles
+    if (appliedStyle?.signature !== signature) {
+      if (appliedStyle !== null) removeDarkModeStyles(); // Settings changed: start from the original colors
+      const handling = checkPageDarkness();
+      if (handling === 'skip' || handling === 'native') removeDarkModeStyles(); // Also undoes the first-paint root class
+      else timePerf('fullRestyles', 'fullRestyleMs', applyDarkModeStyles);
+      appliedStyle = { signature, handling };
     }
   } else {
-    if (isDev) console.info('[EyeLove CS] Received unhandled parsed message:', parsedMessage);
+    removeDarkModeStyles();
+    revertNativeDarkTheme();
+    appliedStyle = null;
   }
-  return false; // No async response needed here
+  refreshWarmth();
+  // Our own styles are in place (or dark mode is off): hand off from the first-paint styles
+  document.documentElement.classList.remove(FIRST_PAINT_CLASS);
+}
+
+/**
+ * Runs the darkness detector on the page's own colors and decides how to style it:
+ * dark pages are left alone, pages with a dark theme of their own are switched to it
+ * (if that really turns them dark), partly dark ones get a light touch (filter-based
+ * algorithms can't go easy, they transform the whole page). Frames take the light
+ * touch from their top-level page once it's known, so an embed isn't styled unlike
+ * the page around it. Top frames report the result, so the host's next first paint
+ * isn't dark before it's checked, and share it with their frames.
+ */
+function checkPageDarkness(): PageHandling {
+  revertNativeDarkTheme(); // Judge the page by its own theme
+  const prefersDark = colorSchemeQuery.matches;
+  const detect = currentState.detectDarkPages !== false;
+  const signals = detectUnstyledPageDarkness(prefersDark);
+
+  const lightTouch = isTopFrame || !currentState.topFrameHandling
+    ? detect && signals.darkness === 'mixed'
+    : currentState.topFrameHandling === 'light';
+  let handling: PageHandling;
+  let nativeTheme: string | null = null;
+  if (detect && signals.darkness === 'dark') {
+    handling = 'skip';
+  } else {
+    // Native themes always beat synthesized ones; our transform is the fallback
+    nativeTheme = activateNativeDarkTheme(prefersDark);
+    if (nativeTheme && detectUnstyledPageDarkness(prefersDark).darkness !== 'dark') {
+      revertNativeDarkTheme();
+      nativeTheme = null;
+    }
+    if (nativeTheme) handling = 'native';
+    else if (lightTouch && !getActiveTransformer().pageFilter) handling = 'light';
+    else handling = 'full';
+  }
+  pageDarkness = detect || nativeTheme ? { ...signals, handling, nativeTheme } : null;
+  if (isDev) console.info('[EyeLove CS] Page darkness:', pageDarkness);
+
+  if (isTopFrame && chrome.runtime?.id) {
+    if (detect) {
+      callBackground('reportPageDarkness', { darkness: signals.darkness, prefersDark }).catch((error) => {
+        if (isDev) console.warn('[EyeLove CS] Could not report page darkness:', error);
+      });
+    }
+    callBackground('shareTopFrameHandling', { handling }).catch((error) => {
+      if (isDev) console.warn('[EyeLove CS] Could not share page handling with frames:', error);
+    });
+  }
+  return handling;
+}
+
+/**
+ * Detects darkness with the first-paint styles switched off for the moment
+ * (nothing is painted in between).
+ */
+function detectUnstyledPageDarkness(prefersDark: boolean): PageDarknessSignals {
+  const root = document.documentElement;
+  const ownClasses = [FIRST_PAINT_CLASS, ROOT_CLASS_DARK_ACTIVE].filter((name) => root.classList.contains(name));
+  root.classList.remove(...ownClasses);
+  try {
+    return detectPageDarkness(prefersDark);
+  } finally {
+    root.classList.add(...ownClasses);
+  }
+}
+
+/**
+ * Whether the document_start script painted the page dark, used when the
+ * background worker can't be asked.
+ */
+function isFirstPaintDark(): boolean {
+  return document.documentElement.classList.contains(ROOT_CLASS_DARK_ACTIVE);
+}
+
+// == Listeners ==
+
+// Style shadow roots attached after load (announced by the main-world attachShadow hook)
+observeShadowRootAttachments((root) => {
+  if (!areStylesApplied() || shadowRootSheets.has(root)) return;
+  registerShadowRoot(root);
+  styleNewShadowRoots([root], getActiveTransformer());
+});
+
+// Follow the OS light/dark switch live when the theme is 'auto'. Sites with a dark
+// theme of their own may have switched too, so they are checked again.
+colorSchemeQuery.addEventListener('change', () => {
+  const recheck = pageDarkness?.siteDarkTheme === true && appliedStyle !== null;
+  if (recheck) {
+    removeDarkModeStyles();
+    appliedStyle = null;
+  }
+  if (currentState.theme === 'auto' || recheck) refreshDarkMode();
+});
+
+// Typed requests from the background worker and the popup (see CONTENT_RPC)
+const handleMessage = createRpcListener(CONTENT_RPC, {
+  updateBodyClass: (state) => {
+    // The state is resolved for the top-level page; frames may have rules and fixes of their own
+    if (!isTopFrame) {
+      queryInitialState();
+      return null;
+    }
+    const { enabled, theme, algorithm, contrastTarget, engine, scheduleDark, warmth, warmthActive, appearance, media, dynamicContent, siteFix, detectDarkPages } = state;
+    if (isDev) console.log('[EyeLove CS] Handling updateBodyClass. Enabled:', enabled, 'Theme:', theme);
+    if (enabled !== undefined) currentState.enabled = enabled;
+    if (theme !== undefined) currentState.theme = theme;
+    if (algorithm !== undefined) currentState.algorithm = algorithm;
+    if (contrastTarget !== undefined) currentState.contrastTarget = contrastTarget;
+    if (engine !== undefined) currentState.engine = engine;
+    currentState.scheduleDark = scheduleDark;
+    if (warmth !== undefined) currentState.warmth = warmth;
+    currentState.warmthActive = warmthActive;
+    if (appearance !== undefined) currentState.appearance = appearance;
+    if (media !== undefined) currentState.media = media;
+    if (dynamicContent !== undefined) setDynamicContent(dynamicContent);
+    if (siteFix !== undefined) currentState.siteFix = siteFix;
+    if (detectDarkPages !== undefined) currentState.detectDarkPages = detectDarkPages;
+    refreshDarkMode();
+    return null;
+  },
+  // The popup asks the top frame (frameId 0) for these, so it sees the main document's numbers
+  getContrastReport: () => ({ target: currentState.contrastTarget ?? 'AA', ...contrastReport }),
+  getPerfCounters: (options) => {
+    const counters = getPerfCounters();
+    if (options?.reset) resetPerfCounters();
+    return counters;
+  },
+  getPageDarkness: () => pageDarkness,
+  // Frames follow their top-level page (which gets its own handling relayed back)
+  setTopFrameHandling: ({ handling }) => {
+    if (isTopFrame || currentState.topFrameHandling === handling) return null;
+    currentState.topFrameHandling = handling;
+    if (appliedStyle !== null) refreshDarkMode();
+    return null;
+  },
+  // The Options page's site fix editor previews its draft here
+  previewSiteFix: (fix) => {
+    setSiteFixPreview(fix);
+    return null;
+  },
+  endSiteFixPreview: () => {
+    setSiteFixPreview(null);
+    return null;
+  },
+});
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (sender.id !== chrome.runtime.id) return false; // Ignore messages from other senders
+  return handleMessage(message, sender, sendResponse);
 });
 
 
@@ -894,38 +1347,35 @@ chrome.runtime.onMessage.addListener((message, sender) => {
 function queryInitialState() {
   if (chrome.runtime?.id) {
     if (isDev) console.info('[EyeLove CS] Querying initial state from background...');
-    chrome.runtime.sendMessage({ action: 'queryInitialState' }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('[EyeLove CS] Error querying initial state:', chrome.runtime.lastError.message);
-        // Apply based on FOUC handler's cache read
-        const cachedEnabled = localStorage.getItem('eyelove-enabled-cache') === 'true';
-         if (cachedEnabled) applyDarkModeStyles(); else removeDarkModeStyles();
-        return;
-      }
-      try {
-        const settings = SettingsSchema.partial().parse(response || {});
-        if (isDev) console.info('[EyeLove CS] Received initial state:', settings);
-        // Apply initial styles based on received state
-        if (settings.enabled) {
-            applyDarkModeStyles();
-        } else {
-            removeDarkModeStyles();
-        }
-      } catch(validationError) {
-        console.error("[EyeLove CS] Invalid initial settings received:", validationError);
-        applyDarkModeStyles(); // Fallback to enabled
-      }
+    callBackground('queryInitialState').then((settings) => {
+      if (isDev) console.info('[EyeLove CS] Received initial state:', settings);
+      // Apply initial styles based on received state. The per-site decision
+      // (always on / always off / follow global) takes precedence over the global flag.
+      currentState.enabled = settings.site?.enabled ?? settings.enabled ?? true;
+      currentState.theme = settings.theme;
+      currentState.algorithm = settings.site?.algorithm ?? settings.algorithm;
+      currentState.contrastTarget = settings.contrastTarget;
+      currentState.engine = settings.engine;
+      currentState.scheduleDark = settings.scheduleDark;
+      currentState.warmth = settings.warmth;
+      currentState.warmthActive = settings.warmthActive;
+      currentState.appearance = settings.appearance;
+      const media = MediaSettingsSchema.parse(settings.media ?? {});
+      currentState.media = { ...media, policy: settings.site?.mediaPolicy ?? media.policy };
+      if (settings.dynamicContent) setDynamicContent(settings.dynamicContent);
+      currentState.siteFix = settings.siteFix;
+      currentState.detectDarkPages = settings.detectDarkPages;
+      currentState.topFrameHandling = settings.topFrameHandling;
+      refreshDarkMode();
+    }).catch((error) => {
+      console.error('[EyeLove CS] Error querying initial state:', error);
+      // Keep what the FOUC handler decided
+      if (isFirstPaintDark()) applyDarkModeStyles(); else removeDarkModeStyles();
     });
   } else {
     if (isDev) console.warn("[EyeLove CS] Not running as extension, cannot query initial state.");
-    // Fallback to cache
-    try {
-      const cachedEnabled = localStorage.getItem('eyelove-enabled-cache') === 'true';
-       if (cachedEnabled) applyDarkModeStyles(); else removeDarkModeStyles();
-    } catch (e) {
-      applyDarkModeStyles(); // Fallback
-      if (isDev) console.error('Error reading from localStorage cache:', e);
-    }
+    // Keep what the FOUC handler decided
+    if (isFirstPaintDark()) applyDarkModeStyles(); else removeDarkModeStyles();
   }
 }
 
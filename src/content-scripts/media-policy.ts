@@ -0,0 +1,213 @@
+// src/content-scripts/media-policy.ts
+// Media policy: dims media, or finds same-origin diagrams and logos (sampled on
+// an offscreen canvas) and produces dark-friendly copies of them. Cross-origin
+// images taint the canvas and are left alone.
+
+import type { MediaSettings } from '../lib/schemas';
+import { analyzeImagePixels, clearWhiteBackground, ImageAnalysis, ImageKind } from '../lib/image-analysis';
+import { countCssLayers, rewriteUrlsInValue } from '../lib/css-color-values';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// Attributes set on analyzed <img> elements, matched by the media policy CSS
+export const MEDIA_KIND_ATTRIBUTE = 'data-eyelove-media';
+export const MEDIA_ID_ATTRIBUTE = 'data-eyelove-media-id';
+
+// Longest side of the sample used for classification
+const SAMPLE_SIZE = 64;
+// Images larger than this (either side) are not processed: they are rarely logos
+// or diagrams, and a downscaled copy would change their intrinsic size
+const MAX_PROCESSED_SIZE = 1024;
+
+// Same filter the page filter uses, so inverted diagrams keep their hues
+const DIAGRAM_INVERT_FILTER = 'invert(1) hue-rotate(180deg)';
+
+// Image kind the policy acts on ('keep' and 'dim' need no analysis)
+export type ProcessedKind = Exclude<ImageKind, 'photo'>;
+
+const analysisCache = new Map<string, Promise<ImageAnalysis | null>>();
+const processedCache = new Map<string, Promise<string | null>>();
+
+/**
+ * The image kind a policy acts on, or null when it needs no image analysis.
+ */
+export function getPolicyKind(media: MediaSettings | undefined): ProcessedKind | null {
+  if (media?.policy === 'invert-diagrams') return 'diagram';
+  if (media?.policy === 'logo-backgrounds') return 'logo';
+  return null;
+}
+
+/**
+ * Whether an analyzed image is one the policy for `kind` acts on. Any image with a
+ * white background counts as a logo, including black-on-white ones classified as diagrams.
+ */
+export function isPolicyImage(analysis: ImageAnalysis, kind: ProcessedKind): boolean {
+  return kind === 'logo' ? analysis.whiteBackground : analysis.kind === kind;
+}
+
+/**
+ * Whether an image URL can be read back from a canvas: same-origin, data: and blob: URLs.
+ */
+export function canSampleImage(url: string): boolean {
+  try {
+    const parsed = new URL(url, document.baseURI);
+    return parsed.protocol === 'data:' || parsed.protocol === 'blob:' || parsed.origin === location.origin;
+  } catch {
+    return false;
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+}
+
+/**
+ * Draws an image on an offscreen canvas and reads its pixels back.
+ * Returns null when the canvas is tainted (the image turned out to be cross-origin).
+ */
+function readPixels(image: HTMLImageElement, width: number, height: number, filter = 'none'): ImageData | null {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.filter = filter;
+  context.drawImage(image, 0, 0, width, height);
+  try {
+    return context.getImageData(0, 0, width, height);
+  } catch {
+    return null; // SecurityError: tainted canvas
+  }
+}
+
+/**
+ * Analyzes a same-origin image from a downscaled sample. Results are cached per URL;
+ * null means the image couldn't be loaded or read.
+ */
+export function analyzeImage(url: string): Promise<ImageAnalysis | null> {
+  let analysis = analysisCache.get(url);
+  if (!analysis) {
+    analysis = loadImage(url)
+      .then((image) => {
+        if (!image.naturalWidth || !image.naturalHeight) return null; // e.g. SVGs without intrinsic size
+        const scale = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+        const width = Math.max(1, Math.round(image.naturalWidth * scale));
+        const height = Math.max(1, Math.round(image.naturalHeight * scale));
+        const pixels = readPixels(image, width, height);
+        return pixels ? analyzeImagePixels(pixels.data, width, height) : null;
+      })
+      .catch((e) => {
+        if (isDev) console.debug('[EyeLove CS] Media policy: could not analyze image', url, e);
+        return null;
+      });
+    analysisCache.set(url, analysis);
+  }
+  return analysis;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Returns a PNG data URL of the image made dark-friendly for `kind` (diagrams
+ * inverted, logos without their white background), at the original size. Null
+ * when the image isn't of that kind, is too large, or can't be read.
+ */
+export function getProcessedImage(url: string, kind: ProcessedKind): Promise<string | null> {
+  const cacheKey = `${kind}|${url}`;
+  let processed = processedCache.get(cacheKey);
+  if (!processed) {
+    processed = analyzeImage(url)
+      .then(async (analysis) => {
+        if (!analysis || !isPolicyImage(analysis, kind)) return null;
+        const image = await loadImage(url);
+        const { naturalWidth: width, naturalHeight: height } = image;
+        if (width > MAX_PROCESSED_SIZE || height > MAX_PROCESSED_SIZE) return null;
+
+        const pixels = readPixels(image, width, height, kind === 'diagram' ? DIAGRAM_INVERT_FILTER : 'none');
+        if (!pixels) return null;
+        if (kind === 'logo') clearWhiteBackground(pixels.data, width, height);
+
+        const canvas = new OffscreenCanvas(width, height);
+        canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+        return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+      })
+      .catch((e) => {
+        if (isDev) console.debug('[EyeLove CS] Media policy: could not process image', url, e);
+        return null;
+      });
+    processedCache.set(cacheKey, processed);
+  }
+  return processed;
+}
+
+/**
+ * Applies the media policy to a (url-absolute) background-image value:
+ * 'dim' lays a translucent black layer over single-image backgrounds, the other
+ * policies swap in processed copies once `getReadyImage` has them.
+ * Returns null when the value needs no change.
+ *
+ * @param getReadyImage Processed data URL for an image, or null if not (yet) available
+ */
+export function applyBackgroundImagePolicy(
+  value: string,
+  media: MediaSettings | undefined,
+  getReadyImage: (url: string) => string | null,
+): string | null {
+  if (!media || media.policy === 'keep' || !value.includes('url(')) return null;
+
+  if (media.policy === 'dim') {
+    // Extra layers would shift the background-size/position lists of multi-layer backgrounds
+    if (countCssLayers(value) !== 1 || media.dimPercent === 0) return null;
+    const shade = `rgba(0, 0, 0, ${media.dimPercent / 100})`;
+    return `linear-gradient(${shade}, ${shade}), ${value}`;
+  }
+
+  const rewritten = rewriteUrlsInValue(value, getReadyImage);
+  return rewritten === value ? null : rewritten;
+}
+
+/**
+ * CSS for the media policy. With a page filter, the media counter-filter is
+ * combined with the policy so the rules can replace it.
+ *
+ * @param logoImages Processed logo data URLs by MEDIA_ID_ATTRIBUTE value
+ */
+export function buildMediaPolicyCss(media: MediaSettings | undefined, pageFilter: string | undefined, logoImages: ReadonlyMap<number, string>): string {
+  if (!media || media.policy === 'keep') return '';
+
+  if (media.policy === 'dim') {
+    if (media.dimPercent === 0) return '';
+    const dim = `brightness(${(100 - media.dimPercent) / 100})`;
+    // <picture> is left out: its <img> is already dimmed
+    return `
+      img, video, canvas, svg image {
+        filter: ${pageFilter ? `${pageFilter} ` : ''}${dim} !important;
+      }
+    `;
+  }
+
+  if (media.policy === 'invert-diagrams') {
+    // With a page filter, dropping the counter-filter lets the page inversion apply
+    return `
+      img[${MEDIA_KIND_ATTRIBUTE}="diagram"] {
+        filter: ${pageFilter ? 'none' : DIAGRAM_INVERT_FILTER} !important;
+      }
+    `;
+  }
+
+  let css = '';
+  logoImages.forEach((dataUrl, id) => {
+    css += `img[${MEDIA_ID_ATTRIBUTE}="${id}"] { content: url("${dataUrl}") !important; }\n`;
+  });
+  return css;
+}
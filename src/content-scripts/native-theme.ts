@@ -0,0 +1,190 @@
+// src/content-scripts/native-theme.ts
+// Switches on a site's own dark theme, which always looks better than a synthesized
+// one. Themes behind prefers-color-scheme media queries are activated by swapping
+// light and dark in the page's media rules (in place, so the cascade is unchanged);
+// themes behind a toggle are activated by setting the attribute or class the page's
+// selectors look for. Everything is undone when dark mode is turned off.
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// A dark theme switch on <html> (or <body>), as written in the sites' selectors
+type ThemeToggle = { attribute: string; value: string } | { className: string };
+
+// Common switches, most specific first
+const THEME_TOGGLES: readonly ThemeToggle[] = [
+  { attribute: 'data-bs-theme', value: 'dark' }, // Bootstrap 5.3
+  { attribute: 'data-color-mode', value: 'dark' }, // GitHub Primer
+  { attribute: 'data-theme', value: 'dark' },
+  { attribute: 'data-mode', value: 'dark' },
+  { className: 'dark' }, // Tailwind's class strategy
+  { className: 'dark-mode' },
+  { className: 'dark-theme' },
+  { className: 'theme-dark' },
+];
+
+const COLOR_SCHEME_FEATURE = /(prefers-color-scheme\s*:\s*)(light|dark)/gi;
+
+// Undoes each change made to the page, most recent last
+let undoChanges: Array<() => void> = [];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches selectors that start with the toggle, optionally on html, :root or body.
+ * Captures the element the toggle goes on.
+ */
+function getTogglePattern(toggle: ThemeToggle): RegExp {
+  const condition = 'className' in toggle
+    ? `\\.${escapeRegExp(toggle.className)}(?![\\w-])`
+    : `\\[\\s*${escapeRegExp(toggle.attribute)}\\s*=\\s*["']?${escapeRegExp(toggle.value)}["']?\\s*(?:[is]\\s*)?\\]`;
+  return new RegExp(`(?:^|,)\\s*(html|:root|body)?${condition}`, 'i');
+}
+
+/**
+ * The readable stylesheets of the document, with their @import-ed sheets.
+ */
+function getReadableStyleSheets(): CSSStyleSheet[] {
+  const sheets: CSSStyleSheet[] = [];
+  const add = (sheet: CSSStyleSheet) => {
+    try {
+      const rules = sheet.cssRules;
+      sheets.push(sheet);
+      for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSImportRule && rule.styleSheet) add(rule.styleSheet);
+      }
+    } catch {
+      // Cross-origin: its rules can't be read (or changed)
+    }
+  };
+  [...Array.from(document.styleSheets), ...document.adoptedStyleSheets].forEach(add);
+  return sheets;
+}
+
+/**
+ * Every rule of a list, including the ones inside grouping rules.
+ */
+function* iterateRules(rules: CSSRuleList): Generator<CSSRule> {
+  for (const rule of Array.from(rules)) {
+    yield rule;
+    if (!(rule instanceof CSSImportRule) && 'cssRules' in rule && rule.cssRules instanceof CSSRuleList) yield* iterateRules(rule.cssRules);
+  }
+}
+
+/**
+ * The first toggle the page's selectors use, and whether they expect it on <body>.
+ */
+function findThemeToggle(sheets: readonly CSSStyleSheet[]): { toggle: ThemeToggle; onBody: boolean } | null {
+  const patterns = THEME_TOGGLES.map((toggle) => ({ toggle, pattern: getTogglePattern(toggle) }));
+  for (const sheet of sheets) {
+    for (const rule of iterateRules(sheet.cssRules)) {
+      if (!(rule instanceof CSSStyleRule) || !/dark/i.test(rule.selectorText)) continue;
+      for (const { toggle, pattern } of patterns) {
+        const match = pattern.exec(rule.selectorText);
+        if (match) return { toggle, onBody: match[1]?.toLowerCase() === 'body' };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Swaps light and dark in a media list's prefers-color-scheme features.
+ */
+function swapColorScheme(media: MediaList): boolean {
+  const original = media.mediaText;
+  if (!/prefers-color-scheme/i.test(original)) return false;
+  media.mediaText = original.replace(COLOR_SCHEME_FEATURE, (_match, feature: string, value: string) => feature + (value.toLowerCase() === 'dark' ? 'light' : 'dark'));
+  undoChanges.push(() => {
+    media.mediaText = original;
+  });
+  return true;
+}
+
+/**
+ * Sets a toggle on an element, remembering how to undo it.
+ */
+function setToggle(element: Element, toggle: ThemeToggle) {
+  if ('className' in toggle) {
+    if (element.classList.contains(toggle.className)) return;
+    element.classList.add(toggle.className);
+    undoChanges.push(() => element.classList.remove(toggle.className));
+    return;
+  }
+  const original = element.getAttribute(toggle.attribute);
+  element.setAttribute(toggle.attribute, toggle.value);
+  undoChanges.push(() => {
+    if (original === null) element.removeAttribute(toggle.attribute);
+    else element.setAttribute(toggle.attribute, original);
+  });
+}
+
+/**
+ * Sets color-scheme: dark on the root element, remembering how to undo it.
+ */
+function setDarkColorScheme() {
+  const { style } = document.documentElement;
+  const original = style.getPropertyValue('color-scheme');
+  const priority = style.getPropertyPriority('color-scheme');
+  style.setProperty('color-scheme', 'dark', 'important');
+  undoChanges.push(() => {
+    if (original) style.setProperty('color-scheme', original, priority);
+    else style.removeProperty('color-scheme');
+  });
+}
+
+/**
+ * Activates the page's own dark theme, if its stylesheets have one. The caller
+ * checks whether the page actually turned dark, and reverts otherwise.
+ *
+ * @param prefersDark Whether prefers-color-scheme: dark already matches (its rules are then in effect)
+ * @returns What was switched on, or null when the page has no dark theme we can activate
+ */
+export function activateNativeDarkTheme(prefersDark: boolean): string | null {
+  revertNativeDarkTheme();
+  const sheets = getReadableStyleSheets();
+  const activated: string[] = [];
+
+  // Themes following the OS: make their dark rules match instead of the light ones
+  if (!prefersDark) {
+    let swapped = 0;
+    for (const sheet of sheets) {
+      if (swapColorScheme(sheet.media)) swapped++; // <link media="(prefers-color-scheme: dark)">
+      for (const rule of iterateRules(sheet.cssRules)) {
+        if ((rule instanceof CSSMediaRule || rule instanceof CSSImportRule) && swapColorScheme(rule.media)) swapped++;
+      }
+    }
+    if (swapped > 0) activated.push('prefers-color-scheme');
+  }
+
+  // Themes behind a toggle
+  const found = findThemeToggle(sheets);
+  if (found) {
+    const { toggle, onBody } = found;
+    setToggle(onBody ? document.body : document.documentElement, toggle);
+    activated.push('className' in toggle ? `.${toggle.className}` : `[${toggle.attribute}="${toggle.value}"]`);
+  }
+
+  if (activated.length === 0) return null;
+  // Pages declaring both schemes get the browser's dark form controls and scrollbars to match
+  const declared = document.querySelector<HTMLMetaElement>('meta[name="color-scheme"]')?.content ?? getComputedStyle(document.documentElement).colorScheme;
+  if (/\bdark\b/.test(declared) && /\blight\b/.test(declared)) setDarkColorScheme();
+  if (isDev) console.info('[EyeLove CS] Activated native dark theme:', activated);
+  return activated.join(', ');
+}
+
+/**
+ * Undoes activateNativeDarkTheme().
+ */
+export function revertNativeDarkTheme() {
+  const changes = undoChanges;
+  undoChanges = [];
+  for (let i = changes.length - 1; i >= 0; i--) {
+    try {
+      changes[i]();
+    } catch {
+      // The sheet or element may be gone
+    }
+  }
+}
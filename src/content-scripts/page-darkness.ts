@@ -0,0 +1,121 @@
+// src/content-scripts/page-darkness.ts
+// Page-level darkness detection. Many sites ship a dark theme of their own (often
+// following prefers-color-scheme), and darkening them again only makes things worse.
+// The root, body and main region are sampled, and the declared color-scheme and the
+// site's own dark-theme rules are counted in, to classify the page as light, dark or mixed.
+
+import type { PageDarkness, PageDarknessReport } from '../lib/schemas';
+import { parseToOklch } from '../lib/color-transform';
+
+// OKLCH lightness at or below which a background is dark (the threshold Strategy 2 skips at),
+// and at or above which text is light
+const DARK_BACKGROUND_L = 0.3;
+const LIGHT_TEXT_L = 0.7;
+
+// Share of dark samples at or above which the page is dark, and at or below which it is light
+const DARK_SHARE = 0.75;
+const LIGHT_SHARE = 0.25;
+
+// Backgrounds fainter than this don't hide what's behind them
+const MIN_BACKGROUND_ALPHA = 0.5;
+
+// The page's main content; the element in the middle of the viewport stands in when there is none
+const MAIN_REGION_SELECTOR = 'main, [role="main"]';
+
+const DARK_THEME_MEDIA = /prefers-color-scheme\s*:\s*dark/i;
+
+// Detector results; what is done about them is up to the caller
+export type PageDarknessSignals = Omit<PageDarknessReport, 'handling' | 'nativeTheme'>;
+
+/**
+ * The color-scheme the page declares: its meta tag, or the root's color-scheme property.
+ */
+function getDeclaredColorScheme(): string {
+  const meta = document.querySelector<HTMLMetaElement>('meta[name="color-scheme"]')?.content.trim();
+  if (meta) return meta;
+  const computed = getComputedStyle(document.documentElement).colorScheme;
+  return computed && computed !== 'normal' ? computed : '';
+}
+
+/**
+ * Whether a declared color-scheme makes the browser's own colors (canvas, form controls) dark.
+ */
+function usesDarkScheme(colorScheme: string, prefersDark: boolean): boolean {
+  const schemes = colorScheme.split(/\s+/);
+  if (!schemes.includes('dark')) return false;
+  return !schemes.includes('light') || prefersDark;
+}
+
+/**
+ * Whether any readable stylesheet has rules for prefers-color-scheme: dark.
+ */
+function hasDarkThemeRules(): boolean {
+  const hasRules = (rules: CSSRuleList): boolean => Array.from(rules).some((rule) => {
+    if (rule instanceof CSSMediaRule && DARK_THEME_MEDIA.test(rule.conditionText)) return true;
+    if (rule instanceof CSSImportRule) {
+      if (DARK_THEME_MEDIA.test(rule.media.mediaText)) return true;
+      try {
+        return rule.styleSheet ? hasRules(rule.styleSheet.cssRules) : false;
+      } catch {
+        return false; // Cross-origin @import
+      }
+    }
+    return 'cssRules' in rule && rule.cssRules instanceof CSSRuleList && hasRules(rule.cssRules);
+  });
+
+  return [...Array.from(document.styleSheets), ...document.adoptedStyleSheets].some((sheet) => {
+    if (DARK_THEME_MEDIA.test(sheet.media.mediaText)) return true; // <link media="(prefers-color-scheme: dark)">
+    try {
+      return hasRules(sheet.cssRules);
+    } catch {
+      return false; // Cross-origin
+    }
+  });
+}
+
+/**
+ * Lightness of the background an element is seen on: its own or its nearest
+ * ancestor's, then the body's (which the canvas takes over), then the canvas.
+ */
+function getBackgroundLightness(element: Element, darkCanvas: boolean): number {
+  const chain: Element[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) chain.push(current);
+  chain.push(document.body);
+  for (const current of chain) {
+    const color = parseToOklch(getComputedStyle(current).backgroundColor, MIN_BACKGROUND_ALPHA);
+    if (color) return color.l;
+  }
+  return darkCanvas ? 0 : 1;
+}
+
+function getTextLightness(element: Element): number | null {
+  return parseToOklch(getComputedStyle(element).color)?.l ?? null;
+}
+
+/**
+ * Samples the page as it is rendered right now (the caller takes our own styles
+ * out of the way first) and classifies it.
+ */
+export function detectPageDarkness(prefersDark: boolean): PageDarknessSignals {
+  const colorScheme = getDeclaredColorScheme();
+  const darkCanvas = usesDarkScheme(colorScheme, prefersDark);
+  const siteDarkTheme = hasDarkThemeRules();
+
+  const mainRegion = document.querySelector(MAIN_REGION_SELECTOR)
+    ?? document.elementFromPoint(window.innerWidth / 2, window.innerHeight / 2)
+    ?? document.body;
+
+  // Each sample votes dark (true) or light (false)
+  const votes: boolean[] = [document.documentElement, document.body, mainRegion].map((element) => getBackgroundLightness(element, darkCanvas) <= DARK_BACKGROUND_L);
+  for (const element of [document.body, mainRegion]) {
+    const l = getTextLightness(element);
+    if (l !== null) votes.push(l >= LIGHT_TEXT_L);
+  }
+  if (colorScheme) votes.push(darkCanvas);
+  if (siteDarkTheme && prefersDark) votes.push(true); // The site's dark theme is in use
+
+  const darkSamples = votes.filter(Boolean).length;
+  const share = darkSamples / votes.length;
+  const darkness: PageDarkness = share >= DARK_SHARE ? 'dark' : share <= LIGHT_SHARE ? 'light' : 'mixed';
+  return { darkness, darkSamples, samples: votes.length, colorScheme, siteDarkTheme };
+}
@@ -0,0 +1,73 @@
+// src/content-scripts/perf-counters.ts
+// Performance counters for the content script's main-thread work, reported to
+// the popup through 'getPerfCounters'.
+
+import type { PerfCounters } from '../lib/schemas';
+
+type PerfCounter = keyof PerfCounters;
+
+const counters: PerfCounters = createEmptyCounters();
+
+function createEmptyCounters(): PerfCounters {
+  return {
+    mutationRecords: 0,
+    attributeMutations: 0,
+    ignoredMutations: 0,
+    queuedNodes: 0,
+    deduplicatedNodes: 0,
+    processedNodes: 0,
+    pendingNodes: 0,
+    slices: 0,
+    sliceMs: 0,
+    longestSliceMs: 0,
+    fullRestyles: 0,
+    fullRestyleMs: 0,
+    overrideRefreshes: 0,
+    overrideRefreshMs: 0,
+  };
+}
+
+/**
+ * Adds to a counter.
+ */
+export function countPerf(counter: PerfCounter, amount = 1) {
+  counters[counter] += amount;
+}
+
+/**
+ * Sets a gauge such as pendingNodes, or raises a maximum such as longestSliceMs.
+ */
+export function setPerf(counter: PerfCounter, value: number, mode: 'set' | 'max' = 'set') {
+  counters[counter] = mode === 'max' ? Math.max(counters[counter], value) : value;
+}
+
+/**
+ * Runs `work`, counting it in `countCounter` and adding its duration to `msCounter`.
+ */
+export function timePerf<T>(countCounter: PerfCounter, msCounter: PerfCounter, work: () => T): T {
+  const t0 = performance.now();
+  try {
+    return work();
+  } finally {
+    counters[countCounter]++;
+    counters[msCounter] += performance.now() - t0;
+  }
+}
+
+/**
+ * A snapshot of the counters, with milliseconds rounded to 0.1.
+ */
+export function getPerfCounters(): PerfCounters {
+  const snapshot = { ...counters };
+  for (const key of Object.keys(snapshot) as PerfCounter[]) {
+    if (key.endsWith('Ms')) snapshot[key] = Math.round(snapshot[key] * 10) / 10;
+  }
+  return snapshot;
+}
+
+/**
+ * Zeroes every counter except the pendingNodes gauge.
+ */
+export function resetPerfCounters() {
+  Object.assign(counters, createEmptyCounters(), { pendingNodes: counters.pendingNodes });
+}
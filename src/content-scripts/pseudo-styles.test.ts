@@ -0,0 +1,53 @@
+// src/content-scripts/pseudo-styles.test.ts
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { PSEUDO_ID_ATTRIBUTE, createPseudoStyleWriter } from './pseudo-styles';
+
+const writer = createPseudoStyleWriter();
+
+function getRuleSelectors(): string[] {
+  return document.adoptedStyleSheets.flatMap((sheet) => Array.from(sheet.cssRules, (rule) => (rule as CSSStyleRule).selectorText));
+}
+
+function addElement(): Element {
+  const element = document.createElement('div');
+  document.body.append(element);
+  return element;
+}
+
+afterEach(() => {
+  writer.clear();
+  document.body.innerHTML = '';
+});
+
+describe('createPseudoStyleWriter', () => {
+  it('updates the rule of an element restyled again', () => {
+    const element = addElement();
+    writer.write(element, '::before', { color: '#ffffff' });
+    writer.write(element, '::before', { color: '#eeeeee' });
+    expect(getRuleSelectors()).toHaveLength(1);
+  });
+
+  it('gives a clone of a restyled element an id of its own', () => {
+    const element = addElement();
+    writer.write(element, '::before', { color: '#ffffff' });
+    const clone = element.cloneNode() as Element;
+    document.body.append(clone);
+    writer.write(clone, '::before', { color: '#eeeeee' });
+
+    expect(clone.getAttribute(PSEUDO_ID_ATTRIBUTE)).not.toBe(element.getAttribute(PSEUDO_ID_ATTRIBUTE));
+    expect(getRuleSelectors()).toHaveLength(2);
+  });
+
+  it('drops the rules of removed elements on sweep', () => {
+    const kept = addElement();
+    const removed = addElement();
+    writer.write(kept, '::before', { color: '#ffffff' });
+    writer.write(removed, '::before', { color: '#ffffff' });
+    writer.write(removed, '::after', { color: '#ffffff' });
+    removed.remove();
+    writer.sweep();
+
+    expect(getRuleSelectors()).toEqual([`[${PSEUDO_ID_ATTRIBUTE}="${kept.getAttribute(PSEUDO_ID_ATTRIBUTE)}"]::before`]);
+  });
+});
@@ -0,0 +1,90 @@
+// src/content-scripts/pseudo-styles.ts
+// Colors for ::before/::after chosen by Strategy 2. Inline styles can't reach
+// pseudo-elements, so each restyled element gets an id attribute and its
+// pseudo-elements get rules in an override sheet of the element's root (the
+// document or its shadow root, since document rules don't reach into shadow trees).
+
+import type { StyledPseudoElement, StyledProperties } from './style-pipeline';
+
+// Identifies elements with restyled pseudo-elements
+export const PSEUDO_ID_ATTRIBUTE = 'data-eyelove-pseudo';
+
+export interface PseudoStyleWriter {
+  write: (element: Element, pseudoElement: StyledPseudoElement, properties: StyledProperties) => void;
+  sweep: () => void; // Drops the rules of elements no longer in the page
+  clear: () => void; // Removes every rule, sheet and id attribute
+}
+
+/**
+ * Creates the writer. Rules are kept per element and pseudo-element, so restyling
+ * an element updates its rule instead of adding another. Ids belong to one element:
+ * a clone of a restyled element carries its id attribute but gets an id (and rules)
+ * of its own when it's restyled.
+ */
+export function createPseudoStyleWriter(): PseudoStyleWriter {
+  const sheets = new Map<Document | ShadowRoot, CSSStyleSheet>();
+  // By id: the element it was given to, and its rules by pseudo-element
+  const owners = new Map<string, { element: Element; rules: Map<StyledPseudoElement, CSSStyleRule> }>();
+  let nextId = 1;
+
+  const getSheet = (root: Document | ShadowRoot): CSSStyleSheet => {
+    let sheet = sheets.get(root);
+    if (!sheet) {
+      sheet = new CSSStyleSheet();
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+      sheets.set(root, sheet);
+    }
+    return sheet;
+  };
+
+  return {
+    write(element, pseudoElement, properties) {
+      const rootNode = element.getRootNode();
+      const root = rootNode === element.ownerDocument ? element.ownerDocument : rootNode instanceof ShadowRoot ? rootNode : null;
+      if (!root) return; // Detached
+
+      let id = element.getAttribute(PSEUDO_ID_ATTRIBUTE);
+      let owner = id ? owners.get(id) : undefined;
+      if (!id || owner?.element !== element) {
+        id = String(nextId++);
+        element.setAttribute(PSEUDO_ID_ATTRIBUTE, id);
+        owner = { element, rules: new Map() };
+        owners.set(id, owner);
+      }
+      let rule = owner.rules.get(pseudoElement);
+      if (!rule || !rule.parentStyleSheet) {
+        const sheet = getSheet(root);
+        const index = sheet.insertRule(`[${PSEUDO_ID_ATTRIBUTE}="${id}"]${pseudoElement} {}`, sheet.cssRules.length);
+        rule = sheet.cssRules[index] as CSSStyleRule;
+        owner.rules.set(pseudoElement, rule);
+      }
+      for (const [property, value] of Object.entries(properties)) {
+        rule.style.setProperty(property, value, 'important');
+      }
+    },
+
+    sweep() {
+      const stale = new Set<CSSRule>();
+      owners.forEach(({ element, rules }, id) => {
+        if (element.isConnected) return;
+        rules.forEach((rule) => stale.add(rule));
+        owners.delete(id);
+      });
+      if (stale.size === 0) return;
+      sheets.forEach((sheet) => {
+        for (let i = sheet.cssRules.length - 1; i >= 0; i--) {
+          if (stale.has(sheet.cssRules[i])) sheet.deleteRule(i);
+        }
+      });
+    },
+
+    clear() {
+      sheets.forEach((sheet, root) => {
+        root.adoptedStyleSheets = root.adoptedStyleSheets.filter((s) => s !== sheet);
+        root.querySelectorAll(`[${PSEUDO_ID_ATTRIBUTE}]`).forEach((element) => element.removeAttribute(PSEUDO_ID_ATTRIBUTE));
+      });
+      sheets.clear();
+      owners.clear();
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// src/content-scripts/shadow-hook.ts
+// Runs in the page's main world at document_start, before any page script, and
+// wraps Element.prototype.attachShadow so the content script (which can't see the
+// page call it) hears about every new open shadow root. Main-world scripts can't
+// load shared chunks (there is no chrome.runtime here), so this bundle has no imports.
+//
+// The page shares this world, so it mustn't be able to block the hook:
+// - The built-ins used here are captured now, before the page could replace them.
+// - Roots are announced with a plain event under a random per-frame name that
+//   shadow-root-channel.ts hands over right after this runs. Page scripts can't
+//   listen for a name they don't know, so they can't cancel it.
+// - Nothing is stored on the page's objects; the install guard is closure state.
+// The Proxy keeps attachShadow's name and length, but Function.prototype.toString
+// gives "function () { [native code] }" for it (no name), so a page that looks
+// closely can still tell attachShadow is wrapped.
+
+(() => {
+  // Must match shadow-root-channel.ts (the two bundles can't share a module)
+  const HANDSHAKE_EVENT = 'eyelove:shadow-root-channel';
+
+  let installed = false;
+
+  function hookAttachShadow() {
+    if (installed) return;
+    installed = true;
+
+    const originalAttachShadow = Element.prototype.attachShadow;
+    const dispatchEvent = EventTarget.prototype.dispatchEvent;
+    const removeEventListener = EventTarget.prototype.removeEventListener;
+    const apply = Reflect.apply;
+    const EventConstructor = Event;
+    let eventName: string | null = null;
+
+    // Only the first handshake counts: it comes from the channel script before any page script runs
+    const onHandshake = (event: Event) => {
+      apply(removeEventListener, document, [HANDSHAKE_EVENT, onHandshake, true]);
+      const detail = (event as CustomEvent<unknown>).detail;
+      if (typeof detail === 'string') eventName = detail;
+    };
+    document.addEventListener(HANDSHAKE_EVENT, onHandshake, true);
+
+    Element.prototype.attachShadow = new Proxy(originalAttachShadow, {
+      apply(target, thisArg: Element, args: [ShadowRootInit]) {
+        const root = apply(target, thisArg, args);
+        // Closed roots are unreachable from the content script anyway. Composed, so the
+        // capture phase reaches the document from hosts nested in other shadow roots.
+        if (eventName && args[0]?.mode === 'open') {
+          apply(dispatchEvent, thisArg, [new EventConstructor(eventName, { composed: true })]);
+        }
+        return root;
+      },
+    });
+  }
+
+  hookAttachShadow();
+})();
@@ -0,0 +1,22 @@
+// src/content-scripts/shadow-root-channel.ts
+// Isolated-world half of the attachShadow hook (shadow-hook.ts). Runs right after
+// it at document_start, before any page script, so the page never sees the
+// handshake: picks this frame's random event name and hands it to the hook. The
+// content script reads the name from the isolated world's window. No imports, so
+// the bundle runs synchronously instead of behind a dynamic import.
+
+declare global {
+  interface Window {
+    eyeloveShadowRootEvent?: string; // Isolated-world global, invisible to the page
+  }
+}
+
+(() => {
+  // Must match shadow-hook.ts (the two bundles can't share a module)
+  const HANDSHAKE_EVENT = 'eyelove:shadow-root-channel';
+
+  if (window.eyeloveShadowRootEvent) return;
+  const eventName = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  window.eyeloveShadowRootEvent = eventName;
+  document.dispatchEvent(new CustomEvent(HANDSHAKE_EVENT, { detail: eventName }));
+})();
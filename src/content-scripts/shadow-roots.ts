@@ -0,0 +1,47 @@
+// src/content-scripts/shadow-roots.ts
+// Discovery of open shadow roots. Page stylesheets, querySelectorAll() and
+// MutationObservers all stop at shadow boundaries, so every open root has to be
+// found and styled separately. Closed roots are not reachable from here.
+
+/**
+ * Collects every open shadow root in or below `root`, including roots nested in
+ * other shadow roots, in document order.
+ */
+export function collectOpenShadowRoots(root: Document | Element | ShadowRoot, found: ShadowRoot[] = []): ShadowRoot[] {
+  const start = root instanceof Document ? root.documentElement : root;
+  if (!start) return found;
+
+  if (start instanceof Element && start.shadowRoot) {
+    found.push(start.shadowRoot);
+    collectOpenShadowRoots(start.shadowRoot, found);
+  }
+
+  const walker = document.createTreeWalker(start, NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const shadowRoot = (node as Element).shadowRoot;
+    if (shadowRoot) {
+      found.push(shadowRoot);
+      collectOpenShadowRoots(shadowRoot, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Listens for shadow roots attached after load, as announced by the main-world
+ * attachShadow() hook (shadow-hook.ts) under the event name shadow-root-channel.ts
+ * picked for this frame. The callback receives the new root, which is usually still
+ * empty: its content and styles arrive right after. Returns a function that stops listening.
+ */
+export function observeShadowRootAttachments(onAttach: (root: ShadowRoot) => void): () => void {
+  const eventName = window.eyeloveShadowRootEvent;
+  if (!eventName) return () => {}; // No hook in this frame: only scanned roots are styled
+  const listener = (event: Event) => {
+    // The event doesn't bubble, so this listener captures. It's composed, so at the
+    // document it's retargeted; the path still starts at the real host.
+    const host = event.composedPath()[0];
+    if (host instanceof Element && host.shadowRoot) onAttach(host.shadowRoot);
+  };
+  document.addEventListener(eventName, listener, true);
+  return () => document.removeEventListener(eventName, listener, true);
+}
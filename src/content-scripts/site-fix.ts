@@ -0,0 +1,61 @@
+// src/content-scripts/site-fix.ts
+// Applies the site fix resolved for the page (see src/lib/site-fixes.ts): the fix's
+// own CSS, elements to invert as a whole, and elements the styling must leave alone.
+
+import type { SiteFixStyles } from '../lib/schemas';
+import { isValidSelector } from '../lib/site-fixes';
+import { MEDIA_SELECTOR } from '../lib/first-paint';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+/**
+ * Joins the selectors the browser accepts into one selector list, or null if none.
+ * An invalid selector would otherwise invalidate the whole list.
+ */
+function joinValidSelectors(selectors: readonly string[]): string | null {
+  const valid = selectors.filter((selector) => {
+    if (isValidSelector(selector)) return true;
+    if (isDev) console.warn('[EyeLove CS] Site fix: ignoring invalid selector', selector);
+    return false;
+  });
+  return valid.length > 0 ? valid.join(', ') : null;
+}
+
+/**
+ * Elements no restyling may touch: the fix's ignored elements, plus its inverted
+ * ones (the inversion already darkens them, restyling their content would undo it).
+ */
+export function getIgnoreSelector(fix: SiteFixStyles | null): string | null {
+  return fix ? joinValidSelectors([...fix.ignoreSelectors, ...fix.invertSelectors]) : null;
+}
+
+/**
+ * Whether an element is inside (or is) an element matching `ignoreSelector`.
+ */
+export function isIgnoredElement(element: Element, ignoreSelector: string | null): boolean {
+  return ignoreSelector !== null && element.closest(ignoreSelector) !== null;
+}
+
+/**
+ * The fix's CSS for the document. With a page filter, ignored elements get the
+ * counter-filter (like media) so they show their original colors, and inverted
+ * elements skip the media counter-filter so the page filter inverts them.
+ */
+export function buildSiteFixCss(fix: SiteFixStyles, pageFilter: string | undefined): string {
+  const ignore = joinValidSelectors(fix.ignoreSelectors);
+  const invert = joinValidSelectors(fix.invertSelectors);
+  const rules: string[] = ['/* EyeLove Site Fix */'];
+
+  if (pageFilter) {
+    if (ignore) {
+      rules.push(`:is(${ignore}) { filter: ${pageFilter} !important; }`);
+      rules.push(`:is(${ignore}) :is(${MEDIA_SELECTOR}) { filter: none !important; }`); // Already back to normal
+    }
+    if (invert) rules.push(`:is(${invert}) { filter: none !important; }`);
+  } else if (invert) {
+    rules.push(`:is(${invert}) { filter: invert(1) hue-rotate(180deg) !important; }`);
+  }
+
+  if (fix.css.trim()) rules.push(fix.css);
+  return rules.join('\n');
+}
@@ -0,0 +1,144 @@
+// src/content-scripts/style-pipeline.test.ts
+// Analyze and decide stages against fixture pages (see __fixtures__).
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import bordersPage from './__fixtures__/borders.html?raw';
+import darkSectionPage from './__fixtures__/dark-section.html?raw';
+import midGrayPage from './__fixtures__/mid-gray.html?raw';
+import {
+  CONTRAST_UNMET_ATTRIBUTE,
+  ContrastCounters,
+  PipelineContext,
+  analyzeElements,
+  collectStrategy2Elements,
+  decideElementColors,
+  recordDecisions,
+  solveForeground,
+} from './style-pipeline';
+import { ColorTransformer, Oklch, formatOklch, getColorTransformer, parseToOklch } from '../lib/color-transform';
+import { measureContrast } from '../lib/contrast';
+
+const invert = getColorTransformer('invert');
+
+// Leaves every color as it was, so foregrounds only change when the solver moves them
+const identity: ColorTransformer = { ...invert, transform: (color) => color };
+
+const DARK_PAGE: Oklch = { mode: 'oklch', l: 0.2, c: 0, h: 0 };
+
+/**
+ * Replaces the test document with a fixture page.
+ */
+function loadFixture(html: string) {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  document.head.innerHTML = page.head.innerHTML;
+  document.body.innerHTML = page.body.innerHTML;
+}
+
+function getElement(id: string): Element {
+  const element = document.getElementById(id);
+  if (!element) throw new Error(`Fixture has no #${id}`);
+  return element;
+}
+
+function sampleOf(id: string) {
+  const [sample] = analyzeElements([getElement(id)], (element, pseudo) => window.getComputedStyle(element, pseudo));
+  return sample;
+}
+
+function createContext(overrides: Partial<PipelineContext> = {}): PipelineContext {
+  return { transformer: invert, pageBackground: DARK_PAGE, contrastTarget: 'AA', ...overrides };
+}
+
+function parse(value: string | undefined): Oklch {
+  const color = parseToOklch(value);
+  if (!color) throw new Error(`Not a color: ${value}`);
+  return color;
+}
+
+describe('text on backgrounds', () => {
+  beforeEach(() => loadFixture(darkSectionPage));
+
+  it('collects the fixture elements', () => {
+    const ids = collectStrategy2Elements(document).map((element) => element.id).filter(Boolean);
+    expect(ids).toEqual(['card', 'hero', 'empty']);
+  });
+
+  it('darkens a light background behind text and solves the text against it', () => {
+    const decision = decideElementColors(sampleOf('card'), createContext());
+
+    expect(decision.properties['background-color']).toBeDefined();
+    expect(decision.finalBackground.l).toBeLessThan(0.5);
+    const [outcome] = decision.contrast;
+    expect(outcome).toMatchObject({ kind: 'text', met: true });
+    expect(measureContrast(parse(decision.properties.color), decision.finalBackground, 'wcag')).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('keeps a dark background and raises dim text on it to the target', () => {
+    const sample = sampleOf('hero');
+    const decision = decideElementColors(sample, createContext({ transformer: identity }));
+
+    expect(decision.properties['background-color']).toBeUndefined();
+    expect(formatOklch(decision.finalBackground)).toBe('#101418');
+    expect(decision.contrast).toEqual([expect.objectContaining({ kind: 'text', met: true, adjusted: true })]);
+    const text = parse(decision.properties.color);
+    expect(text.l).toBeGreaterThan(parse(sample.color).l);
+    expect(measureContrast(text, decision.finalBackground, 'wcag')).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('leaves the background of an element without text alone', () => {
+    const sample = sampleOf('empty');
+    expect(sample.hasText).toBe(false);
+    expect(decideElementColors(sample, createContext()).properties['background-color']).toBeUndefined();
+  });
+});
+
+describe('border roles', () => {
+  beforeEach(() => loadFixture(bordersPage));
+
+  it('reads only visible border sides and outlines', () => {
+    const sample = sampleOf('boxed');
+    expect(Object.keys(sample.borders).sort()).toEqual(['border-bottom-color', 'border-top-color']);
+    expect(sample.outline).toBeDefined();
+  });
+
+  it('transforms borders with the border role, without solving them for contrast', () => {
+    const sample = sampleOf('boxed');
+    const decision = decideElementColors(sample, createContext());
+    const asBorder = (value: string | undefined) => formatOklch(invert.transform(parse(value), 'border', { isButton: false }));
+
+    expect(decision.properties['border-top-color']).toBe(asBorder(sample.borders['border-top-color']));
+    expect(decision.properties['border-bottom-color']).toBe(asBorder(sample.borders['border-bottom-color']));
+    expect(decision.properties['outline-color']).toBe(asBorder(sample.outline));
+    expect(decision.properties['border-left-color']).toBeUndefined();
+    expect(decision.properties['border-right-color']).toBeUndefined();
+    expect(decision.contrast.map((outcome) => outcome.kind)).toEqual(['text']);
+  });
+});
+
+describe('contrast solver', () => {
+  beforeEach(() => loadFixture(midGrayPage));
+
+  it('moves a transformed color that misses the target', () => {
+    const background: Oklch = { mode: 'oklch', l: 0.15, c: 0, h: 0 };
+    const { color, outcome } = solveForeground(parse('#333333'), background, parse('#333333'), undefined, 'text', createContext());
+
+    expect(outcome).toMatchObject({ met: true, adjusted: true });
+    expect(color.l).toBeGreaterThan(parse('#333333').l);
+  });
+
+  it('falls back to the best reachable color and marks the element when no lightness meets the target', () => {
+    // Neither black nor white reach AAA (7:1) on a mid-gray page background
+    const context = createContext({ transformer: identity, pageBackground: { mode: 'oklch', l: 0.6, c: 0, h: 0 }, contrastTarget: 'AAA' });
+    const decision = decideElementColors(sampleOf('label'), context);
+    const [outcome] = decision.contrast;
+
+    expect(outcome).toMatchObject({ kind: 'text', met: false, adjusted: true, required: 7 });
+    expect(outcome.contrast).toBeLessThan(7);
+    expect(measureContrast(parse(decision.properties.color), context.pageBackground, 'wcag')).toBeCloseTo(outcome.contrast, 5);
+
+    const report: ContrastCounters = { checked: 0, adjusted: 0, unmet: 0 };
+    recordDecisions([decision], report);
+    expect(report).toEqual({ checked: 1, adjusted: 1, unmet: 1 });
+    expect(getElement('label').getAttribute(CONTRAST_UNMET_ATTRIBUTE)).toBe('unmet');
+  });
+});
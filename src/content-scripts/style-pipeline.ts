@@ -0,0 +1,376 @@
+// src/content-scripts/style-pipeline.ts
+// Strategy 2 core, shared by the initial pass and the incremental (dynamic content)
+// pass: analyze (batched computed-style reads) -> decide (pure color decisions) ->
+// apply (batched writes) -> record (contrast report). DOM access goes through a
+// PipelineEnvironment, so the stages run under jsdom/happy-dom with fixture pages.
+
+import * as culori from 'culori';
+import type { ContrastReport, ContrastTarget } from '../lib/schemas';
+import { ColorRole, ColorTransformer, Oklch, TransformContext, formatOklch, parseToOklch } from '../lib/color-transform';
+import { ensureContrast, getContrastRequirement, measureContrast } from '../lib/contrast';
+import { rewriteColorsInValue } from '../lib/css-color-values';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// Elements Strategy 2 restyles: common containers and text elements, form controls, plus SVG
+export const STRATEGY2_SELECTOR = 'body, div, section, article, main, header, footer, nav, aside, p, li, h1, h2, h3, h4, h5, h6, span, button, label, legend, td, th, input, select, textarea, svg';
+
+// Form controls show their value as text, and buttons among them get button colors
+const FORM_CONTROL_SELECTOR = 'input, select, textarea';
+const BUTTON_SELECTOR = 'button, input[type="submit"], input[type="reset"], input[type="button"]';
+
+// Marks elements whose text still misses the contrast target after solving
+export const CONTRAST_UNMET_ATTRIBUTE = 'data-eyelove-contrast';
+
+// Backgrounds at or below this lightness are already dark and kept
+const DARK_BACKGROUND_L = 0.3;
+
+// Minimum opacity for a color to be restyled: mostly transparent colors are left alone
+const MIN_BACKGROUND_ALPHA = 0.5;
+const MIN_TEXT_ALPHA = 0.5;
+const MIN_GRAPHIC_ALPHA = 0.1; // SVG fills/strokes and borders
+
+const BORDER_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+type BorderColorProperty = `border-${(typeof BORDER_SIDES)[number]}-color`;
+
+export type StyledProperty =
+  | 'background-color'
+  | 'background-image'
+  | 'color'
+  | BorderColorProperty
+  | 'outline-color'
+  | 'box-shadow'
+  | 'text-shadow'
+  | 'text-decoration-color'
+  | 'caret-color'
+  | 'fill'
+  | 'stroke';
+
+export type StyledProperties = Partial<Record<StyledProperty, string>>;
+
+// Pseudo-elements restyled along with their element (inline styles can't reach them)
+export const STYLED_PSEUDO_ELEMENTS = ['::before', '::after'] as const;
+
+export type StyledPseudoElement = (typeof STYLED_PSEUDO_ELEMENTS)[number];
+
+// Analyze: the computed colors of an element or pseudo-element. Optional colors are
+// only set where they show: visible borders and outlines, gradients, shadows, and
+// decoration/caret colors that differ from the text color (otherwise they follow it).
+export interface ColorSample {
+  background: string;
+  backgroundImage?: string;
+  color: string;
+  borders: Partial<Record<BorderColorProperty, string>>;
+  outline?: string;
+  boxShadow?: string;
+  textShadow?: string;
+  textDecorationColor?: string;
+  caretColor?: string;
+  fill?: string;
+  stroke?: string;
+  hasText: boolean; // Any text content in the subtree (generated content for pseudo-elements)
+}
+
+export interface ElementColorSample extends ColorSample {
+  element: Element;
+  isButton: boolean;
+  pseudoElements: Partial<Record<StyledPseudoElement, ColorSample>>; // Only those that are rendered
+}
+
+// Contrast solving outcome for one foreground color
+export interface ContrastOutcome {
+  kind: 'text' | 'graphic';
+  contrast: number;
+  required: number;
+  met: boolean;
+  adjusted: boolean;
+}
+
+// Decide: what to write on one element (and its pseudo-elements)
+export interface ElementColorDecision {
+  element: Element;
+  properties: StyledProperties;
+  pseudoProperties: Partial<Record<StyledPseudoElement, StyledProperties>>;
+  finalBackground: Oklch; // The background the foregrounds were solved against
+  contrast: ContrastOutcome[];
+}
+
+export interface PipelineContext {
+  transformer: ColorTransformer;
+  pageBackground: Oklch; // Assumed behind transparent backgrounds
+  contrastTarget: ContrastTarget | undefined;
+}
+
+// DOM access used by the analyze and apply stages
+export interface PipelineEnvironment {
+  getComputedStyle: (element: Element, pseudoElement?: StyledPseudoElement) => CSSStyleDeclaration;
+  writeColors: (element: Element, properties: StyledProperties) => void;
+  writePseudoColors: (element: Element, pseudoElement: StyledPseudoElement, properties: StyledProperties) => void;
+}
+
+// Counters of the contrast report (the target is added when it's sent)
+export type ContrastCounters = Omit<ContrastReport, 'target'>;
+
+/**
+ * The elements in or below `root` that Strategy 2 restyles, including `root` itself.
+ */
+export function collectStrategy2Elements(root: Document | ShadowRoot | Element): Element[] {
+  const elements = Array.from(root.querySelectorAll(STRATEGY2_SELECTOR));
+  return root instanceof Element && root.matches(STRATEGY2_SELECTOR) ? [root, ...elements] : elements;
+}
+
+// == Analyze ==
+
+/**
+ * Reads the colors of one computed style.
+ */
+function readColorSample(styles: CSSStyleDeclaration, hasText: boolean): ColorSample {
+  const color = styles.color;
+  const isVisibleLine = (style: string, width: string) => style !== 'none' && style !== 'hidden' && parseFloat(width) > 0;
+  const unlessCurrentColor = (value: string) => (value && value !== color && value !== 'auto' ? value : undefined);
+  const unlessNone = (value: string) => (value && value !== 'none' ? value : undefined);
+
+  const borders: ColorSample['borders'] = {};
+  for (const side of BORDER_SIDES) {
+    if (isVisibleLine(styles.getPropertyValue(`border-${side}-style`), styles.getPropertyValue(`border-${side}-width`))) {
+      borders[`border-${side}-color`] = styles.getPropertyValue(`border-${side}-color`);
+    }
+  }
+  return {
+    background: styles.backgroundColor,
+    backgroundImage: styles.backgroundImage.includes('gradient(') ? styles.backgroundImage : undefined,
+    color,
+    borders,
+    outline: isVisibleLine(styles.outlineStyle, styles.outlineWidth) ? unlessCurrentColor(styles.outlineColor) : undefined,
+    boxShadow: unlessNone(styles.boxShadow),
+    textShadow: unlessNone(styles.textShadow),
+    textDecorationColor: styles.textDecorationLine !== 'none' ? unlessCurrentColor(styles.textDecorationColor) : undefined,
+    caretColor: unlessCurrentColor(styles.caretColor),
+    fill: unlessNone(styles.fill),
+    stroke: unlessNone(styles.stroke),
+    hasText,
+  };
+}
+
+/**
+ * Reads the computed colors of every element (and its rendered pseudo-elements)
+ * in one batch (no writes in between, so the browser computes styles once).
+ */
+export function analyzeElements(elements: Element[], getComputedStyle: PipelineEnvironment['getComputedStyle']): ElementColorSample[] {
+  const samples: ElementColorSample[] = [];
+  for (const element of elements) {
+    try {
+      const pseudoElements: ElementColorSample['pseudoElements'] = {};
+      for (const pseudo of STYLED_PSEUDO_ELEMENTS) {
+        const styles = getComputedStyle(element, pseudo);
+        const content = styles.content;
+        if (!content || content === 'none' || content === 'normal') continue; // Not rendered
+        pseudoElements[pseudo] = readColorSample(styles, content !== '""' && content !== "''");
+      }
+      samples.push({
+        ...readColorSample(getComputedStyle(element), element.matches(FORM_CONTROL_SELECTOR) || (element.textContent?.trim().length ?? 0) > 0),
+        element,
+        isButton: element.matches(BUTTON_SELECTOR),
+        pseudoElements,
+      });
+    } catch (e) {
+      if (isDev) console.warn('[EyeLove CS] Error reading computed style for element:', element, e);
+    }
+  }
+  return samples;
+}
+
+// == Decide ==
+
+/**
+ * Nudges a transformed foreground until it meets the contrast target against its
+ * final background. The original foreground/background contrast is used as a floor,
+ * so restyled colors are never less readable than before.
+ *
+ * @param kind 'text' for text colors, 'graphic' for SVG fills/strokes (lower WCAG 1.4.11 thresholds)
+ */
+export function solveForeground(
+  transformed: Oklch,
+  finalBackground: Oklch | undefined,
+  originalForeground: Oklch,
+  originalBackground: Oklch | undefined,
+  kind: 'text' | 'graphic',
+  context: PipelineContext,
+): { color: Oklch; outcome: ContrastOutcome } {
+  // Transparent backgrounds are assumed to sit on the dark page background
+  const background = finalBackground ?? context.pageBackground;
+  const requirement = getContrastRequirement(context.contrastTarget, kind);
+  // Only opaque original backgrounds give a meaningful "before" contrast
+  const floor = originalBackground && (originalBackground.alpha ?? 1) > MIN_BACKGROUND_ALPHA
+    ? measureContrast(originalForeground, originalBackground, requirement.metric)
+    : 0;
+
+  const result = ensureContrast(transformed, background, requirement, floor);
+  return {
+    color: result.color,
+    outcome: { kind, contrast: result.contrast, required: result.required, met: result.met, adjusted: result.adjusted },
+  };
+}
+
+/**
+ * Transforms every color in a value such as a gradient or a shadow list.
+ * Returns undefined when nothing changed.
+ */
+function transformColorsInValue(
+  value: string | undefined,
+  role: ColorRole,
+  transformer: ColorTransformer,
+  transformContext: TransformContext,
+  keep: (color: Oklch) => boolean = () => false,
+): string | undefined {
+  if (!value) return undefined;
+  const rewritten = rewriteColorsInValue(value, (token) => {
+    const color = parseToOklch(token);
+    return color && !keep(color) ? formatOklch(transformer.transform(color, role, transformContext)) : null;
+  });
+  return rewritten !== value ? rewritten : undefined;
+}
+
+/**
+ * Decides the dark-mode colors of an element or pseudo-element. Light opaque
+ * backgrounds (and gradients) behind text are transformed; foregrounds are
+ * transformed and solved for contrast against the resulting background.
+ *
+ * @param backdrop What shows through a transparent background
+ */
+function decideColors(
+  sample: ColorSample,
+  backdrop: Oklch,
+  transformContext: TransformContext,
+  context: PipelineContext,
+): { properties: StyledProperties; finalBackground: Oklch; contrast: ContrastOutcome[] } {
+  const { transformer } = context;
+  const properties: StyledProperties = {};
+  const contrast: ContrastOutcome[] = [];
+  const set = (property: StyledProperty, value: string | undefined) => {
+    if (value) properties[property] = value;
+  };
+
+  // Background: only opaque, light backgrounds behind text are restyled
+  const background = parseToOklch(sample.background, MIN_BACKGROUND_ALPHA) ?? undefined;
+  let finalBackground = backdrop;
+  if (background && background.l > DARK_BACKGROUND_L) {
+    if (sample.hasText) {
+      finalBackground = transformer.transform(background, 'background', transformContext);
+      properties['background-color'] = culori.formatHex(finalBackground);
+    }
+  } else if (background) {
+    finalBackground = background; // Already dark
+  }
+  // Gradient stops follow the same rule, stop by stop
+  if (sample.hasText) {
+    set('background-image', transformColorsInValue(sample.backgroundImage, 'background', transformer, transformContext, (stop) => stop.l <= DARK_BACKGROUND_L));
+  }
+
+  const solve = (value: string | undefined, minAlpha: number, role: 'text' | 'fill' | 'stroke', property: StyledProperty) => {
+    const original = parseToOklch(value, minAlpha);
+    if (!original) return;
+    const transformed = transformer.transform(original, role, transformContext);
+    const { color, outcome } = solveForeground(transformed, finalBackground, original, background, role === 'text' ? 'text' : 'graphic', context);
+    properties[property] = culori.formatHex(color);
+    contrast.push(outcome);
+  };
+  solve(sample.color, MIN_TEXT_ALPHA, 'text', 'color');
+  solve(sample.fill, MIN_GRAPHIC_ALPHA, 'fill', 'fill');
+  solve(sample.stroke, MIN_GRAPHIC_ALPHA, 'stroke', 'stroke');
+
+  // Borders, outlines, shadows and decorations are decorative: transformed, not solved for contrast
+  const transformLine = (value: string | undefined) => {
+    const color = parseToOklch(value, MIN_GRAPHIC_ALPHA);
+    return color ? formatOklch(transformer.transform(color, 'border', transformContext)) : undefined;
+  };
+  for (const [property, value] of Object.entries(sample.borders) as Array<[BorderColorProperty, string]>) {
+    set(property, transformLine(value));
+  }
+  set('outline-color', transformLine(sample.outline));
+  set('text-decoration-color', transformLine(sample.textDecorationColor));
+  set('caret-color', transformLine(sample.caretColor));
+  set('box-shadow', transformColorsInValue(sample.boxShadow, 'border', transformer, transformContext));
+  set('text-shadow', transformColorsInValue(sample.textShadow, 'border', transformer, transformContext));
+
+  return { properties, finalBackground, contrast };
+}
+
+/**
+ * Decides the dark-mode colors of one element and its pseudo-elements, which are
+ * seen on the element's final background. Pure: reads nothing but the sample.
+ */
+export function decideElementColors(sample: ElementColorSample, context: PipelineContext): ElementColorDecision {
+  const transformContext = { isButton: sample.isButton };
+  const { properties, finalBackground, contrast } = decideColors(sample, context.pageBackground, transformContext, context);
+
+  const pseudoProperties: ElementColorDecision['pseudoProperties'] = {};
+  for (const [pseudo, pseudoSample] of Object.entries(sample.pseudoElements) as Array<[StyledPseudoElement, ColorSample]>) {
+    const decision = decideColors(pseudoSample, finalBackground, transformContext, context);
+    if (Object.keys(decision.properties).length > 0) pseudoProperties[pseudo] = decision.properties;
+    contrast.push(...decision.contrast);
+  }
+  return { element: sample.element, properties, pseudoProperties, finalBackground, contrast };
+}
+
+// == Apply ==
+
+/**
+ * Writes every decision in one batch.
+ */
+export function applyDecisions(decisions: ElementColorDecision[], environment: Pick<PipelineEnvironment, 'writeColors' | 'writePseudoColors'>) {
+  for (const decision of decisions) {
+    try {
+      if (Object.keys(decision.properties).length > 0) environment.writeColors(decision.element, decision.properties);
+      for (const [pseudo, properties] of Object.entries(decision.pseudoProperties) as Array<[StyledPseudoElement, StyledProperties]>) {
+        environment.writePseudoColors(decision.element, pseudo, properties);
+      }
+    } catch (e) {
+      if (isDev) console.warn('[EyeLove CS] Error styling element:', decision.element, e);
+    }
+  }
+}
+
+// == Record ==
+
+/**
+ * Adds one contrast outcome to the report. Elements that miss the target are
+ * marked with CONTRAST_UNMET_ATTRIBUTE (and counted once); `element` is null for
+ * stylesheet declarations.
+ */
+export function recordContrastOutcome(report: ContrastCounters, outcome: ContrastOutcome, element: Element | null) {
+  if (outcome.kind === 'text') {
+    report.checked++;
+    if (outcome.adjusted) report.adjusted++;
+  }
+  if (outcome.met) return;
+  if (!element || !element.hasAttribute(CONTRAST_UNMET_ATTRIBUTE)) report.unmet++;
+  element?.setAttribute(CONTRAST_UNMET_ATTRIBUTE, 'unmet');
+  if (isDev) console.warn(`[EyeLove CS] Contrast target not met (${outcome.contrast.toFixed(2)} < ${outcome.required}):`, element);
+}
+
+/**
+ * Records the contrast outcomes of every decision.
+ */
+export function recordDecisions(decisions: ElementColorDecision[], report: ContrastCounters) {
+  for (const decision of decisions) {
+    decision.contrast.forEach((outcome) => recordContrastOutcome(report, outcome, decision.element));
+  }
+}
+
+/**
+ * Runs the whole pipeline over a list of elements and returns the decisions.
+ */
+export function runStylePipeline(
+  elements: Element[],
+  context: PipelineContext,
+  environment: PipelineEnvironment,
+  report: ContrastCounters,
+): ElementColorDecision[] {
+  const samples = analyzeElements(elements, environment.getComputedStyle);
+  const decisions = samples.map((sample) => decideElementColors(sample, context));
+  applyDecisions(decisions, environment);
+  recordDecisions(decisions, report);
+  return decisions;
+}
@@ -0,0 +1,41 @@
+// src/content-scripts/stylesheet-engine.test.ts
+// Per-sheet content signatures and their invalidation.
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { getStyleSheetSignature, invalidateStyleSheetSignatures } from './stylesheet-engine';
+
+function createSheet(css: string): CSSStyleSheet {
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(css);
+  return sheet;
+}
+
+describe('getStyleSheetSignature', () => {
+  // happy-dom has no CSSImportRule; none of these sheets has an @import
+  beforeAll(() => {
+    if (typeof CSSImportRule === 'undefined') vi.stubGlobal('CSSImportRule', class {});
+  });
+
+  it('is the same for sheets with the same rules', () => {
+    const css = 'a { color: red; } p { background-color: white; }';
+    expect(getStyleSheetSignature(createSheet(css))).toBe(getStyleSheetSignature(createSheet(css)));
+    expect(getStyleSheetSignature(createSheet(css))).not.toBe(getStyleSheetSignature(createSheet('a { color: blue; } p { background-color: white; }')));
+  });
+
+  it('recomputes when a rule is inserted', () => {
+    const sheet = createSheet('a { color: red; }');
+    const before = getStyleSheetSignature(sheet);
+    sheet.insertRule('p { color: blue; }', 1);
+    expect(getStyleSheetSignature(sheet)).not.toBe(before);
+  });
+
+  it('keeps a rule edited in place until the signatures are invalidated', () => {
+    const sheet = createSheet('a { color: red; }');
+    const before = getStyleSheetSignature(sheet);
+    (sheet.cssRules[0] as CSSStyleRule).style.setProperty('color', 'blue');
+    expect(getStyleSheetSignature(sheet)).toBe(before);
+
+    invalidateStyleSheetSignatures();
+    expect(getStyleSheetSignature(sheet)).not.toBe(before);
+  });
+});
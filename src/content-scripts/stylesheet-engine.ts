@@ -0,0 +1,387 @@
+// src/content-scripts/stylesheet-engine.ts
+// Stylesheet-level rewriting: walks the page's stylesheets and generates an
+// override sheet containing only the color-bearing declarations, with their
+// colors transformed. Elements never get inline styles, so frameworks that own
+// the `style` attribute are left alone.
+
+import type { ColorRole } from '../lib/color-transform';
+import { resolveCssUrls } from '../lib/css-color-values';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// Color-bearing properties the engine rewrites, and the role their colors play.
+// Shorthands (background, border, outline) show up as these longhands in the CSSOM.
+export const COLOR_PROPERTY_ROLES: Record<string, ColorRole> = {
+  'background-color': 'background',
+  'background-image': 'background', // Gradients
+  color: 'text',
+  'border-top-color': 'border',
+  'border-right-color': 'border',
+  'border-bottom-color': 'border',
+  'border-left-color': 'border',
+  'outline-color': 'border',
+  'column-rule-color': 'border',
+  'text-decoration-color': 'border',
+  'caret-color': 'border',
+  'box-shadow': 'border',
+  'text-shadow': 'border',
+  'accent-color': 'fill', // Checkboxes, radios, sliders
+  'scrollbar-color': 'border',
+  fill: 'fill',
+  stroke: 'stroke',
+};
+
+// Maps a declaration to its replacement value, or null to leave it alone
+export type DeclarationMapper = (property: string, value: string) => string | null;
+
+export interface RewrittenDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+export interface StylesheetRewriteResult {
+  css: string; // Generated override rules, in document order
+  inaccessibleSheets: string[]; // URLs of cross-origin sheets whose rules can't be read
+}
+
+// A pseudo-element at the end of a complex selector ('::before', or the legacy single-colon forms)
+const PSEUDO_ELEMENT = /(::[\w-]+(\([^)]*\))?|:(before|after|first-line|first-letter))$/i;
+
+// Per-sheet cache so unchanged sheets aren't re-walked on every pass, keyed by the
+// sheet's content signature (see getStyleSheetSignature)
+const sheetCache = new WeakMap<CSSStyleSheet, { key: string; signature: string; css: string }>();
+
+// Per-sheet content signatures, reused until the rule count changes or the
+// generation moves on (see invalidateStyleSheetSignatures)
+const signatureCache = new WeakMap<CSSStyleSheet, { generation: number; length: number; signature: string }>();
+let signatureGeneration = 0;
+
+/**
+ * FNV-1a hash of a string (32 bits). Pass the previous result as `hash` to hash
+ * several strings as one.
+ */
+export function hashText(text: string, hash = 0x811c9dc5): number {
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Content signature of a sheet: the rule count and an FNV-1a hash of the rules'
+ * text, with each @import folded in through the imported sheet's own signature.
+ * Hashing costs about as much as walking the rules, so the result is kept per
+ * sheet: a changed rule count recomputes it (insertRule/deleteRule), anything else
+ * waits for invalidateStyleSheetSignatures (rules edited in place through
+ * rule.style, replaceSync() with as many rules, changed @media text).
+ */
+export function getStyleSheetSignature(sheet: CSSStyleSheet, rules: CSSRuleList = sheet.cssRules): string {
+  const cached = signatureCache.get(sheet);
+  if (cached && cached.generation === signatureGeneration && cached.length === rules.length) return cached.signature;
+
+  let hash: number | undefined;
+  for (const rule of Array.from(rules)) {
+    hash = hashText(rule.cssText, hash);
+    if (rule instanceof CSSImportRule && rule.styleSheet && isReadable(rule.styleSheet)) {
+      hash = hashText(getStyleSheetSignature(rule.styleSheet), hash);
+    }
+  }
+  const signature = `${rules.length}:${(hash ?? hashText('')).toString(36)}`;
+  signatureCache.set(sheet, { generation: signatureGeneration, length: rules.length, signature });
+  return signature;
+}
+
+/**
+ * Makes the next getStyleSheetSignature call recompute every sheet's signature.
+ * Called when the stylesheets are known to have changed.
+ */
+export function invalidateStyleSheetSignatures() {
+  signatureGeneration++;
+}
+
+/**
+ * Rewrites the color-bearing declarations of a style declaration block, custom
+ * properties included (the mapper decides which of those hold colors).
+ * url() values are made absolute first, since the override sheet has the document's base.
+ *
+ * @param baseUrl Base for relative URLs; defaults to the declaring sheet's URL, then the document's
+ */
+export function rewriteDeclarations(style: CSSStyleDeclaration, mapDeclaration: DeclarationMapper, baseUrl?: string): RewrittenDeclaration[] {
+  const rewritten: RewrittenDeclaration[] = [];
+  for (let i = 0; i < style.length; i++) {
+    const property = style[i];
+    const isCustomProperty = property.startsWith('--');
+    if (!isCustomProperty && !(property in COLOR_PROPERTY_ROLES)) continue;
+    let value = style.getPropertyValue(property).trim();
+    // var() is resolved (and overridden) at the custom property
+    if (!value || (!isCustomProperty && value.includes('var('))) continue;
+    if (value.includes('url(')) {
+      value = resolveCssUrls(value, baseUrl ?? style.parentRule?.parentStyleSheet?.href ?? document.baseURI);
+    }
+    const newValue = mapDeclaration(property, value);
+    if (newValue && newValue !== value) {
+      rewritten.push({ property, value: newValue, important: style.getPropertyPriority(property) === 'important' });
+    }
+  }
+  return rewritten;
+}
+
+/**
+ * Splits a selector list at its top-level commas (not those inside :is(), :not() etc.).
+ */
+function splitSelectorList(selectorText: string): string[] {
+  const selectors: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selectorText.length; i++) {
+    const char = selectorText[i];
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      selectors.push(selectorText.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  selectors.push(selectorText.slice(start).trim());
+  return selectors;
+}
+
+/**
+ * Narrows a selector list so it no longer matches elements inside `ignoreSelector`
+ * (or the elements themselves). The exclusion goes before any pseudo-element,
+ * which has to stay last.
+ */
+export function excludeFromSelector(selectorText: string, ignoreSelector: string): string {
+  const exclusion = `:not(:is(${ignoreSelector}), :is(${ignoreSelector}) *)`;
+  return splitSelectorList(selectorText)
+    .map((selector) => {
+      const pseudo = selector.match(PSEUDO_ELEMENT);
+      if (!pseudo || pseudo.index === undefined) return `${selector}${exclusion}`;
+      return `${selector.slice(0, pseudo.index)}${exclusion}${pseudo[0]}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Walks a rule list and returns the override CSS for it. Grouping rules
+ * (@media, @supports, @container, @layer, nesting) are reproduced around their
+ * rewritten children so the overrides apply under the same conditions.
+ *
+ * @param ignoreSelector Elements the overrides must not reach (a site fix's ignored elements)
+ * @param cacheKey Passed on to imported sheets, which are cached like any other sheet
+ */
+function rewriteRules(
+  rules: CSSRuleList,
+  mapDeclaration: DeclarationMapper,
+  inaccessible: string[],
+  baseUrl?: string,
+  ignoreSelector?: string,
+  cacheKey = '',
+): string {
+  let css = '';
+  for (const rule of Array.from(rules)) {
+    try {
+      if (rule instanceof CSSStyleRule) {
+        const declarations = rewriteDeclarations(rule.style, mapDeclaration, baseUrl)
+          .map((d) => `${d.property}: ${d.value}${d.important ? ' !important' : ''};`)
+          .join(' ');
+        // CSS nesting: child rules live on the style rule itself
+        const nested = rule.cssRules?.length ? rewriteRules(rule.cssRules, mapDeclaration, inaccessible, baseUrl, ignoreSelector, cacheKey) : '';
+        const selector = ignoreSelector ? excludeFromSelector(rule.selectorText, ignoreSelector) : rule.selectorText;
+        if (declarations || nested) css += `${selector} { ${declarations} ${nested} }\n`;
+      } else if (rule instanceof CSSMediaRule) {
+        css += wrapGroup(`@media ${rule.media.mediaText}`, rewriteRules(rule.cssRules, mapDeclaration, inaccessible, baseUrl, ignoreSelector, cacheKey));
+      } else if (rule instanceof CSSSupportsRule) {
+        css += wrapGroup(`@supports ${rule.conditionText}`, rewriteRules(rule.cssRules, mapDeclaration, inaccessible, baseUrl, ignoreSelector, cacheKey));
+      } else if (rule instanceof CSSContainerRule) {
+        css += wrapGroup(`@container ${rule.containerName} ${rule.containerQuery}`, rewriteRules(rule.cssRules, mapDeclaration, inaccessible, baseUrl, ignoreSelector, cacheKey));
+      } else if (rule instanceof CSSLayerBlockRule) {
+        // Same layer name => same cascade layer, so our rules keep the page's layer ordering
+        css += wrapGroup(`@layer ${rule.name}`, rewriteRules(rule.cssRules, mapDeclaration, inaccessible, baseUrl, ignoreSelector, cacheKey));
+      } else if (rule instanceof CSSImportRule && rule.styleSheet) {
+        const imported = rewriteStyleSheet(rule.styleSheet, mapDeclaration, cacheKey, inaccessible, ignoreSelector);
+        css += rule.media.mediaText ? wrapGroup(`@media ${rule.media.mediaText}`, imported) : imported;
+      }
+      // @font-face, @keyframes, @page etc. carry no element colors we can override
+    } catch (e) {
+      if (isDev) console.debug('[EyeLove CS] Stylesheet engine: could not rewrite rule', rule, e);
+    }
+  }
+  return css;
+}
+
+function wrapGroup(prelude: string, body: string): string {
+  return body ? `${prelude} {\n${body}}\n` : '';
+}
+
+/**
+ * Returns the override CSS for one sheet, using the cache when the sheet hasn't changed.
+ * Cross-origin sheets throw on `cssRules`; their URL is added to `inaccessible`.
+ *
+ * @param cacheKey Identifies the mapper and ignored elements (e.g. the active settings); a new key invalidates the cache
+ */
+export function rewriteStyleSheet(
+  sheet: CSSStyleSheet,
+  mapDeclaration: DeclarationMapper,
+  cacheKey: string,
+  inaccessible: string[],
+  ignoreSelector?: string,
+): string {
+  let rules: CSSRuleList;
+  try {
+    rules = sheet.cssRules;
+  } catch {
+    if (sheet.href) inaccessible.push(sheet.href);
+    return '';
+  }
+
+  const signature = cacheKey ? getStyleSheetSignature(sheet, rules) : '';
+  const cached = sheetCache.get(sheet);
+  if (cacheKey && cached && cached.key === cacheKey && cached.signature === signature) return cached.css;
+
+  const css = rewriteRules(rules, mapDeclaration, inaccessible, undefined, ignoreSelector, cacheKey);
+  if (cacheKey) sheetCache.set(sheet, { key: cacheKey, signature, css });
+  return css;
+}
+
+/**
+ * Checks whether a sheet's rules can be read (cross-origin sheets throw).
+ */
+function isReadable(sheet: CSSStyleSheet): boolean {
+  try {
+    return sheet.cssRules !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rewrites every stylesheet of a document or shadow root: `<style>`/`<link>`
+ * sheets first, then adopted sheets (which cascade after them).
+ *
+ * @param exclude Our own sheets, which must never be rewritten
+ * @param getExternalCss Supplies already-rewritten CSS for a cross-origin sheet, or null if unavailable
+ * @param ignoreSelector Elements the overrides must not reach
+ */
+export function rewriteStyleSheets(
+  root: Document | ShadowRoot,
+  mapDeclaration: DeclarationMapper,
+  cacheKey: string,
+  exclude: readonly CSSStyleSheet[] = [],
+  getExternalCss?: (href: string) => string | null,
+  ignoreSelector?: string,
+): StylesheetRewriteResult {
+  const inaccessibleSheets: string[] = [];
+  const sheets = [...Array.from(root.styleSheets), ...root.adoptedStyleSheets];
+  let css = '';
+
+  for (const sheet of sheets) {
+    if (exclude.includes(sheet) || sheet.disabled) continue;
+
+    let sheetCss: string;
+    if (isReadable(sheet)) {
+      sheetCss = rewriteStyleSheet(sheet, mapDeclaration, cacheKey, inaccessibleSheets, ignoreSelector);
+    } else {
+      // Cross-origin: use the fetched copy in place, keeping the cascade order
+      const external = sheet.href ? getExternalCss?.(sheet.href) ?? null : null;
+      if (external === null) {
+        if (sheet.href) inaccessibleSheets.push(sheet.href);
+        continue;
+      }
+      sheetCss = external;
+    }
+
+    // Respect <link media="print"> and similar
+    const media = sheet.media?.mediaText;
+    css += media && media !== 'all' ? wrapGroup(`@media ${media}`, sheetCss) : sheetCss;
+  }
+
+  return { css, inaccessibleSheets };
+}
+
+/**
+ * Cheap fingerprint of the stylesheets of some roots: which sheets there are and
+ * how many rules each has. Rules added with insertRule() (how CSS-in-JS libraries
+ * such as emotion and styled-components inject styles in production) change no DOM
+ * node, so observeStyleSheetChanges never hears of them; the rule counts do.
+ *
+ * @param exclude Our own sheets
+ */
+export function getStyleSheetsFingerprint(roots: Array<Document | ShadowRoot>, exclude: readonly CSSStyleSheet[] = []): string {
+  const counts: string[] = [];
+  for (const root of roots) {
+    for (const sheet of [...Array.from(root.styleSheets), ...root.adoptedStyleSheets]) {
+      if (!exclude.includes(sheet)) counts.push(isReadable(sheet) ? String(sheet.cssRules.length) : '-');
+    }
+  }
+  return counts.join(',');
+}
+
+/**
+ * Rewrites raw CSS text (e.g. a cross-origin sheet fetched by the background worker).
+ *
+ * @param baseUrl Where the text came from, for resolving relative url() values
+ * @param ignoreSelector Elements the overrides must not reach
+ */
+export function rewriteCssText(cssText: string, mapDeclaration: DeclarationMapper, baseUrl?: string, ignoreSelector?: string): string {
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(cssText); // @import rules are ignored by replaceSync
+  return rewriteRules(sheet.cssRules, mapDeclaration, [], baseUrl, ignoreSelector);
+}
+
+/**
+ * Checks whether a node adds or changes a stylesheet.
+ */
+function isStyleNode(node: Node): boolean {
+  if (node instanceof HTMLStyleElement) return true;
+  return node instanceof HTMLLinkElement && node.rel.toLowerCase().split(/\s+/).includes('stylesheet');
+}
+
+/**
+ * Watches a document or shadow root for added/removed `<style>` and `<link>`
+ * elements and for text changes inside `<style>`. Links report once loaded.
+ * Sheet signatures are invalidated before `onChange` runs.
+ * Returns the observer so the caller can disconnect it.
+ */
+export function observeStyleSheetChanges(root: Document | ShadowRoot, onChange: () => void): MutationObserver {
+  const onSheetsChanged = () => {
+    invalidateStyleSheetSignatures();
+    onChange();
+  };
+  const observer = new MutationObserver((mutations) => {
+    let changed = false;
+    for (const mutation of mutations) {
+      // Text inside a <style> element changed
+      if (mutation.target.parentNode instanceof HTMLStyleElement || mutation.target instanceof HTMLStyleElement) {
+        changed = true;
+        continue;
+      }
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof HTMLLinkElement && isStyleNode(node)) {
+          node.addEventListener('load', onSheetsChanged, { once: true });
+        } else if (isStyleNode(node)) {
+          changed = true;
+        }
+      });
+      mutation.removedNodes.forEach((node) => {
+        if (isStyleNode(node)) changed = true;
+      });
+    }
+    if (changed) onSheetsChanged();
+  });
+
+  watchStyleSheetRoot(observer, root);
+  return observer;
+}
+
+/**
+ * Adds another document or shadow root to an observer created by observeStyleSheetChanges.
+ */
+export function watchStyleSheetRoot(observer: MutationObserver, root: Document | ShadowRoot) {
+  observer.observe(root instanceof Document ? root.documentElement : root, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+  });
+}
@@ -0,0 +1,117 @@
+// src/lib/break-reminders.ts
+// Break reminder timer and log. Pure functions over plain data: the background
+// worker persists the results and drives chrome.alarms, the popup only reads them.
+
+import type { BreakReminders, BreakTimer, BreakLog, BreakLogEntry } from './schemas';
+
+export type BreakEvent = keyof BreakLogEntry; // 'taken' | 'skipped' | 'snoozed' | 'missed'
+
+// Days of history kept in the break log
+export const BREAK_LOG_DAYS = 30;
+
+// Share of a break the machine must be idle or locked for (up to its end) to count as taken
+const BREAK_TAKEN_IDLE_SHARE = 0.6;
+
+// Shortest idle interval chrome.idle can be asked about
+const MIN_IDLE_QUERY_SECONDS = 15;
+
+const EMPTY_LOG_ENTRY: BreakLogEntry = { taken: 0, skipped: 0, snoozed: 0, missed: 0 };
+
+/**
+ * Local calendar date as 'YYYY-MM-DD' (the break log is per local day).
+ */
+export function getLocalDateKey(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Starts a work interval, by default the full configured length.
+ */
+export function startWorkPhase(settings: BreakReminders, now: number, durationMs = settings.workMinutes * 60_000): BreakTimer {
+  return { phase: 'working', phaseEndsAt: now + durationMs, remainingMs: null, pausedAt: null };
+}
+
+/**
+ * Starts a break.
+ */
+export function startBreakPhase(settings: BreakReminders, now: number): BreakTimer {
+  return { phase: 'break', phaseEndsAt: now + settings.breakSeconds * 1000, remainingMs: null, pausedAt: null };
+}
+
+/**
+ * Pauses a work interval while the machine is idle or locked. Breaks are left
+ * running: stepping away is exactly what a break is for.
+ */
+export function pauseForIdle(timer: BreakTimer, now: number): BreakTimer {
+  if (timer.phase !== 'working' || timer.phaseEndsAt === null) return timer;
+  return { phase: 'idle', phaseEndsAt: null, remainingMs: Math.max(0, timer.phaseEndsAt - now), pausedAt: now };
+}
+
+/**
+ * Resumes after idleness. Being away for at least a break's length counts as a
+ * rest, so the work interval starts over; otherwise it continues where it stopped.
+ */
+export function resumeFromIdle(timer: BreakTimer, settings: BreakReminders, now: number): BreakTimer {
+  if (timer.phase !== 'idle') return timer;
+  const awayMs = now - (timer.pausedAt ?? now);
+  if (awayMs >= settings.breakSeconds * 1000 || timer.remainingMs === null) {
+    return startWorkPhase(settings, now);
+  }
+  return startWorkPhase(settings, now, timer.remainingMs);
+}
+
+/**
+ * How long the machine must have been idle or locked at `now` for a break that
+ * ended to count as taken: since BREAK_TAKEN_IDLE_SHARE of the break was left.
+ * Breaks that ended a while ago need the idleness to have lasted until now.
+ */
+export function getBreakTakenIdleSeconds(timer: BreakTimer, settings: BreakReminders, now: number): number {
+  const breakMs = settings.breakSeconds * 1000;
+  const idleFrom = (timer.phaseEndsAt ?? now) - breakMs * BREAK_TAKEN_IDLE_SHARE;
+  return Math.max(MIN_IDLE_QUERY_SECONDS, Math.ceil((now - idleFrom) / 1000));
+}
+
+/**
+ * Milliseconds until the current phase ends (the paused remainder while idle).
+ */
+export function getRemainingMs(timer: BreakTimer, now: number): number {
+  if (timer.phase === 'idle') return timer.remainingMs ?? 0;
+  return Math.max(0, (timer.phaseEndsAt ?? now) - now);
+}
+
+/**
+ * Adds an event to the day's log entry and drops days older than BREAK_LOG_DAYS.
+ * Returns a new log.
+ */
+export function recordBreakEvent(log: BreakLog, event: BreakEvent, now: Date = new Date()): BreakLog {
+  const key = getLocalDateKey(now);
+  const entry = { ...EMPTY_LOG_ENTRY, ...log[key] };
+  entry[event]++;
+
+  const oldest = getLocalDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (BREAK_LOG_DAYS - 1)));
+  const updated: BreakLog = { [key]: entry };
+  for (const [day, dayEntry] of Object.entries(log)) {
+    // 'YYYY-MM-DD' keys sort chronologically as strings
+    if (day !== key && day >= oldest) updated[day] = dayEntry;
+  }
+  return updated;
+}
+
+/**
+ * The log entry for a day, or zeros when nothing was recorded.
+ */
+export function getBreakLogEntry(log: BreakLog, date: Date = new Date()): BreakLogEntry {
+  return { ...EMPTY_LOG_ENTRY, ...log[getLocalDateKey(date)] };
+}
+
+/**
+ * Formats a duration as 'm:ss' (or 'h:mm:ss').
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,146 @@
+// src/lib/color-transform.test.ts
+// Outputs of the color-transform algorithms and the appearance adjustments.
+
+import { describe, expect, it } from 'vitest';
+import {
+  Oklch,
+  adjustOklch,
+  clampOklch,
+  formatOklch,
+  getColorTransformer,
+  parseToOklch,
+  transformCssColor,
+  withAppearance,
+} from './color-transform';
+
+const WHITE: Oklch = { mode: 'oklch', l: 1, c: 0, h: 0 };
+const BLACK: Oklch = { mode: 'oklch', l: 0, c: 0, h: 0 };
+const BLUE: Oklch = { mode: 'oklch', l: 0.6, c: 0.2, h: 250 };
+
+const NEUTRAL = { brightness: 1, contrast: 1, saturation: 1 };
+
+describe('clampOklch', () => {
+  it('clamps lightness and chroma and fills in a missing hue', () => {
+    expect(clampOklch({ mode: 'oklch', l: 1.4, c: -0.1 })).toEqual({ mode: 'oklch', l: 1, c: 0, h: 0 });
+    expect(clampOklch({ mode: 'oklch', l: -0.2, c: 0.1, h: 30, alpha: 0.5 })).toEqual({ mode: 'oklch', l: 0, c: 0.1, h: 30, alpha: 0.5 });
+  });
+});
+
+describe('invert', () => {
+  const invert = getColorTransformer('invert');
+
+  it('inverts lightness and reduces chroma per role', () => {
+    expect(invert.transform(WHITE, 'background')).toMatchObject({ l: 0, c: 0 });
+    const text = invert.transform(BLUE, 'text');
+    expect(text.l).toBeCloseTo(0.4);
+    expect(text.c).toBeCloseTo(0.06);
+    expect(text.h).toBe(250);
+    expect(invert.transform(BLUE, 'stroke').c).toBeCloseTo(0.04);
+  });
+
+  it('gives buttons a fixed mid-dark background and keeps more chroma on their text', () => {
+    expect(invert.transform(WHITE, 'background', { isButton: true }).l).toBe(0.35);
+    expect(invert.transform(BLUE, 'background', { isButton: true }).c).toBeCloseTo(0.02);
+    expect(invert.transform(BLUE, 'text', { isButton: true }).c).toBeCloseTo(0.1);
+  });
+});
+
+describe('dim', () => {
+  const dim = getColorTransformer('dim');
+
+  it('maps surfaces onto a dark band, lightest originals becoming darkest', () => {
+    expect(dim.transform(WHITE, 'background').l).toBeCloseTo(0.16);
+    expect(dim.transform(BLACK, 'background').l).toBeCloseTo(0.4);
+    expect(dim.transform(BLUE, 'variable')).toMatchObject({ h: 250 });
+    expect(dim.transform(BLUE, 'variable').c).toBeCloseTo(0.16);
+  });
+
+  it('raises foregrounds into a range capped below white', () => {
+    expect(dim.transform(BLACK, 'text').l).toBeCloseTo(0.9);
+    expect(dim.transform(WHITE, 'text').l).toBeCloseTo(0.65);
+    expect(dim.transform(BLUE, 'border').c).toBeCloseTo(0.18);
+  });
+});
+
+describe('sepia', () => {
+  const sepia = getColorTransformer('sepia');
+
+  it('inverts lightness onto a warm hue with fixed chroma', () => {
+    expect(sepia.transform(WHITE, 'background')).toEqual({ mode: 'oklch', l: 0, c: 0.025, h: 70 });
+    const text = sepia.transform(BLUE, 'text');
+    expect(text.l).toBeCloseTo(0.4);
+    expect(text).toMatchObject({ c: 0.04, h: 70 });
+  });
+});
+
+describe('grayscale', () => {
+  it('inverts lightness and removes all chroma', () => {
+    const gray = getColorTransformer('grayscale').transform(BLUE, 'fill');
+    expect(gray.l).toBeCloseTo(0.4);
+    expect(gray.c).toBe(0);
+  });
+});
+
+describe('filter', () => {
+  it('leaves colors alone and inverts the page with a CSS filter', () => {
+    const filter = getColorTransformer('filter');
+    expect(filter.transform(BLUE, 'background')).toBe(BLUE);
+    expect(filter.pageFilter).toBe('invert(1) hue-rotate(180deg)');
+  });
+});
+
+describe('getColorTransformer', () => {
+  it('falls back to lightness inversion', () => {
+    expect(getColorTransformer(undefined).id).toBe('invert');
+  });
+});
+
+describe('appearance adjustments', () => {
+  it('stretches lightness around the midpoint, then scales it and the chroma', () => {
+    const adjusted = adjustOklch({ mode: 'oklch', l: 0.3, c: 0.1, h: 0 }, { brightness: 0.8, contrast: 1.5, saturation: 0.5 });
+    expect(adjusted.l).toBeCloseTo(0.16); // (0.5 + (0.3 - 0.5) * 1.5) * 0.8
+    expect(adjusted.c).toBeCloseTo(0.05);
+  });
+
+  it('returns the algorithm itself when the adjustments are neutral', () => {
+    const invert = getColorTransformer('invert');
+    expect(withAppearance(invert, NEUTRAL)).toBe(invert);
+    expect(withAppearance(invert, undefined)).toBe(invert);
+  });
+
+  it('adjusts every transformed color', () => {
+    const dimmer = withAppearance(getColorTransformer('invert'), { ...NEUTRAL, brightness: 0.5 });
+    expect(dimmer.transform(BLACK, 'text').l).toBeCloseTo(0.5);
+    expect(dimmer.pageFilter).toBeUndefined();
+  });
+
+  it('appends the matching filter functions to a page filter', () => {
+    const adjusted = withAppearance(getColorTransformer('filter'), { brightness: 0.9, contrast: 1.1, saturation: 0.8 });
+    expect(adjusted.pageFilter).toBe('invert(1) hue-rotate(180deg) brightness(0.9) contrast(1.1) saturate(0.8)');
+  });
+});
+
+describe('parsing and formatting', () => {
+  it('parses CSS colors to OKLCH', () => {
+    expect(parseToOklch('#ffffff')?.l).toBeCloseTo(1);
+    expect(parseToOklch('black')).toMatchObject({ mode: 'oklch', l: 0, c: 0 });
+  });
+
+  it('rejects unparseable and too transparent colors', () => {
+    expect(parseToOklch(undefined)).toBeNull();
+    expect(parseToOklch('not-a-color')).toBeNull();
+    expect(parseToOklch('transparent')).toBeNull();
+    expect(parseToOklch('rgba(0, 0, 0, 0.05)', 0.1)).toBeNull();
+    expect(parseToOklch('rgba(0, 0, 0, 0.5)', 0.1)?.alpha).toBe(0.5);
+  });
+
+  it('formats opaque colors as hex and translucent ones as rgba()', () => {
+    expect(formatOklch(WHITE)).toBe('#ffffff');
+    expect(formatOklch({ ...BLACK, alpha: 0.5 })).toBe('rgba(0, 0, 0, 0.5)');
+  });
+
+  it('round-trips a color through the transform helper', () => {
+    expect(transformCssColor('#ffffff', 'background', getColorTransformer('invert'))).toBe('#000000');
+    expect(transformCssColor('none', 'background', getColorTransformer('invert'))).toBeNull();
+  });
+});
@@ -0,0 +1,214 @@
+// src/lib/color-transform.ts
+// Pluggable color-transform algorithms. Every transform is a pure function of its
+// input color, so they can be unit-tested without a DOM.
+
+import * as culori from 'culori';
+import type { Appearance, TransformAlgorithm } from './schemas';
+
+// Define Oklch type to match culori's internal type structure
+export interface Oklch {
+  mode: "oklch"; // Literal type for mode
+  l: number;     // Lightness (0-1)
+  c: number;     // Chroma (0+)
+  h?: number;    // Hue (0-360), optional to match culori's type definition
+  alpha?: number; // Alpha channel (0-1), optional
+}
+
+// What a color is used for. Algorithms treat backgrounds and foregrounds differently.
+export type ColorRole = 'background' | 'text' | 'fill' | 'stroke' | 'border' | 'variable';
+
+// Extra information about the element a color belongs to
+export interface TransformContext {
+  isButton?: boolean;
+}
+
+export interface ColorTransformer {
+  id: TransformAlgorithm;
+  label: string;
+  description: string;
+  /** Maps an original color to its dark-mode counterpart. */
+  transform: (color: Oklch, role: ColorRole, context?: TransformContext) => Oklch;
+  /**
+   * When set, the algorithm works on the whole page with this CSS filter instead of
+   * rewriting individual colors, and `transform` is the identity.
+   */
+  pageFilter?: string;
+}
+
+/**
+ * Clamps lightness to [0, 1] and chroma to >= 0, and fills in a missing hue.
+ */
+export function clampOklch(color: Oklch): Oklch {
+  return {
+    mode: 'oklch',
+    l: Math.max(0, Math.min(1, color.l)),
+    c: Math.max(0, color.c),
+    h: color.h || 0, // Use 0 if hue is undefined (e.g., for grayscale)
+    ...(color.alpha !== undefined ? { alpha: color.alpha } : {}),
+  };
+}
+
+// Chroma multipliers used by the lightness inversion, per role (regular element / button)
+const INVERT_CHROMA: Record<ColorRole, [number, number]> = {
+  background: [0.3, 0.1],
+  text: [0.3, 0.5], // Less chroma reduction for button text
+  fill: [0.3, 0.4], // Less chroma reduction for button icons
+  stroke: [0.2, 0.3], // Less chroma reduction for button strokes
+  border: [0.3, 0.3],
+  variable: [0.3, 0.3],
+};
+
+/**
+ * Plain OKLCH lightness inversion with reduced chroma. Buttons get a fixed
+ * mid-dark background so they stay distinguishable from the page.
+ */
+const invertTransformer: ColorTransformer = {
+  id: 'invert',
+  label: 'Lightness inversion',
+  description: 'Inverts OKLCH lightness and mutes colors. The classic dark mode.',
+  transform(color, role, context = {}) {
+    const [regular, button] = INVERT_CHROMA[role];
+    const isButton = context.isButton ?? false;
+    const l = role === 'background' && isButton ? 0.35 : 1.0 - color.l;
+    return clampOklch({ ...color, l, c: color.c * (isButton ? button : regular) });
+  },
+};
+
+/**
+ * Hue-preserving dim: light surfaces become dark but keep most of their chroma,
+ * and foregrounds are pulled into a soft, not-quite-white range.
+ */
+const dimTransformer: ColorTransformer = {
+  id: 'dim',
+  label: 'Dim (hue-preserving)',
+  description: 'Darkens surfaces while keeping their colors. Softer than full inversion.',
+  transform(color, role) {
+    if (role === 'background' || role === 'variable') {
+      // Map [0, 1] lightness onto a dark band, lightest originals becoming darkest
+      return clampOklch({ ...color, l: 0.16 + (1 - color.l) * 0.24, c: color.c * 0.8 });
+    }
+    // Foregrounds: dark originals become light, capped below pure white
+    return clampOklch({ ...color, l: 0.9 - color.l * 0.25, c: color.c * 0.9 });
+  },
+};
+
+// Warm hue and chroma used by the sepia algorithm
+const SEPIA_HUE = 70;
+
+/**
+ * Sepia: lightness inversion with every color mapped onto a warm brown/cream hue.
+ */
+const sepiaTransformer: ColorTransformer = {
+  id: 'sepia',
+  label: 'Sepia',
+  description: 'Dark warm-brown surfaces with cream text. Easy on the eyes at night.',
+  transform(color, role) {
+    const isSurface = role === 'background' || role === 'variable';
+    return clampOklch({ ...color, l: 1.0 - color.l, c: isSurface ? 0.025 : 0.04, h: SEPIA_HUE });
+  },
+};
+
+/**
+ * Grayscale: lightness inversion with all chroma removed.
+ */
+const grayscaleTransformer: ColorTransformer = {
+  id: 'grayscale',
+  label: 'Grayscale',
+  description: 'Inverts lightness and removes all color.',
+  transform(color) {
+    return clampOklch({ ...color, l: 1.0 - color.l, c: 0 });
+  },
+};
+
+/**
+ * Whole-page CSS filter for pages that resist per-color analysis (canvas apps,
+ * heavy inline styles). Media is re-inverted by the content script.
+ */
+const filterTransformer: ColorTransformer = {
+  id: 'filter',
+  label: 'CSS filter (invert)',
+  description: 'Inverts the whole page with a CSS filter. Works everywhere, but is less accurate.',
+  transform: (color) => color,
+  pageFilter: 'invert(1) hue-rotate(180deg)',
+};
+
+// Registry of all algorithms, keyed by id
+export const COLOR_TRANSFORMERS: Record<TransformAlgorithm, ColorTransformer> = {
+  invert: invertTransformer,
+  dim: dimTransformer,
+  sepia: sepiaTransformer,
+  grayscale: grayscaleTransformer,
+  filter: filterTransformer,
+};
+
+/**
+ * Looks up an algorithm, falling back to lightness inversion.
+ */
+export function getColorTransformer(id: TransformAlgorithm | undefined): ColorTransformer {
+  return (id && COLOR_TRANSFORMERS[id]) || invertTransformer;
+}
+
+/**
+ * Applies the user's appearance adjustments to a transformed color: contrast
+ * stretches lightness around the midpoint, brightness scales it, saturation scales chroma.
+ */
+export function adjustOklch(color: Oklch, appearance: Pick<Appearance, 'brightness' | 'contrast' | 'saturation'>): Oklch {
+  const l = (0.5 + (color.l - 0.5) * appearance.contrast) * appearance.brightness;
+  return clampOklch({ ...color, l, c: color.c * appearance.saturation });
+}
+
+/**
+ * Wraps an algorithm so every color it produces gets the appearance adjustments.
+ * Filter-based algorithms get the equivalent CSS filter functions appended instead.
+ */
+export function withAppearance(
+  transformer: ColorTransformer,
+  appearance: Pick<Appearance, 'brightness' | 'contrast' | 'saturation'> | undefined,
+): ColorTransformer {
+  if (!appearance || (appearance.brightness === 1 && appearance.contrast === 1 && appearance.saturation === 1)) {
+    return transformer;
+  }
+  return {
+    ...transformer,
+    transform: (color, role, context) => adjustOklch(transformer.transform(color, role, context), appearance),
+    pageFilter: transformer.pageFilter
+      ? `${transformer.pageFilter} brightness(${appearance.brightness}) contrast(${appearance.contrast}) saturate(${appearance.saturation})`
+      : undefined,
+  };
+}
+
+/**
+ * Parses a CSS color and converts it to OKLCH. Returns null for unparseable
+ * values or colors at or below `minAlpha` (mostly transparent colors are left alone).
+ */
+export function parseToOklch(value: string | undefined, minAlpha = 0): Oklch | null {
+  if (!value) return null;
+  const parsed = culori.parse(value);
+  if (!parsed || (parsed.alpha ?? 1) <= minAlpha) return null;
+  const oklch = culori.oklch(parsed);
+  return oklch ? { ...oklch, mode: 'oklch', c: oklch.c ?? 0 } : null;
+}
+
+/**
+ * Formats an OKLCH color for CSS: hex when opaque, rgba() when translucent.
+ */
+export function formatOklch(color: Oklch): string {
+  const alpha = color.alpha ?? 1;
+  return (alpha < 1 ? culori.formatRgb(color) : culori.formatHex(color)) ?? '';
+}
+
+/**
+ * Convenience wrapper: transforms a CSS color string and formats it for CSS.
+ * Returns null when the value can't be parsed or is too transparent.
+ */
+export function transformCssColor(
+  value: string | undefined,
+  role: ColorRole,
+  transformer: ColorTransformer,
+  context?: TransformContext,
+  minAlpha = 0,
+): string | null {
+  const oklch = parseToOklch(value, minAlpha);
+  if (!oklch) return null;
+  return formatOklch(transformer.transform(oklch, role, context)) || null;
+}
@@ -0,0 +1,53 @@
+// src/lib/commands.ts
+// Keyboard commands (the manifest `commands` key). Shared by the manifest, the
+// background worker that handles them and the Options page that lists them.
+// Plain data and pure functions: the manifest is also evaluated by the build.
+
+import type { Settings } from './schemas';
+
+type Theme = Settings['theme'];
+
+interface KeyboardCommandInfo {
+  description: string;
+  // Default binding. Chrome accepts at most four suggested keys per extension;
+  // the other commands are bound by the user on the browser's shortcuts page.
+  suggestedKey?: string;
+}
+
+export const KEYBOARD_COMMANDS = {
+  'toggle-enabled': { description: 'Turn dark mode on or off everywhere', suggestedKey: 'Alt+Shift+D' },
+  'toggle-site': { description: 'Turn dark mode on or off for the current site', suggestedKey: 'Alt+Shift+S' },
+  'cycle-theme': { description: 'Switch to the next theme mode' },
+  'brightness-up': { description: 'Increase brightness', suggestedKey: 'Alt+Shift+Up' },
+  'brightness-down': { description: 'Decrease brightness', suggestedKey: 'Alt+Shift+Down' },
+  'start-break': { description: 'Start an eye break now' },
+} satisfies Record<string, KeyboardCommandInfo>;
+
+export type KeyboardCommand = keyof typeof KEYBOARD_COMMANDS;
+
+// Brightness change per key press (the setting is a factor, 1 = unchanged)
+export const BRIGHTNESS_STEP = 0.05;
+
+// Order the cycle-theme command walks through
+const THEME_CYCLE: Theme[] = ['auto', 'light', 'dark', 'schedule', 'sunset'];
+
+export function isKeyboardCommand(command: string): command is KeyboardCommand {
+  return Object.prototype.hasOwnProperty.call(KEYBOARD_COMMANDS, command);
+}
+
+/**
+ * The theme mode after `theme` in the cycle. 'sunset' is skipped while no location is set.
+ */
+export function getNextTheme(theme: Theme | undefined, hasLocation: boolean): Theme {
+  const cycle = hasLocation ? THEME_CYCLE : THEME_CYCLE.filter((mode) => mode !== 'sunset');
+  const index = cycle.indexOf(theme ?? 'auto');
+  return cycle[(index + 1) % cycle.length];
+}
+
+/**
+ * Steps a brightness factor up or down, staying within the setting's 0.5-1.5 range.
+ */
+export function stepBrightness(brightness: number, direction: 1 | -1): number {
+  const stepped = Math.round((brightness + direction * BRIGHTNESS_STEP) * 100) / 100;
+  return Math.max(0.5, Math.min(1.5, stepped));
+}
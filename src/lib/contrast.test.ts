@@ -0,0 +1,105 @@
+// src/lib/contrast.test.ts
+// WCAG and APCA measurements, target thresholds and the contrast solver.
+
+import { describe, expect, it } from 'vitest';
+import { Oklch, parseToOklch } from './color-transform';
+import { ensureContrast, getApcaContrast, getContrastRequirement, getWcagContrast, measureContrast } from './contrast';
+
+function parse(value: string): Oklch {
+  const color = parseToOklch(value);
+  if (!color) throw new Error(`Unparseable test color ${value}`);
+  return color;
+}
+
+const WHITE = parse('#ffffff');
+const BLACK = parse('#000000');
+const DARK = parse('#121212');
+
+describe('getWcagContrast', () => {
+  it('is 21 for black on white and 1 for a color on itself', () => {
+    expect(getWcagContrast(BLACK, WHITE)).toBeCloseTo(21, 1);
+    expect(getWcagContrast(WHITE, WHITE)).toBeCloseTo(1, 5);
+  });
+
+  it('is symmetric', () => {
+    expect(getWcagContrast(parse('#777777'), WHITE)).toBeCloseTo(getWcagContrast(WHITE, parse('#777777')), 10);
+    expect(getWcagContrast(parse('#767676'), WHITE)).toBeCloseTo(4.54, 2);
+  });
+});
+
+describe('getApcaContrast', () => {
+  it('is positive for dark on light and negative for light on dark', () => {
+    expect(getApcaContrast(BLACK, WHITE)).toBeCloseTo(106.04, 1);
+    expect(getApcaContrast(WHITE, BLACK)).toBeCloseTo(-107.88, 1);
+  });
+
+  it('is 0 for colors too close to tell apart', () => {
+    expect(getApcaContrast(WHITE, WHITE)).toBe(0);
+    expect(getApcaContrast(parse('#fefefe'), WHITE)).toBe(0);
+  });
+
+  it('is reported as |Lc| by measureContrast', () => {
+    expect(measureContrast(WHITE, BLACK, 'apca')).toBeCloseTo(107.88, 1);
+  });
+});
+
+describe('getContrastRequirement', () => {
+  it('uses the WCAG thresholds for text and graphics', () => {
+    expect(getContrastRequirement('AA')).toEqual({ metric: 'wcag', threshold: 4.5 });
+    expect(getContrastRequirement('AA', 'graphic')).toEqual({ metric: 'wcag', threshold: 3 });
+    expect(getContrastRequirement('AAA')).toEqual({ metric: 'wcag', threshold: 7 });
+    expect(getContrastRequirement('AAA', 'graphic')).toEqual({ metric: 'wcag', threshold: 4.5 });
+  });
+
+  it('uses the APCA Lc values', () => {
+    expect(getContrastRequirement('APCA-Lc45')).toEqual({ metric: 'apca', threshold: 45 });
+    expect(getContrastRequirement('APCA-Lc60', 'graphic')).toEqual({ metric: 'apca', threshold: 45 });
+    expect(getContrastRequirement('APCA-Lc75')).toEqual({ metric: 'apca', threshold: 75 });
+    expect(getContrastRequirement('APCA-Lc90', 'graphic')).toEqual({ metric: 'apca', threshold: 60 });
+  });
+
+  it('still measures when off', () => {
+    expect(getContrastRequirement('off')).toEqual({ metric: 'wcag', threshold: 0 });
+    expect(getContrastRequirement(undefined, 'graphic')).toEqual({ metric: 'wcag', threshold: 0 });
+  });
+});
+
+describe('ensureContrast', () => {
+  it('leaves a passing color alone', () => {
+    const result = ensureContrast(WHITE, DARK, { metric: 'wcag', threshold: 4.5 });
+    expect(result).toMatchObject({ color: WHITE, met: true, adjusted: false, required: 4.5 });
+  });
+
+  it('makes the smallest lightness change that meets the threshold', () => {
+    const dim = parse('#444444');
+    const result = ensureContrast(dim, DARK, { metric: 'wcag', threshold: 4.5 });
+    expect(result).toMatchObject({ met: true, adjusted: true });
+    expect(result.contrast).toBeGreaterThanOrEqual(4.5);
+    expect(result.contrast).toBeLessThan(4.6);
+    expect(result.color.l).toBeGreaterThan(dim.l);
+    expect(result.color.h).toBe(dim.h);
+  });
+
+  it('meets APCA thresholds', () => {
+    const result = ensureContrast(parse('#555555'), DARK, { metric: 'apca', threshold: 60 });
+    expect(result.met).toBe(true);
+    expect(measureContrast(result.color, DARK, 'apca')).toBeGreaterThanOrEqual(60);
+  });
+
+  it('raises the threshold to the floor, capped at AAA', () => {
+    const gray = parse('#aaaaaa'); // About 8:1 on the dark background
+    expect(ensureContrast(gray, DARK, { metric: 'wcag', threshold: 4.5 }, 6).required).toBe(6);
+
+    const capped = ensureContrast(parse('#666666'), DARK, { metric: 'wcag', threshold: 4.5 }, 21);
+    expect(capped.required).toBe(7);
+    expect(capped.met).toBe(true);
+    expect(capped.contrast).toBeLessThan(7.1);
+  });
+
+  it('returns the best reachable color when no lightness meets the threshold', () => {
+    const midGray = parse('#777777');
+    const result = ensureContrast(parse('#888888'), midGray, { metric: 'wcag', threshold: 7 });
+    expect(result).toMatchObject({ met: false, adjusted: true, required: 7 });
+    expect(result.contrast).toBeCloseTo(Math.max(getWcagContrast(WHITE, midGray), getWcagContrast(BLACK, midGray)), 5);
+  });
+});
@@ -0,0 +1,163 @@
+// src/lib/contrast.ts
+// Contrast measurement (WCAG 2.x ratio and APCA Lc) and a solver that nudges a
+// foreground's lightness until a target is met. Pure functions, no DOM.
+
+import * as culori from 'culori';
+import type { ContrastTarget } from './schemas';
+import type { Oklch } from './color-transform';
+
+export type ContrastMetric = 'wcag' | 'apca';
+
+// A concrete requirement: e.g. WCAG ratio >= 4.5, or APCA |Lc| >= 60
+export interface ContrastRequirement {
+  metric: ContrastMetric;
+  threshold: number;
+}
+
+export interface ContrastResult {
+  color: Oklch; // Adjusted foreground (unchanged if it already passed)
+  contrast: number; // Achieved contrast in the requirement's metric
+  required: number; // Threshold that was aimed for (after applying the floor)
+  met: boolean; // False when no lightness could reach the threshold
+  adjusted: boolean; // True when the color had to be changed
+}
+
+// Thresholds for each user-selectable target: [text, non-text graphics].
+// Non-text follows WCAG 1.4.11 (3:1) and the APCA guidance for large/non-text elements.
+const TARGET_REQUIREMENTS: Record<Exclude<ContrastTarget, 'off'>, { metric: ContrastMetric; text: number; graphic: number }> = {
+  AA: { metric: 'wcag', text: 4.5, graphic: 3 },
+  AAA: { metric: 'wcag', text: 7, graphic: 4.5 },
+  'APCA-Lc45': { metric: 'apca', text: 45, graphic: 30 },
+  'APCA-Lc60': { metric: 'apca', text: 60, graphic: 45 },
+  'APCA-Lc75': { metric: 'apca', text: 75, graphic: 45 },
+  'APCA-Lc90': { metric: 'apca', text: 90, graphic: 60 },
+};
+
+// The "never worse than the original" floor is capped at these values: beyond them
+// (AAA / Lc 90) extra contrast no longer improves readability, and pure black on
+// white (21:1) can't be reproduced on a dark background anyway.
+const FLOOR_CAP: Record<ContrastMetric, number> = { wcag: 7, apca: 90 };
+
+/**
+ * Returns the requirement for a target and kind of content. 'off' still measures
+ * (with WCAG, threshold 0) so the "never worse than the original" floor applies.
+ */
+export function getContrastRequirement(target: ContrastTarget | undefined, kind: 'text' | 'graphic' = 'text'): ContrastRequirement {
+  if (!target || target === 'off') return { metric: 'wcag', threshold: 0 };
+  const requirement = TARGET_REQUIREMENTS[target];
+  return { metric: requirement.metric, threshold: requirement[kind] };
+}
+
+/**
+ * Converts a color to gamut-clamped sRGB channels in [0, 1].
+ */
+function toClampedRgb(color: Oklch): [number, number, number] {
+  const rgb = culori.rgb(color);
+  const clamp = (value: number | undefined) => Math.max(0, Math.min(1, value ?? 0));
+  return [clamp(rgb?.r), clamp(rgb?.g), clamp(rgb?.b)];
+}
+
+/**
+ * WCAG 2.x relative luminance (0 = black, 1 = white).
+ */
+export function getRelativeLuminance(color: Oklch): number {
+  const [r, g, b] = toClampedRgb(color).map((channel) =>
+    channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4),
+  );
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2.x contrast ratio, 1 (none) to 21 (black on white). Symmetric.
+ */
+export function getWcagContrast(foreground: Oklch, background: Oklch): number {
+  const a = getRelativeLuminance(foreground);
+  const b = getRelativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * APCA (SAPC 0.0.98G-4g) lightness contrast Lc. Positive for dark text on light
+ * backgrounds, negative for light text on dark. Roughly -108 to 106.
+ */
+export function getApcaContrast(foreground: Oklch, background: Oklch): number {
+  const screenLuminance = (color: Oklch) => {
+    const [r, g, b] = toClampedRgb(color);
+    const y = 0.2126729 * Math.pow(r, 2.4) + 0.7151522 * Math.pow(g, 2.4) + 0.072175 * Math.pow(b, 2.4);
+    // Soft clamp near black
+    return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+  };
+
+  const yText = screenLuminance(foreground);
+  const yBackground = screenLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    // Dark text on light background
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  // Light text on dark background
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/**
+ * Measures contrast in a metric. APCA is reported as |Lc| so both metrics grow with contrast.
+ */
+export function measureContrast(foreground: Oklch, background: Oklch, metric: ContrastMetric): number {
+  return metric === 'wcag' ? getWcagContrast(foreground, background) : Math.abs(getApcaContrast(foreground, background));
+}
+
+/**
+ * Finds the smallest lightness change to `foreground` that meets `requirement`
+ * against `background`. The threshold is raised to `floor` (typically the
+ * contrast of the original, un-themed colors, capped at AAA / Lc 90) so the
+ * result is never less readable than the page was without EyeLove.
+ *
+ * Searches towards the end of the lightness range that is further from the
+ * background first, then the other end, and keeps the best result if neither
+ * end can reach the threshold.
+ */
+export function ensureContrast(
+  foreground: Oklch,
+  background: Oklch,
+  requirement: ContrastRequirement,
+  floor = 0,
+): ContrastResult {
+  const { metric } = requirement;
+  const required = Math.max(requirement.threshold, Math.min(floor, FLOOR_CAP[metric]));
+  const initial = measureContrast(foreground, background, metric);
+  if (initial >= required) {
+    return { color: foreground, contrast: initial, required, met: true, adjusted: false };
+  }
+
+  const withLightness = (l: number): Oklch => ({ ...foreground, l });
+  const preferLighter = background.l < 0.5;
+  const extremes = preferLighter ? [1, 0] : [0, 1];
+
+  let best: ContrastResult = { color: foreground, contrast: initial, required, met: false, adjusted: false };
+
+  for (const extreme of extremes) {
+    const extremeContrast = measureContrast(withLightness(extreme), background, metric);
+    if (extremeContrast < required) {
+      if (extremeContrast > best.contrast) {
+        best = { color: withLightness(extreme), contrast: extremeContrast, required, met: false, adjusted: true };
+      }
+      continue;
+    }
+
+    // Binary search between the current lightness and the extreme for the smallest change that passes
+    let passing = extreme;
+    let failing = foreground.l;
+    for (let i = 0; i < 16 && Math.abs(passing - failing) > 0.002; i++) {
+      const mid = (passing + failing) / 2;
+      if (measureContrast(withLightness(mid), background, metric) >= required) passing = mid;
+      else failing = mid;
+    }
+    const color = withLightness(passing);
+    return { color, contrast: measureContrast(color, background, metric), required, met: true, adjusted: true };
+  }
+
+  return best;
+}
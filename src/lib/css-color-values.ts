@@ -0,0 +1,201 @@
+// src/lib/css-color-values.ts
+// Finds and rewrites the colors inside CSS property values, e.g. every stop of a
+// gradient or every shadow in a box-shadow list. Pure string functions, no DOM.
+
+import * as culori from 'culori';
+
+// Color functions culori understands
+const COLOR_FUNCTIONS = ['rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color'];
+
+// Keywords that parse as colors but must never be rewritten
+const PRESERVED_KEYWORDS = new Set(['transparent', 'currentcolor', 'inherit', 'initial', 'unset', 'revert', 'none']);
+
+/**
+ * Finds the index of the parenthesis closing the one at `openIndex`.
+ * Returns -1 if the value is unbalanced.
+ */
+function findClosingParen(value: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    else if (value[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Calls `mapColor` for every color token in a CSS value and splices in the result.
+ * Tokens are hex colors, color functions and named colors. Everything inside
+ * `url()` and `var()` is left alone, as are keywords like `transparent`.
+ * `mapColor` returns null to keep a token unchanged.
+ *
+ * rewriteColorsInValue('linear-gradient(#fff, rgb(0 0 0 / 50%))', invert)
+ *   -> 'linear-gradient(#000000, rgba(255, 255, 255, 0.5))'
+ */
+export function rewriteColorsInValue(value: string, mapColor: (color: string) => string | null): string {
+  let result = '';
+  let i = 0;
+
+  while (i < value.length) {
+    const rest = value.slice(i);
+
+    // Function call: a color function, an opaque one (url/var) or a container (gradients, env...)
+    const fnMatch = /^([a-zA-Z-]+)\(/.exec(rest);
+    if (fnMatch) {
+      const name = fnMatch[1].toLowerCase();
+      const open = i + fnMatch[1].length;
+      const close = findClosingParen(value, open);
+      if (close === -1) return result + rest; // Unbalanced: leave the remainder untouched
+
+      const whole = value.slice(i, close + 1);
+      if (COLOR_FUNCTIONS.includes(name)) {
+        // Color functions that contain var() can't be resolved here
+        result += whole.includes('var(') ? whole : mapColor(whole) ?? whole;
+      } else if (name === 'url' || name === 'var') {
+        result += whole;
+      } else {
+        // Recurse into containers such as linear-gradient() or drop-shadow()
+        result += `${value.slice(i, open + 1)}${rewriteColorsInValue(value.slice(open + 1, close), mapColor)})`;
+      }
+      i = close + 1;
+      continue;
+    }
+
+    // Quoted strings are never colors
+    const quote = rest[0];
+    if (quote === '"' || quote === "'") {
+      const end = value.indexOf(quote, i + 1);
+      const stop = end === -1 ? value.length : end + 1;
+      result += value.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Hex color
+    const hexMatch = /^#[0-9a-fA-F]{3,8}\b/.exec(rest);
+    if (hexMatch) {
+      result += mapColor(hexMatch[0]) ?? hexMatch[0];
+      i += hexMatch[0].length;
+      continue;
+    }
+
+    // Identifier: might be a named color ('white', 'black', 'rebeccapurple')
+    const wordMatch = /^-?[a-zA-Z][a-zA-Z0-9-]*/.exec(rest);
+    if (wordMatch) {
+      const word = wordMatch[0];
+      const isColor = !PRESERVED_KEYWORDS.has(word.toLowerCase()) && culori.parse(word) !== undefined;
+      result += isColor ? mapColor(word) ?? word : word;
+      i += word.length;
+      continue;
+    }
+
+    result += value[i];
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Checks whether a CSS value contains at least one color token worth rewriting.
+ */
+export function containsColor(value: string): boolean {
+  let found = false;
+  rewriteColorsInValue(value, (color) => {
+    found = true;
+    return color;
+  });
+  return found;
+}
+
+// == Color Channels ==
+
+// Custom properties holding bare channels, used as rgb(var(--x)) or hsl(var(--x) / 50%)
+export type ColorChannelFormat = 'rgb' | 'hsl';
+
+// Three numbers separated by spaces or commas: '255 255 255', '255, 255, 255', '210 40% 98%'
+const CHANNELS_PATTERN = /^\s*(-?[\d.]+)(?:deg)?(\s*,\s*|\s+)(-?[\d.]+%?)\2(-?[\d.]+%?)\s*$/;
+
+/**
+ * Guesses the format of bare channels from their units: percentages mean HSL.
+ * Returns null when the value isn't three channels.
+ */
+export function guessColorChannelFormat(value: string): ColorChannelFormat | null {
+  const match = CHANNELS_PATTERN.exec(value);
+  if (!match) return null;
+  return match[3].endsWith('%') || match[4].endsWith('%') ? 'hsl' : 'rgb';
+}
+
+/**
+ * Calls `mapColor` for a value made of bare color channels and writes the result
+ * back as channels, keeping the separator. Returns null when the value isn't
+ * three channels or `mapColor` returns null.
+ *
+ * rewriteColorChannels('255 255 255', 'rgb', invert) -> '0 0 0'
+ */
+export function rewriteColorChannels(value: string, format: ColorChannelFormat, mapColor: (color: string) => string | null): string | null {
+  const match = CHANNELS_PATTERN.exec(value);
+  if (!match) return null;
+  const [, first, separator, second, third] = match;
+  const percent = (channel: string) => (channel.endsWith('%') ? channel : `${channel}%`);
+  const color = format === 'hsl' ? `hsl(${first} ${percent(second)} ${percent(third)})` : `rgb(${first} ${second} ${third})`;
+
+  const mapped = mapColor(color);
+  const parsed = mapped ? culori.parse(mapped) : undefined;
+  if (!parsed) return null;
+
+  const join = (channels: string[]) => channels.join(separator.includes(',') ? ', ' : ' ');
+  const round = (n: number | undefined, digits = 0) => Number((n ?? 0).toFixed(digits)).toString();
+  if (format === 'hsl') {
+    const { h, s, l } = culori.hsl(parsed);
+    return join([round(h, 1), `${round(s * 100, 1)}%`, `${round(l * 100, 1)}%`]);
+  }
+  const { r, g, b } = culori.rgb(parsed);
+  const channel = (n: number) => round(Math.min(255, Math.max(0, n * 255)));
+  return join([channel(r), channel(g), channel(b)]);
+}
+
+// url() tokens: quoted with either quote, or unquoted
+const URL_PATTERN = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)"'\s]*))\s*\)/gi;
+
+/**
+ * Calls `mapUrl` for every url() in a CSS value and splices in the result
+ * (returned unquoted; null keeps the token unchanged).
+ */
+export function rewriteUrlsInValue(value: string, mapUrl: (url: string) => string | null): string {
+  return value.replace(URL_PATTERN, (token, doubleQuoted?: string, singleQuoted?: string, bare?: string) => {
+    const url = doubleQuoted ?? singleQuoted ?? bare ?? '';
+    const mapped = mapUrl(url);
+    return mapped === null ? token : `url(${JSON.stringify(mapped)})`;
+  });
+}
+
+/**
+ * Makes every url() in a CSS value absolute, so the value can be copied into a
+ * sheet with a different base (our override sheets have the document's base).
+ */
+export function resolveCssUrls(value: string, baseUrl: string): string {
+  return rewriteUrlsInValue(value, (url) => {
+    if (!url || url.startsWith('#')) return null; // Fragment-only references (SVG filters, masks)
+    try {
+      return new URL(url, baseUrl).href;
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Counts the comma-separated layers of a list value such as background-image,
+ * ignoring commas inside functions.
+ */
+export function countCssLayers(value: string): number {
+  let depth = 0;
+  let layers = 1;
+  for (const char of value) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === ',' && depth === 0) layers++;
+  }
+  return layers;
+}
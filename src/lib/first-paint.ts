@@ -0,0 +1,113 @@
+// src/lib/first-paint.ts
+// Flash-free first paint. The background worker keeps a FirstPaintState in
+// chrome.storage.session; the document_start script resolves it for the page and
+// applies the same base palette (or page filter) main.ts applies later, so the
+// hand-off causes no second flash. Pure functions, nothing is written to the page's storage.
+
+import type { DarkHosts, FirstPaintState } from './schemas';
+import { getHostname, resolveSiteState } from './site-rules';
+import { isDarkThemeActive } from './theme-schedule';
+
+// chrome.storage.session keys
+export const FIRST_PAINT_KEY = 'firstPaint';
+export const DARK_HOSTS_KEY = 'darkHosts';
+
+// Dark hosts remembered per session; the oldest are forgotten first
+const MAX_DARK_HOSTS = 500;
+
+// On <html> while the first-paint styles are in effect; main.ts removes it once its own styles are applied
+export const FIRST_PAINT_CLASS = 'eyelove-first-paint';
+
+// On <html> while dark mode is active (targeted by main.ts's base fallbacks)
+export const ROOT_CLASS_DARK_ACTIVE = 'eyelove-dark-theme-active';
+
+// Elements the page filter is undone on, matching main.ts's media counter-filter
+export const MEDIA_SELECTOR = 'img, video, picture, canvas, iframe, embed, object, svg image';
+
+export interface FirstPaintDecision {
+  dark: boolean;
+  pageFilter: string | null; // Set for filter-based algorithms
+}
+
+/**
+ * Hashes a hostname for the dark hosts list (53-bit cyrb53, salted). Synchronous:
+ * crypto.subtle isn't available to content scripts on http:// pages.
+ *
+ * A deliberate trade-off: the document_start script has to look hosts up itself
+ * (asking the worker would wake it on every page load and delay the first paint),
+ * so the salt is stored next to the hashes in content-readable session storage.
+ * That keeps the list from being read as plain hostnames or matched against
+ * precomputed tables, but anyone who can read it can still confirm a guessed
+ * host with one hash. Only hosts found dark are listed, and only for the session.
+ */
+export function hashHostname(hostname: string, salt: string): string {
+  const text = `${salt}:${hostname}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Decides whether a page starts out dark, combining its site rule with the global
+ * flag, theme mode and warmth, the same way the content script does. Hosts found
+ * dark under the same prefers-color-scheme are left to the content script (only
+ * top-level pages are recorded, frames are always left to it).
+ *
+ * @param url The top-level page's URL
+ * @param frameUrl The frame's own URL, for documents in frames
+ */
+export function resolveFirstPaint(state: FirstPaintState, url: string, prefersDark: boolean, darkHosts: DarkHosts | null = null, frameUrl?: string): FirstPaintDecision {
+  const site = resolveSiteState(state, url, frameUrl);
+  const schemes = darkHosts ? darkHosts.hosts[hashHostname(getHostname(url), darkHosts.salt)] : undefined;
+  const alreadyDark = frameUrl === undefined && state.detectDarkPages && (schemes?.includes(prefersDark ? 'dark' : 'light') ?? false);
+  const dark = site.enabled && !alreadyDark && !state.warmthReplacesDark && isDarkThemeActive(state.theme, prefersDark, state.scheduleDark);
+  return { dark, pageFilter: state.pageFilters[site.algorithm] ?? null };
+}
+
+/**
+ * Returns the dark hosts with a detection result recorded: `isDark` under the
+ * given prefers-color-scheme.
+ */
+export function recordDarkHost(darkHosts: DarkHosts, hostname: string, prefersDark: boolean, isDark: boolean): DarkHosts {
+  const scheme = prefersDark ? ('dark' as const) : ('light' as const);
+  const key = hashHostname(hostname, darkHosts.salt);
+  const { [key]: schemes = [], ...others } = darkHosts.hosts;
+  const updated = isDark ? [...new Set([...schemes, scheme])] : schemes.filter((s) => s !== scheme);
+  if (updated.length === 0) return { ...darkHosts, hosts: others };
+  const entries = Object.entries(others).slice(-(MAX_DARK_HOSTS - 1));
+  return { ...darkHosts, hosts: { ...Object.fromEntries(entries), [key]: updated } }; // Most recent last
+}
+
+/**
+ * The first-paint CSS, scoped to FIRST_PAINT_CLASS so it stops applying as soon as
+ * the class is removed.
+ */
+export function buildFirstPaintCss(state: FirstPaintState, decision: FirstPaintDecision): string {
+  const root = `html.${FIRST_PAINT_CLASS}`;
+  if (decision.pageFilter) {
+    return `
+      ${root} {
+        filter: ${decision.pageFilter} !important;
+        background-color: #ffffff !important;
+        color-scheme: light !important;
+      }
+      ${root} :is(${MEDIA_SELECTOR}) {
+        filter: ${decision.pageFilter} !important;
+      }
+    `;
+  }
+  return `
+    ${root}, ${root} body {
+      background-color: ${state.backgroundColor} !important;
+      color: ${state.textColor} !important;
+      color-scheme: dark !important;
+    }
+  `;
+}
@@ -0,0 +1,108 @@
+// src/lib/image-analysis.ts
+// Classifies images from their pixels (RGBA, as returned by getImageData) and
+// removes white backgrounds. Pure functions over typed arrays, no DOM.
+
+export type ImageKind =
+  | 'diagram' // Mostly achromatic line art on a transparent or white background
+  | 'logo' // Graphic on an opaque white background that touches the edges
+  | 'photo'; // Everything else
+
+export interface ImageAnalysis {
+  kind: ImageKind;
+  whiteBackground: boolean; // Opaque white edges, whatever the kind (black-on-white logos are also diagrams)
+  backgroundRatio: number; // Transparent or near-white pixels, 0-1
+  achromaticRatio: number; // Share of the remaining (content) pixels without noticeable color
+  whiteBorderRatio: number; // Share of edge pixels that are opaque near-white
+}
+
+// Thresholds on 0-255 channels
+const TRANSPARENT_ALPHA = 26; // ~10% opacity
+const NEAR_WHITE = 235;
+const ACHROMATIC_SPREAD = 24; // max(r, g, b) - min(r, g, b)
+
+function isTransparent(data: Uint8ClampedArray, offset: number): boolean {
+  return data[offset + 3] < TRANSPARENT_ALPHA;
+}
+
+function isNearWhite(data: Uint8ClampedArray, offset: number): boolean {
+  return data[offset + 3] >= TRANSPARENT_ALPHA && data[offset] >= NEAR_WHITE && data[offset + 1] >= NEAR_WHITE && data[offset + 2] >= NEAR_WHITE;
+}
+
+/**
+ * Classifies an image from a (typically downscaled) RGBA sample.
+ */
+export function analyzeImagePixels(data: Uint8ClampedArray, width: number, height: number): ImageAnalysis {
+  let background = 0;
+  let content = 0;
+  let achromatic = 0;
+  let border = 0;
+  let whiteBorder = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const onEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+      if (onEdge) {
+        border++;
+        if (isNearWhite(data, offset)) whiteBorder++;
+      }
+
+      if (isTransparent(data, offset) || isNearWhite(data, offset)) {
+        background++;
+        continue;
+      }
+      content++;
+      const spread = Math.max(data[offset], data[offset + 1], data[offset + 2]) - Math.min(data[offset], data[offset + 1], data[offset + 2]);
+      if (spread < ACHROMATIC_SPREAD) achromatic++;
+    }
+  }
+
+  const total = width * height || 1;
+  const backgroundRatio = background / total;
+  const achromaticRatio = content ? achromatic / content : 1;
+  const whiteBorderRatio = border ? whiteBorder / border : 0;
+
+  const whiteBackground = backgroundRatio >= 0.3 && whiteBorderRatio >= 0.8;
+  let kind: ImageKind = 'photo';
+  if (content > 0 && backgroundRatio >= 0.5 && achromaticRatio >= 0.9) kind = 'diagram';
+  else if (whiteBackground) kind = 'logo';
+
+  return { kind, whiteBackground, backgroundRatio, achromaticRatio, whiteBorderRatio };
+}
+
+/**
+ * Makes the near-white background of an image transparent, in place. Only pixels
+ * connected to the edges are cleared (flood fill), so white inside the graphic,
+ * like the counter of a letter 'o', is kept.
+ */
+export function clearWhiteBackground(data: Uint8ClampedArray, width: number, height: number) {
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const push = (x: number, y: number) => {
+    const index = y * width + x;
+    if (visited[index]) return;
+    visited[index] = 1;
+    if (isNearWhite(data, index * 4)) stack.push(index);
+  };
+
+  for (let x = 0; x < width; x++) {
+    push(x, 0);
+    push(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    push(0, y);
+    push(width - 1, y);
+  }
+
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    data[index * 4 + 3] = 0;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x > 0) push(x - 1, y);
+    if (x < width - 1) push(x + 1, y);
+    if (y > 0) push(x, y - 1);
+    if (y < height - 1) push(x, y + 1);
+  }
+}
@@ -0,0 +1,57 @@
+// src/lib/migrations.test.ts
+// Settings schema migrations, run on raw storage contents.
+
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, SETTINGS_SCHEMA_VERSION, StoredData, UNVERSIONED_SCHEMA_VERSION, runMigrations } from './migrations';
+
+const SITE_RULES = [{ pattern: 'example.com', mode: 'off' }];
+const PROFILES = [{ id: 'night', name: 'Night', settings: { algorithm: 'dim' } }];
+
+// A version 1 install: everything in storage.sync
+function createV1Data(): StoredData {
+  return {
+    sync: { enabled: true, algorithm: 'invert', siteRules: SITE_RULES, profiles: PROFILES },
+    local: { siteFixes: [] },
+  };
+}
+
+describe('MIGRATIONS', () => {
+  it('are in version order and end at the current schema version', () => {
+    const versions = MIGRATIONS.map((migration) => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[0]).toBeGreaterThan(UNVERSIONED_SCHEMA_VERSION);
+    expect(SETTINGS_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+});
+
+describe('runMigrations', () => {
+  it('moves site rules and profiles from sync to local going from v1 to v2', () => {
+    const { data, applied } = runMigrations(createV1Data(), UNVERSIONED_SCHEMA_VERSION);
+
+    expect(applied).toContain(2);
+    expect(data.sync).toEqual({ enabled: true, algorithm: 'invert' });
+    expect(data.local).toEqual({ siteFixes: [], siteRules: SITE_RULES, profiles: PROFILES });
+  });
+
+  it('does not change its input', () => {
+    const before = createV1Data();
+    runMigrations(before, UNVERSIONED_SCHEMA_VERSION);
+    expect(before).toEqual(createV1Data());
+  });
+
+  it('keeps values already in local storage when sync has none', () => {
+    const localRules = [{ pattern: 'local.example', mode: 'dark' }];
+    const { data } = runMigrations({ sync: { enabled: false }, local: { siteRules: localRules } }, UNVERSIONED_SCHEMA_VERSION);
+
+    expect(data.sync).toEqual({ enabled: false });
+    expect(data.local).toEqual({ siteRules: localRules });
+  });
+
+  it('skips migrations at or below the stored version', () => {
+    const current = createV1Data();
+    const { data, applied } = runMigrations(current, SETTINGS_SCHEMA_VERSION);
+
+    expect(applied).toEqual([]);
+    expect(data).toBe(current);
+  });
+});
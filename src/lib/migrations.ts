@@ -0,0 +1,63 @@
+// src/lib/migrations.ts
+// Settings schema versions. Each migration takes the raw contents of both storage
+// areas from the previous version to its own; they run in order on update (see
+// src/lib/settings-store.ts). Pure functions: never drop data a later version
+// can't rebuild, move it instead.
+
+// Raw storage contents, before validation
+export interface StoredData {
+  sync: Record<string, unknown>;
+  local: Record<string, unknown>;
+}
+
+export interface Migration {
+  version: number; // The schema version this migration produces
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Version of installs that predate `schemaVersion`
+export const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/**
+ * Moves keys from chrome.storage.sync to chrome.storage.local. A value already in
+ * local storage is only replaced when sync has one.
+ */
+function moveToLocal(keys: string[]): Migration['migrate'] {
+  return ({ sync, local }) => {
+    const nextSync = { ...sync };
+    const nextLocal = { ...local };
+    for (const key of keys) {
+      if (!(key in sync)) continue;
+      nextLocal[key] = sync[key];
+      delete nextSync[key];
+    }
+    return { sync: nextSync, local: nextLocal };
+  };
+}
+
+// In version order. Append only: released migrations must never change.
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: 'Move site rules and profiles to storage.local (storage.sync allows 8 KB per item)',
+    migrate: moveToLocal(['siteRules', 'profiles']),
+  },
+];
+
+export const SETTINGS_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs the migrations after `fromVersion`, in order. Returns the migrated data
+ * and the versions that were applied.
+ */
+export function runMigrations(data: StoredData, fromVersion: number): { data: StoredData; applied: number[] } {
+  const applied: number[] = [];
+  let current = data;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    current = migration.migrate(current);
+    applied.push(migration.version);
+  }
+  return { data: current, applied };
+}
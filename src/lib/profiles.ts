@@ -0,0 +1,99 @@
+// src/lib/profiles.ts
+// Named profiles and settings files. Pure functions, shared by the background
+// worker, popup and options page.
+
+import { z } from 'zod';
+import {
+  Profile,
+  ProfileSchema,
+  ProfileSettingsSchema,
+  Settings,
+  SETTINGS_FILE_FORMAT,
+  SettingsFileSchema,
+} from './schemas';
+import { SETTINGS_SCHEMA_VERSION } from './migrations';
+
+/**
+ * Creates a profile from the current values of the settings a profile bundles.
+ */
+export function captureProfile(name: string, settings: Partial<Settings>): Profile {
+  const { theme, algorithm, appearance, siteRules } = settings;
+  return ProfileSchema.parse({ name, settings: { theme, algorithm, appearance, siteRules } });
+}
+
+/**
+ * The settings changes that apply a profile (and mark it active).
+ */
+export function getProfileChanges(profile: Profile): Partial<Settings> {
+  return { ...profile.settings, activeProfile: profile.name };
+}
+
+/**
+ * Whether the current settings still match the profile, i.e. nothing it bundles
+ * was changed since it was applied.
+ */
+export function matchesProfile(profile: Profile, settings: Partial<Settings>): boolean {
+  const current = ProfileSettingsSchema.parse({
+    theme: settings.theme,
+    algorithm: settings.algorithm,
+    appearance: settings.appearance,
+    siteRules: settings.siteRules,
+  });
+  return JSON.stringify(current) === JSON.stringify(ProfileSettingsSchema.parse(profile.settings));
+}
+
+export function findProfile(profiles: readonly Profile[], name: string): Profile | null {
+  return profiles.find((profile) => profile.name === name.trim()) ?? null;
+}
+
+/**
+ * Returns a new profile list with the profile of the same name replaced or added.
+ */
+export function upsertProfile(profiles: readonly Profile[], profile: Profile): Profile[] {
+  const index = profiles.findIndex((existing) => existing.name === profile.name);
+  if (index === -1) return [...profiles, profile];
+  return profiles.map((existing, i) => (i === index ? profile : existing));
+}
+
+/**
+ * Returns a new profile list without the profile called `name`.
+ */
+export function removeProfile(profiles: readonly Profile[], name: string): Profile[] {
+  return profiles.filter((profile) => profile.name !== name);
+}
+
+// == Settings Files ==
+
+/**
+ * Serializes settings as an exported settings file (pretty-printed JSON).
+ */
+export function createSettingsFile(settings: Partial<Settings>, now: Date = new Date()): string {
+  return JSON.stringify(
+    { format: SETTINGS_FILE_FORMAT, exportedAt: now.toISOString(), schemaVersion: SETTINGS_SCHEMA_VERSION, settings },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parses and validates an imported settings file. On failure, `error` lists the
+ * offending fields, e.g. "settings.appearance.brightness: Number must be less than or equal to 1.5".
+ */
+export function parseSettingsFile(text: string): { success: true; settings: Partial<Settings> } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'Not a JSON file' };
+  }
+  const parsed = SettingsFileSchema.safeParse(json);
+  if (!parsed.success) return { success: false, error: formatIssues(parsed.error) };
+  if ((parsed.data.schemaVersion ?? SETTINGS_SCHEMA_VERSION) > SETTINGS_SCHEMA_VERSION) {
+    return { success: false, error: 'Exported by a newer version of EyeLove; update the extension first' };
+  }
+  return { success: true, settings: parsed.data.settings };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+}
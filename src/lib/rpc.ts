@@ -0,0 +1,155 @@
+// src/lib/rpc.ts
+// Typed request/response messaging. A contract maps each action to the schemas of
+// its payload and response (see BACKGROUND_RPC and CONTENT_RPC in ./schemas). The
+// receiving side registers one handler per action with createRpcListener; senders
+// call through callBackground/callTab and get a promise of the typed response.
+// Payloads and responses are validated on both ends; failures come back as RpcError.
+
+import { z } from 'zod';
+import { BACKGROUND_RPC, CONTENT_RPC } from './schemas';
+
+export interface RpcMethod {
+  payload: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+export type RpcContract = Record<string, RpcMethod>;
+
+export type BackgroundAction = keyof typeof BACKGROUND_RPC;
+export type ContentAction = keyof typeof CONTENT_RPC;
+
+// What a sender passes (before defaults) and what a handler receives (after parsing)
+export type RpcPayloadInput<C extends RpcContract, A extends keyof C> = z.input<C[A]['payload']>;
+export type RpcPayload<C extends RpcContract, A extends keyof C> = z.infer<C[A]['payload']>;
+export type RpcResult<C extends RpcContract, A extends keyof C> = z.infer<C[A]['response']>;
+
+// The payload argument may be left out for actions whose payload accepts undefined
+type PayloadArgs<C extends RpcContract, A extends keyof C> =
+  undefined extends RpcPayloadInput<C, A> ? [payload?: RpcPayloadInput<C, A>] : [payload: RpcPayloadInput<C, A>];
+
+export type RpcHandlers<C extends RpcContract> = {
+  [A in keyof C]: (payload: RpcPayload<C, A>, sender: chrome.runtime.MessageSender) => RpcResult<C, A> | Promise<RpcResult<C, A>>;
+};
+
+export const RpcErrorCodeSchema = z.enum([
+  'invalid-request', // Not an { action, payload } object
+  'unknown-action', // No handler for the action
+  'invalid-payload',
+  'invalid-response', // The handler (or receiver) returned something the contract doesn't allow
+  'handler-error', // The handler threw
+  'no-receiver', // Nothing listens in the target (e.g. no content script on the tab)
+]);
+
+export type RpcErrorCode = z.infer<typeof RpcErrorCodeSchema>;
+
+// Envelope of every response
+const RpcResponseSchema = z.discriminatedUnion('ok', [
+  z.object({ ok: z.literal(true), result: z.unknown() }),
+  z.object({ ok: z.literal(false), error: z.object({ code: RpcErrorCodeSchema, message: z.string() }) }),
+]);
+
+type RpcResponse = z.infer<typeof RpcResponseSchema>;
+
+const RpcRequestSchema = z.object({ action: z.string(), payload: z.unknown() });
+
+export class RpcError extends Error {
+  readonly code: RpcErrorCode;
+
+  constructor(code: RpcErrorCode, message: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+  }
+}
+
+// Chrome's rejection when no frame or extension page has an onMessage listener
+const NO_RECEIVER_ERROR = 'Receiving end does not exist';
+
+function errorResponse(code: RpcErrorCode, message: string): RpcResponse {
+  return { ok: false, error: { code, message } };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// == Receiving ==
+
+/**
+ * Creates a chrome.runtime.onMessage listener that dispatches requests to `handlers`.
+ * Every request gets a response envelope, including unknown actions and invalid payloads.
+ */
+export function createRpcListener<C extends RpcContract>(contract: C, handlers: RpcHandlers<C>) {
+  return (message: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response: RpcResponse) => void): boolean => {
+    const request = RpcRequestSchema.safeParse(message);
+    if (!request.success) {
+      sendResponse(errorResponse('invalid-request', 'Expected { action, payload }'));
+      return false;
+    }
+    const { action } = request.data;
+    if (!Object.prototype.hasOwnProperty.call(contract, action)) {
+      sendResponse(errorResponse('unknown-action', `Unknown action: ${action}`));
+      return false;
+    }
+    const method = contract[action];
+    const payload = method.payload.safeParse(request.data.payload);
+    if (!payload.success) {
+      sendResponse(errorResponse('invalid-payload', `Invalid payload for ${action}: ${payload.error.issues[0]?.message}`));
+      return false;
+    }
+
+    Promise.resolve()
+      .then(() => handlers[action as keyof C](payload.data, sender))
+      .then((result) => {
+        const response = method.response.safeParse(result);
+        sendResponse(response.success
+          ? { ok: true, result: response.data }
+          : errorResponse('invalid-response', `Invalid response from ${action}: ${response.error.issues[0]?.message}`));
+      })
+      .catch((error) => sendResponse(errorResponse('handler-error', getErrorMessage(error))));
+    return true; // Async response
+  };
+}
+
+// == Sending ==
+
+async function call<C extends RpcContract, A extends keyof C & string>(
+  contract: C,
+  action: A,
+  payload: unknown,
+  deliver: (request: { action: A; payload: unknown }) => Promise<unknown>,
+): Promise<RpcResult<C, A>> {
+  let raw: unknown;
+  try {
+    raw = await deliver({ action, payload });
+  } catch (error) {
+    const message = getErrorMessage(error);
+    throw new RpcError(message.includes(NO_RECEIVER_ERROR) ? 'no-receiver' : 'handler-error', message);
+  }
+  const response = RpcResponseSchema.safeParse(raw);
+  if (!response.success) throw new RpcError('invalid-response', `Malformed response to ${action}`);
+  if (!response.data.ok) throw new RpcError(response.data.error.code, response.data.error.message);
+  const result = contract[action].response.safeParse(response.data.result);
+  if (!result.success) throw new RpcError('invalid-response', `Invalid response to ${action}: ${result.error.issues[0]?.message}`);
+  return result.data;
+}
+
+/**
+ * Calls an action of the background worker (from the popup, options page or a content script).
+ */
+export function callBackground<A extends BackgroundAction>(action: A, ...[payload]: PayloadArgs<typeof BACKGROUND_RPC, A>) {
+  return call(BACKGROUND_RPC, action, payload, (request) => chrome.runtime.sendMessage(request));
+}
+
+/**
+ * Calls an action of a tab's content script. Without `frameId`, every frame receives
+ * the request and the first response wins; pass `frameId: 0` to ask the top document.
+ */
+export function callTab<A extends ContentAction>(
+  tabId: number,
+  options: { frameId?: number },
+  action: A,
+  ...[payload]: PayloadArgs<typeof CONTENT_RPC, A>
+) {
+  return call(CONTENT_RPC, action, payload, (request) => chrome.tabs.sendMessage(tabId, request, options));
+}
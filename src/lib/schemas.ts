@@ -1,41 +1,427 @@
 // src/lib/schemas.ts
 import { z } from 'zod';
+import type { RpcContract } from './rpc';
 
 // Define Zod schemas for validation
 
-// Schema for basic settings stored in chrome.storage.sync
+// Per-site rule modes: force dark mode on, force it off, or follow the global `enabled` flag
+export const SiteRuleModeSchema = z.enum(['on', 'off', 'default']);
+
+// Color-transform algorithms (see src/lib/color-transform.ts)
+export const TransformAlgorithmSchema = z.enum(['invert', 'dim', 'sepia', 'grayscale', 'filter']);
+
+export type TransformAlgorithm = z.infer<typeof TransformAlgorithmSchema>;
+
+// Minimum contrast for restyled text: WCAG 2.x levels or APCA Lc levels (see src/lib/contrast.ts)
+export const ContrastTargetSchema = z.enum(['off', 'AA', 'AAA', 'APCA-Lc45', 'APCA-Lc60', 'APCA-Lc75', 'APCA-Lc90']);
+
+export type ContrastTarget = z.infer<typeof ContrastTargetSchema>;
+
+// Element restyling engines: 'stylesheet' rewrites the page's stylesheets into an override sheet,
+// 'inline' writes computed-style based inline styles on each element
+export const StyleEngineSchema = z.enum(['stylesheet', 'inline']);
+
+export type StyleEngine = z.infer<typeof StyleEngineSchema>;
+
+// What happens to images, video and canvas on a darkened page: 'keep' leaves them alone,
+// 'dim' darkens them, 'invert-diagrams' inverts same-origin images detected as diagrams or
+// line art, and 'logo-backgrounds' makes the white backgrounds of same-origin logos transparent
+export const MediaPolicySchema = z.enum(['keep', 'dim', 'invert-diagrams', 'logo-backgrounds']);
+
+export type MediaPolicy = z.infer<typeof MediaPolicySchema>;
+
+export const MediaSettingsSchema = z.object({
+  policy: MediaPolicySchema.default('keep'),
+  dimPercent: z.number().int().min(0).max(90).default(20), // Used by the 'dim' policy
+});
+
+export type MediaSettings = z.infer<typeof MediaSettingsSchema>;
+
+// A single per-site rule. `pattern` is a hostname pattern such as
+// 'github.com', '*.grafana.internal' (domain + subdomains) or '*' (everything).
+// Rules match the top-level page, and its frames follow it; `frames` rules also
+// match frames from their hosts embedded in any page, overriding the page's rule there.
+export const SiteRuleSchema = z.object({
+  pattern: z.string().trim().min(1),
+  mode: SiteRuleModeSchema,
+  algorithm: TransformAlgorithmSchema.optional(), // Overrides the global algorithm on matching sites
+  mediaPolicy: MediaPolicySchema.optional(), // Overrides the global media policy on matching sites
+  frames: z.boolean().optional(), // Also applies inside embedded frames from matching hosts
+});
+
+export type SiteRuleMode = z.infer<typeof SiteRuleModeSchema>;
+export type SiteRule = z.infer<typeof SiteRuleSchema>;
+
+// Time of day in 24h 'HH:MM' format
+export const TimeOfDaySchema = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+// Fixed daily dark window used by the 'schedule' theme ('20:00' -> '07:00' wraps past midnight)
+export const ScheduleSchema = z.object({
+  start: TimeOfDaySchema.default('20:00'),
+  end: TimeOfDaySchema.default('07:00'),
+});
+
+// User-entered coordinates for the 'sunset' theme (sunrise/sunset are computed offline)
+export const LocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+// Theme modes: 'light' never darkens, 'dark' always does, 'auto' follows prefers-color-scheme,
+// 'schedule' follows fixed times and 'sunset' is dark between sunset and sunrise
+export const ThemeSchema = z.enum(['light', 'dark', 'auto', 'schedule', 'sunset']);
+
+// Hex color ('#rrggbb'), as produced by <input type="color">
+export const HexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected #rrggbb');
+
+// User adjustments applied on top of every color-transform algorithm, plus the base palette
+// used for the page background, plain text and links
+export const AppearanceSchema = z.object({
+  brightness: z.number().min(0.5).max(1.5).default(1), // Scales OKLCH lightness
+  contrast: z.number().min(0.5).max(1.5).default(1), // Stretches lightness around the midpoint
+  saturation: z.number().min(0).max(2).default(1), // Scales chroma on top of the algorithm's own reduction
+  backgroundColor: HexColorSchema.default('#1a1a1a'),
+  textColor: HexColorSchema.default('#e0e0e0'),
+  linkColor: HexColorSchema.default('#9ecaed'),
+});
+
+export type Appearance = z.infer<typeof AppearanceSchema>;
+
+// Night-shift warmth filter: tints the page towards a color temperature (Kelvin).
+// `schedule` reuses the theme schedules ('schedule' = fixed times, 'sunset' = sunset to sunrise);
+// `mode` either stacks on top of dark mode or replaces it while the filter is active.
+export const WarmthSchema = z.object({
+  enabled: z.boolean().default(false),
+  temperature: z.number().int().min(1000).max(6500).default(3400),
+  intensity: z.number().min(0).max(1).default(0.6),
+  schedule: z.enum(['always', 'schedule', 'sunset']).default('always'),
+  mode: z.enum(['stack', 'replace']).default('stack'),
+});
+
+export type Warmth = z.infer<typeof WarmthSchema>;
+
+// Eye-care break reminders: after `workMinutes` of screen time, rest the eyes for `breakSeconds`
+export const BreakRemindersSchema = z.object({
+  enabled: z.boolean().default(false),
+  workMinutes: z.number().int().min(1).max(240).default(20),
+  breakSeconds: z.number().int().min(10).max(3600).default(20),
+  snoozeMinutes: z.number().int().min(1).max(60).default(5),
+});
+
+export type BreakReminders = z.infer<typeof BreakRemindersSchema>;
+
+// The 20-20-20 rule: every 20 minutes, look at something 20 feet away for 20 seconds
+export const BREAK_PRESET_20_20_20 = { workMinutes: 20, breakSeconds: 20 } as const;
+
+// How content added or restyled after the first pass is processed: in idle callbacks
+// (or per-frame slices), spending at most `budgetMs` of main-thread time per slice
+export const DynamicContentSchema = z.object({
+  scheduling: z.enum(['idle', 'frame']).default('idle'),
+  budgetMs: z.number().int().min(1).max(50).default(8),
+});
+
+export type DynamicContent = z.infer<typeof DynamicContentSchema>;
+
+// CSS custom property name, e.g. '--color-canvas-default'
+export const CssVariableNameSchema = z.string().trim().regex(/^--[\w-]+$/, 'Expected a custom property name such as --bg-color');
+
+// What a site fix changes on a page (see src/lib/site-fixes.ts). Selectors are CSS selector lists.
+export const SiteFixStylesSchema = z.object({
+  css: z.string().max(50_000).default(''), // Added to the page while dark mode is on
+  ignoreSelectors: z.array(z.string().trim().min(1)).default([]), // Elements (and their subtrees) keeping their own colors
+  invertSelectors: z.array(z.string().trim().min(1)).default([]), // Elements inverted as a whole, e.g. dark-on-transparent charts
+  cssVariables: z.array(CssVariableNameSchema).default([]), // Custom properties to transform, on top of the common ones
+});
+
+export type SiteFixStyles = z.infer<typeof SiteFixStylesSchema>;
+
+// A hand-tuned fix for the sites matching `pattern` (same patterns as site rules).
+// Bundled fixes ship with the extension; a user fix with the same pattern replaces the bundled one.
+export const SiteFixSchema = SiteFixStylesSchema.extend({
+  pattern: z.string().trim().min(1),
+});
+
+export type SiteFix = z.infer<typeof SiteFixSchema>;
+
+// The settings a named profile bundles (see src/lib/profiles.ts). Applying a profile
+// writes them over the current settings.
+export const ProfileSettingsSchema = z.object({
+  theme: ThemeSchema.default('auto'),
+  algorithm: TransformAlgorithmSchema.default('invert'),
+  appearance: AppearanceSchema.default({}),
+  siteRules: z.array(SiteRuleSchema).default([]),
+});
+
+export type ProfileSettings = z.infer<typeof ProfileSettingsSchema>;
+
+// A named profile such as 'Reading', 'Coding' or 'Presentation'
+export const ProfileSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  settings: ProfileSettingsSchema,
+});
+
+export type Profile = z.infer<typeof ProfileSchema>;
+
+// Schema for the settings, stored in chrome.storage.sync (large ones in chrome.storage.local,
+// see src/lib/settings-store.ts)
 export const SettingsSchema = z.object({
   enabled: z.boolean().default(true),
-  theme: z.enum(['light', 'dark', 'auto']).default('auto'),
+  theme: ThemeSchema.default('auto'),
+  siteRules: z.array(SiteRuleSchema).default([]),
+  schedule: ScheduleSchema.default({}),
+  location: LocationSchema.nullable().default(null),
+  algorithm: TransformAlgorithmSchema.default('invert'),
+  contrastTarget: ContrastTargetSchema.default('AA'),
+  engine: StyleEngineSchema.default('stylesheet'),
+  breakReminders: BreakRemindersSchema.default({}),
+  warmth: WarmthSchema.default({}),
+  appearance: AppearanceSchema.default({}),
+  media: MediaSettingsSchema.default({}),
+  dynamicContent: DynamicContentSchema.default({}),
+  profiles: z.array(ProfileSchema).default([]),
+  activeProfile: z.string().nullable().default(null), // Name of the profile applied last
+  siteFixes: z.array(SiteFixSchema).default([]), // User-authored fixes
+  detectDarkPages: z.boolean().default(true), // Leave pages that are already dark alone, go easy on mixed ones
+  skipCrossOriginFrames: z.boolean().default(false), // Leave embeds from other sites (video players, maps) untouched
   // Add more settings schemas here as needed
 });
 
 // Infer the TypeScript type from the schema
 export type Settings = z.infer<typeof SettingsSchema>;
 
-// Schema for messages between components
-export const MessageSchema = z.discriminatedUnion('action', [
-  z.object({ action: z.literal('getSettings') }),
-  z.object({ action: z.literal('toggleEnabled') }), // Simpler toggle action
-  z.object({ action: z.literal('setEnabled'), payload: z.object({ enabled: z.boolean() }) }),
-  z.object({ action: z.literal('setTheme'), payload: z.object({ theme: SettingsSchema.shape.theme }) }),
-  z.object({ action: z.literal('updateBodyClass'), payload: z.object({ enabled: z.boolean().optional() }) }), // Message from BG to CS
-  z.object({ action: z.literal('queryInitialState') }), // Message from CS to BG
-  // Add more message schemas
-]);
-
-export type Message = z.infer<typeof MessageSchema>;
-
-// Utility function to safely parse messages
-export function parseMessage(message: unknown): Message | null {
-   try {
-      return MessageSchema.parse(message);
-   } catch (error) {
-      if (error instanceof z.ZodError) {
-         console.error("Invalid message format:", error.errors);
-      } else {
-         console.error("Error parsing message:", error);
-      }
-      return null;
-   }
-} 
\ No newline at end of file
+// Every top-level settings key, used when reading the whole settings object from storage
+export const SETTINGS_KEYS = Object.keys(SettingsSchema.shape) as Array<keyof Settings>;
+
+// Resolved per-site state for a given page (computed by the background worker)
+export const SiteStateSchema = z.object({
+  hostname: z.string(), // Empty string for pages without a hostname (e.g. file://)
+  rule: SiteRuleSchema.nullable(), // The rule that matched, if any (a frame's own `frames` rule, for frames)
+  enabled: z.boolean(), // Final decision after combining the rule with the global flag
+  algorithm: TransformAlgorithmSchema, // Site override or the global algorithm
+  mediaPolicy: MediaPolicySchema, // Site override or the global media policy
+});
+
+export type SiteState = z.infer<typeof SiteStateSchema>;
+
+// How a page is styled: fully transformed, light touch (no page-level fallbacks), left alone
+// or switched to its own dark theme
+export const PageHandlingSchema = z.enum(['full', 'light', 'skip', 'native']);
+
+export type PageHandling = z.infer<typeof PageHandlingSchema>;
+
+// Response to 'queryInitialState': the settings plus the resolved state for the sender's document
+export const InitialStateSchema = SettingsSchema.partial().extend({
+  site: SiteStateSchema.optional(),
+  scheduleDark: z.boolean().optional(), // Current result of the 'schedule'/'sunset' theme, if one is active
+  warmthActive: z.boolean().optional(), // Whether the warmth filter is on right now (enabled and within its schedule)
+  siteFix: SiteFixStylesSchema.nullable().optional(), // Bundled and user fixes matching the sender's document, combined
+  topFrameHandling: PageHandlingSchema.nullable().optional(), // For frames: how the tab's top-level page was styled, null while unknown
+});
+
+export type InitialState = z.infer<typeof InitialStateSchema>;
+
+// Exported settings file. Keys missing from `settings` keep their current values on
+// import, so a shared team configuration can cover just part of the settings.
+export const SETTINGS_FILE_FORMAT = 'eyelove-settings';
+
+export const SettingsFileSchema = z.object({
+  format: z.literal(SETTINGS_FILE_FORMAT),
+  exportedAt: z.string().optional(), // ISO timestamp, informational
+  schemaVersion: z.number().int().optional(), // Settings schema version of the exporting install
+  settings: SettingsSchema.partial(),
+});
+
+export type SettingsFile = z.infer<typeof SettingsFileSchema>;
+
+// A stored setting that failed validation. `value` is the raw stored value, kept so
+// nothing is lost when the setting is repaired; list settings keep their valid items.
+export const SettingsIssueSchema = z.object({
+  key: z.string(),
+  error: z.string(),
+  value: z.unknown(),
+  keptItems: z.number().int().optional(), // Valid entries kept from a damaged list
+});
+
+export type SettingsIssue = z.infer<typeof SettingsIssueSchema>;
+
+// Report of damaged settings in chrome.storage.local, shown on the Options page until dismissed
+export const SettingsIssuesReportSchema = z.object({
+  detectedAt: z.number(), // Epoch milliseconds
+  issues: z.array(SettingsIssueSchema),
+});
+
+export type SettingsIssuesReport = z.infer<typeof SettingsIssuesReportSchema>;
+
+// First-paint state, precomputed by the background worker and kept in chrome.storage.session.
+// The document_start script resolves it for the page before anything is painted.
+export const FirstPaintStateSchema = z.object({
+  enabled: z.boolean(), // Global flag (site rules are resolved by the page)
+  theme: ThemeSchema,
+  scheduleDark: z.boolean().optional(),
+  warmthReplacesDark: z.boolean(), // The warmth filter is on in 'replace' mode
+  algorithm: TransformAlgorithmSchema,
+  siteRules: z.array(SiteRuleSchema),
+  backgroundColor: z.string(), // Base palette, as main.ts applies it
+  textColor: z.string(),
+  pageFilters: z.record(z.string(), z.string()), // Page filter (with appearance) for each filter-based algorithm
+  detectDarkPages: z.boolean(),
+  skipCrossOriginFrames: z.boolean(),
+});
+
+export type FirstPaintState = z.infer<typeof FirstPaintStateSchema>;
+
+// How a page looks before EyeLove touches it (see src/content-scripts/page-darkness.ts)
+export const PageDarknessSchema = z.enum(['light', 'dark', 'mixed']);
+
+export type PageDarkness = z.infer<typeof PageDarknessSchema>;
+
+// Hosts whose top-level page was found dark this session, with the prefers-color-scheme
+// values it was dark under (sites often follow the OS). Kept in chrome.storage.session so
+// the document_start script doesn't paint them dark first. Content scripts can read it,
+// so hosts are only listed by a salted hash (see hashHostname in src/lib/first-paint.ts).
+export const DarkHostsSchema = z.object({
+  salt: z.string(), // Random, per session
+  hosts: z.record(z.string(), z.array(z.enum(['light', 'dark']))), // By hostname hash
+});
+
+export type DarkHosts = z.infer<typeof DarkHostsSchema>;
+
+// Break reminder timer, kept in chrome.storage.local because the service worker can be stopped at any time.
+// Times are epoch milliseconds.
+export const BreakTimerSchema = z.object({
+  phase: z.enum(['working', 'break', 'idle']),
+  phaseEndsAt: z.number().nullable(), // End of the work interval or break (null while idle)
+  remainingMs: z.number().nullable(), // Work time left when the timer was paused for idleness
+  pausedAt: z.number().nullable(), // When the machine went idle
+});
+
+export type BreakTimer = z.infer<typeof BreakTimerSchema>;
+
+// One day of the break log
+export const BreakLogEntrySchema = z.object({
+  taken: z.number().int().default(0), // Ran out while the machine was idle or locked
+  skipped: z.number().int().default(0),
+  snoozed: z.number().int().default(0),
+  missed: z.number().int().default(0), // Ran out while the user kept working
+});
+
+export type BreakLogEntry = z.infer<typeof BreakLogEntrySchema>;
+
+// Daily break log in chrome.storage.local, keyed by local date ('YYYY-MM-DD')
+export const BreakLogSchema = z.record(z.string(), BreakLogEntrySchema);
+
+export type BreakLog = z.infer<typeof BreakLogSchema>;
+
+// Response to 'getBreakStatus'
+export const BreakStatusSchema = z.object({
+  enabled: z.boolean(),
+  timer: BreakTimerSchema.nullable(),
+  log: BreakLogSchema,
+});
+
+export type BreakStatus = z.infer<typeof BreakStatusSchema>;
+
+// Response to 'getContrastReport': how many restyled colors met the contrast target
+export const ContrastReportSchema = z.object({
+  target: ContrastTargetSchema,
+  checked: z.number(), // Text colors measured
+  adjusted: z.number(), // Text colors whose lightness had to be nudged
+  unmet: z.number(), // Elements that still miss the target (marked data-eyelove-contrast="unmet")
+});
+
+export type ContrastReport = z.infer<typeof ContrastReportSchema>;
+
+// Response to 'getPerfCounters': main-thread work done by a page's content script.
+// Counts and milliseconds accumulate since the page loaded (or the last reset).
+export const PerfCountersSchema = z.object({
+  mutationRecords: z.number(), // MutationObserver records received
+  attributeMutations: z.number(), // ... of which class/style changes
+  ignoredMutations: z.number(), // Changes that needed no work (our own inline styles, class changes under the stylesheet engine)
+  queuedNodes: z.number(), // Elements handed to the dynamic content scheduler
+  deduplicatedNodes: z.number(), // ... skipped: already queued, covered by a queued ancestor or detached
+  processedNodes: z.number(), // ... styled
+  pendingNodes: z.number(), // Waiting in the queue right now
+  slices: z.number(), // Idle callbacks / frames the scheduler ran in
+  sliceMs: z.number(), // Total time spent in them
+  longestSliceMs: z.number(),
+  fullRestyles: z.number(), // Whole-page passes (dark mode applied or settings changed)
+  fullRestyleMs: z.number(),
+  overrideRefreshes: z.number(), // Override sheet regenerations after stylesheet changes
+  overrideRefreshMs: z.number(),
+});
+
+export type PerfCounters = z.infer<typeof PerfCountersSchema>;
+
+// Response to 'getPageDarkness': what the darkness detector found (before any native theme
+// was switched on) and what was done about it
+export const PageDarknessReportSchema = z.object({
+  darkness: PageDarknessSchema,
+  handling: PageHandlingSchema,
+  nativeTheme: z.string().nullable(), // What switched the site's own dark theme on, e.g. 'prefers-color-scheme' or '.dark'
+  darkSamples: z.number(), // Background and text samples that looked dark
+  samples: z.number(),
+  colorScheme: z.string(), // Declared color-scheme (meta tag or root style), '' when none
+  siteDarkTheme: z.boolean(), // The page's stylesheets have prefers-color-scheme: dark rules
+});
+
+export type PageDarknessReport = z.infer<typeof PageDarknessReportSchema>;
+
+// == Messaging Contracts ==
+// Each action's payload and response (see src/lib/rpc.ts). Actions without a
+// payload use z.undefined(); ones without a result respond with null.
+
+const NoPayload = z.undefined();
+const NoResult = z.null();
+
+// 'updateBodyClass': the state a content script applies
+export const PageStateSchema = z.object({
+  enabled: z.boolean().optional(),
+  theme: ThemeSchema.optional(),
+  algorithm: TransformAlgorithmSchema.optional(),
+  contrastTarget: ContrastTargetSchema.optional(),
+  engine: StyleEngineSchema.optional(),
+  scheduleDark: z.boolean().optional(),
+  warmth: WarmthSchema.optional(),
+  warmthActive: z.boolean().optional(),
+  appearance: AppearanceSchema.optional(),
+  media: MediaSettingsSchema.optional(), // With the site's media policy already resolved
+  dynamicContent: DynamicContentSchema.optional(),
+  siteFix: SiteFixStylesSchema.nullable().optional(), // Combined fixes for the page (null when none match)
+  detectDarkPages: z.boolean().optional(),
+});
+
+export type PageState = z.infer<typeof PageStateSchema>;
+
+const SiteRulesResultSchema = z.object({ siteRules: z.array(SiteRuleSchema) });
+
+// Handled by the background worker (sent by the popup, options page and content scripts)
+export const BACKGROUND_RPC = {
+  getSettings: { payload: NoPayload, response: SettingsSchema.partial() },
+  toggleEnabled: { payload: NoPayload, response: z.object({ enabled: z.boolean() }) }, // Responds with the new global flag
+  setEnabled: { payload: z.object({ enabled: z.boolean() }), response: NoResult },
+  setTheme: { payload: z.object({ theme: ThemeSchema }), response: NoResult },
+  queryInitialState: { payload: NoPayload, response: InitialStateSchema }, // For the sender's tab
+  getSiteState: { payload: z.object({ url: z.string() }), response: SiteStateSchema }, // Popup asks for a page's rule
+  setSiteRule: { payload: SiteRuleSchema, response: SiteRulesResultSchema }, // Adds or replaces the rule for a pattern
+  removeSiteRule: { payload: z.object({ pattern: z.string() }), response: SiteRulesResultSchema },
+  fetchStyleSheet: { payload: z.object({ url: z.string().url() }), response: z.object({ css: z.string() }) }, // CS asks BG for a cross-origin sheet
+  setWarmth: { payload: WarmthSchema.partial(), response: WarmthSchema }, // Popup changes warmth settings
+  setAppearance: { payload: AppearanceSchema.partial(), response: AppearanceSchema }, // Popup changes appearance sliders/colors
+  getBreakStatus: { payload: NoPayload, response: BreakStatusSchema }, // Popup/Options ask for the break timer and log
+  snoozeBreak: { payload: NoPayload, response: BreakStatusSchema },
+  skipBreak: { payload: NoPayload, response: BreakStatusSchema },
+  applyProfile: { payload: z.object({ name: z.string() }), response: NoResult }, // Popup switches profiles
+  reportPageDarkness: { payload: z.object({ darkness: PageDarknessSchema, prefersDark: z.boolean() }), response: NoResult }, // Top frames report their detected darkness
+  shareTopFrameHandling: { payload: z.object({ handling: PageHandlingSchema }), response: NoResult }, // Top frames tell their tab's other frames how they styled the page
+} satisfies RpcContract;
+
+// Handled by content scripts (sent by the background worker and the popup)
+export const CONTENT_RPC = {
+  updateBodyClass: { payload: PageStateSchema, response: NoResult },
+  getContrastReport: { payload: NoPayload, response: ContrastReportSchema },
+  getPerfCounters: { payload: z.object({ reset: z.boolean().optional() }).optional(), response: PerfCountersSchema },
+  getPageDarkness: { payload: NoPayload, response: PageDarknessReportSchema.nullable() }, // Null until the page has been checked
+  setTopFrameHandling: { payload: z.object({ handling: PageHandlingSchema }), response: NoResult }, // Relayed to a tab's frames (the top frame ignores it)
+  previewSiteFix: { payload: SiteFixStylesSchema, response: NoResult }, // Options page editor: use this fix instead of the stored ones
+  endSiteFixPreview: { payload: NoPayload, response: NoResult },
+} satisfies RpcContract;
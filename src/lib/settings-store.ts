@@ -0,0 +1,188 @@
+// src/lib/settings-store.ts
+// Settings storage: which area each setting lives in, schema migrations, and
+// validation that keeps whatever is still valid. Large settings (site rules,
+// profiles, site fixes) are kept in chrome.storage.local to stay within the
+// storage.sync quotas (8 KB per item), so they don't sync between machines.
+
+import {
+  ProfileSchema,
+  SETTINGS_KEYS,
+  Settings,
+  SettingsIssue,
+  SettingsIssuesReport,
+  SettingsIssuesReportSchema,
+  SettingsSchema,
+  SiteFixSchema,
+  SiteRuleSchema,
+} from './schemas';
+import { SETTINGS_SCHEMA_VERSION, StoredData, UNVERSIONED_SCHEMA_VERSION, runMigrations } from './migrations';
+
+type SettingsKey = keyof Settings;
+
+// Settings kept in chrome.storage.local; everything else is in chrome.storage.sync
+export const LOCAL_SETTINGS_KEYS: readonly SettingsKey[] = ['siteRules', 'profiles', 'siteFixes'];
+const SYNC_SETTINGS_KEYS = SETTINGS_KEYS.filter((key) => !LOCAL_SETTINGS_KEYS.includes(key));
+
+// chrome.storage.sync key of the schema version the stored settings follow
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// chrome.storage.local keys: the damaged-settings report, and the raw settings from before the last migration
+export const SETTINGS_ISSUES_KEY = 'settingsIssues';
+export const SETTINGS_BACKUP_KEY = 'settingsBackup';
+
+// List settings are validated entry by entry, so one bad entry doesn't cost the rest
+const LIST_ITEM_SCHEMAS = {
+  siteRules: SiteRuleSchema,
+  profiles: ProfileSchema,
+  siteFixes: SiteFixSchema,
+} as const;
+
+type SettingsChanges = Partial<Record<SettingsKey, chrome.storage.StorageChange>>;
+
+/**
+ * Validates raw stored settings key by key. Invalid settings are left out (so
+ * their defaults apply) and reported; damaged lists keep their valid entries.
+ */
+export function validateStoredSettings(raw: Record<string, unknown>): { settings: Partial<Settings>; issues: SettingsIssue[] } {
+  const settings: Record<string, unknown> = {};
+  const issues: SettingsIssue[] = [];
+
+  for (const key of SETTINGS_KEYS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+
+    if (key in LIST_ITEM_SCHEMAS && Array.isArray(value)) {
+      const itemSchema = LIST_ITEM_SCHEMAS[key as keyof typeof LIST_ITEM_SCHEMAS];
+      const results = value.map((item) => itemSchema.safeParse(item));
+      const kept = results.flatMap((result) => (result.success ? [result.data] : []));
+      settings[key] = kept;
+      const failed = results.find((result) => !result.success);
+      if (failed && !failed.success) {
+        issues.push({ key, error: failed.error.issues[0]?.message ?? 'Invalid entry', value, keptItems: kept.length });
+      }
+      continue;
+    }
+
+    const result = SettingsSchema.shape[key].safeParse(value);
+    if (result.success) settings[key] = result.data;
+    else issues.push({ key, error: result.error.issues[0]?.message ?? 'Invalid value', value });
+  }
+
+  return { settings: settings as Partial<Settings>, issues };
+}
+
+/**
+ * Reads and validates every setting from both storage areas.
+ */
+export async function readSettings(): Promise<{ settings: Partial<Settings>; issues: SettingsIssue[] }> {
+  const [sync, local] = await Promise.all([
+    chrome.storage.sync.get(SYNC_SETTINGS_KEYS),
+    chrome.storage.local.get([...LOCAL_SETTINGS_KEYS]),
+  ]);
+  return validateStoredSettings({ ...sync, ...local });
+}
+
+/**
+ * Writes settings, each to its own storage area.
+ */
+export async function writeSettings(changes: Partial<Settings>) {
+  const sync: Record<string, unknown> = {};
+  const local: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    if (LOCAL_SETTINGS_KEYS.includes(key as SettingsKey)) local[key] = value;
+    else sync[key] = value;
+  }
+  if (Object.keys(local).length > 0) await chrome.storage.local.set(local);
+  if (Object.keys(sync).length > 0) await chrome.storage.sync.set(sync);
+}
+
+/**
+ * The settings changed by a chrome.storage.onChanged event, whichever area they live in.
+ */
+export function getSettingsChanges(changes: Record<string, chrome.storage.StorageChange>, areaName: string): SettingsChanges {
+  const keys = areaName === 'sync' ? SYNC_SETTINGS_KEYS : areaName === 'local' ? LOCAL_SETTINGS_KEYS : [];
+  const settingsChanges: SettingsChanges = {};
+  for (const key of keys) {
+    if (changes[key]) settingsChanges[key] = changes[key];
+  }
+  return settingsChanges;
+}
+
+// == Damaged Settings ==
+
+export async function readSettingsIssues(): Promise<SettingsIssuesReport | null> {
+  const { [SETTINGS_ISSUES_KEY]: report } = await chrome.storage.local.get(SETTINGS_ISSUES_KEY);
+  const parsed = SettingsIssuesReportSchema.safeParse(report);
+  return parsed.success ? parsed.data : null;
+}
+
+export async function clearSettingsIssues() {
+  await chrome.storage.local.remove(SETTINGS_ISSUES_KEY);
+}
+
+/**
+ * Records damaged settings in the report (raw values included), then stores the
+ * repaired values: the valid entries of damaged lists, and no value (the default)
+ * for other damaged settings. Settings already in the report are kept as first seen.
+ */
+export async function repairSettings(settings: Partial<Settings>, issues: SettingsIssue[]) {
+  if (issues.length === 0) return;
+  const report = await readSettingsIssues();
+  const known = new Set(report?.issues.map((issue) => issue.key));
+  const newIssues = issues.filter((issue) => !known.has(issue.key));
+  await chrome.storage.local.set({
+    [SETTINGS_ISSUES_KEY]: { detectedAt: report?.detectedAt ?? Date.now(), issues: [...(report?.issues ?? []), ...newIssues] },
+  });
+
+  const repaired: Partial<Settings> = {};
+  for (const { key } of issues) {
+    const settingsKey = key as SettingsKey;
+    if (settings[settingsKey] !== undefined) Object.assign(repaired, { [key]: settings[settingsKey] });
+    else if (LOCAL_SETTINGS_KEYS.includes(settingsKey)) await chrome.storage.local.remove(key);
+    else await chrome.storage.sync.remove(key);
+  }
+  await writeSettings(repaired);
+  console.warn('Repaired damaged settings (originals kept in the report):', issues.map((issue) => issue.key));
+}
+
+// == Migrations ==
+
+/**
+ * Writes the keys of `after` that differ from `before` and removes the ones it no longer has.
+ */
+async function writeArea(area: chrome.storage.StorageArea, before: Record<string, unknown>, after: Record<string, unknown>) {
+  const changed = Object.fromEntries(
+    Object.entries(after).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(before[key])),
+  );
+  const removed = Object.keys(before).filter((key) => !(key in after));
+  if (Object.keys(changed).length > 0) await area.set(changed);
+  if (removed.length > 0) await area.remove(removed);
+}
+
+/**
+ * Brings stored data up to the current schema version. The raw settings are backed
+ * up first, and moved data is written to its new area before being removed from
+ * the old one. Data from a newer version (after a downgrade) is left untouched.
+ *
+ * @returns The schema versions that were applied
+ */
+export async function migrateSettings(): Promise<number[]> {
+  const [sync, local] = await Promise.all([chrome.storage.sync.get(null), chrome.storage.local.get(null)]);
+  const storedVersion = sync[SCHEMA_VERSION_KEY];
+  const fromVersion = typeof storedVersion === 'number' ? storedVersion : UNVERSIONED_SCHEMA_VERSION;
+  if (fromVersion > SETTINGS_SCHEMA_VERSION) {
+    console.warn(`Stored settings use schema version ${fromVersion}, newer than ${SETTINGS_SCHEMA_VERSION}: not migrating`);
+    return [];
+  }
+  if (fromVersion === SETTINGS_SCHEMA_VERSION) return [];
+
+  const before: StoredData = { sync, local };
+  const { data, applied } = runMigrations(before, fromVersion);
+  const localSettings = Object.fromEntries(LOCAL_SETTINGS_KEYS.filter((key) => key in local).map((key) => [key, local[key]]));
+  await chrome.storage.local.set({ [SETTINGS_BACKUP_KEY]: { version: fromVersion, savedAt: Date.now(), sync, local: localSettings } });
+
+  await writeArea(chrome.storage.local, before.local, data.local);
+  await writeArea(chrome.storage.sync, before.sync, { ...data.sync, [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION });
+  console.info(`Migrated settings from schema version ${fromVersion} to ${SETTINGS_SCHEMA_VERSION}`);
+  return applied;
+}
@@ -0,0 +1,149 @@
+// src/lib/site-fixes.ts
+// Per-site CSS fixes for pages the generic styling gets wrong. Fixes bundled with
+// the extension are combined with the user's own (edited on the Options page); a user
+// fix replaces the bundled fix of the same pattern. Matching is shared with site rules.
+
+import { z } from 'zod';
+import { SiteFix, SiteFixSchema, SiteFixStyles } from './schemas';
+import { getHostname, matchesHostPattern, normalizeHostPattern, patternSpecificity } from './site-rules';
+
+// Fixes shipped with the extension
+export const BUNDLED_SITE_FIXES: readonly SiteFix[] = [
+  {
+    pattern: '*.github.com',
+    css: '',
+    ignoreSelectors: [],
+    invertSelectors: [],
+    cssVariables: [
+      '--button-default-bgColor-rest', '--color-btn-bg', '--color-btn-text',
+      '--color-fg-default', '--color-canvas-default', '--color-canvas-subtle',
+      '--color-accent-fg', '--color-accent-emphasis', '--color-border-default',
+    ],
+  },
+];
+
+/**
+ * The bundled fix for a pattern, if there is one.
+ */
+export function findBundledSiteFix(pattern: string): SiteFix | null {
+  const normalized = normalizeHostPattern(pattern);
+  return BUNDLED_SITE_FIXES.find((fix) => normalizeHostPattern(fix.pattern) === normalized) ?? null;
+}
+
+/**
+ * Every fix in effect: the bundled ones the user hasn't replaced, then the user's.
+ */
+export function getSiteFixes(userFixes: readonly SiteFix[]): SiteFix[] {
+  const replaced = new Set(userFixes.map((fix) => normalizeHostPattern(fix.pattern)));
+  return [...BUNDLED_SITE_FIXES.filter((fix) => !replaced.has(normalizeHostPattern(fix.pattern))), ...userFixes];
+}
+
+/**
+ * Combines the fixes matching a URL's hostname, least specific pattern first, so
+ * CSS from 'app.example.com' comes after (and wins over) CSS from '*.example.com'.
+ * Returns null when no fix matches.
+ */
+export function resolveSiteFix(userFixes: readonly SiteFix[], url: string | undefined): SiteFixStyles | null {
+  const hostname = getHostname(url);
+  if (!hostname) return null;
+  const matching = getSiteFixes(userFixes)
+    .filter((fix) => matchesHostPattern(fix.pattern, hostname))
+    .sort((a, b) => patternSpecificity(a.pattern) - patternSpecificity(b.pattern));
+  if (matching.length === 0) return null;
+
+  const unique = (values: string[]) => [...new Set(values)];
+  return {
+    css: matching.map((fix) => fix.css.trim()).filter(Boolean).join('\n\n'),
+    ignoreSelectors: unique(matching.flatMap((fix) => fix.ignoreSelectors)),
+    invertSelectors: unique(matching.flatMap((fix) => fix.invertSelectors)),
+    cssVariables: unique(matching.flatMap((fix) => fix.cssVariables)),
+  };
+}
+
+/**
+ * Returns a new fix list with the fix for `fix.pattern` replaced or added.
+ */
+export function upsertSiteFix(fixes: readonly SiteFix[], fix: SiteFix): SiteFix[] {
+  const pattern = normalizeHostPattern(fix.pattern);
+  return [...removeSiteFix(fixes, pattern), { ...fix, pattern }];
+}
+
+/**
+ * Returns a new fix list without the fix for `pattern`.
+ */
+export function removeSiteFix(fixes: readonly SiteFix[], pattern: string): SiteFix[] {
+  const normalized = normalizeHostPattern(pattern);
+  return fixes.filter((existing) => normalizeHostPattern(existing.pattern) !== normalized);
+}
+
+// == Validation ==
+// These need a DOM (Options page, content scripts)
+
+/**
+ * Whether the browser accepts a selector (list), e.g. for querySelectorAll().
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Counts the top-level rule blocks of CSS text, ignoring comments and strings.
+ * Returns null when the braces don't balance.
+ */
+function countCssBlocks(css: string): number | null {
+  const stripped = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, '""');
+  let depth = 0;
+  let blocks = 0;
+  for (const char of stripped) {
+    if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth < 0) return null;
+      if (depth === 0) blocks++;
+    }
+  }
+  return depth === 0 ? blocks : null;
+}
+
+/**
+ * Checks a fix's CSS. Browsers silently drop rules they can't parse, so the
+ * rules the browser kept are compared with the rules written.
+ */
+export function checkSiteFixCss(css: string): string | null {
+  if (!css.trim()) return null;
+  if (/@import\b/i.test(css)) return '@import is not supported';
+  const blocks = countCssBlocks(css);
+  if (blocks === null) return 'Unbalanced braces';
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(css);
+  const dropped = blocks - sheet.cssRules.length;
+  return dropped > 0 ? `${dropped} of ${blocks} rules could not be parsed` : null;
+}
+
+/**
+ * Validates a fix as edited on the Options page. Returns readable problems, empty when valid.
+ */
+export function validateSiteFix(fix: SiteFix): string[] {
+  const parsed = SiteFixSchema.safeParse(fix);
+  if (!parsed.success) return formatIssues(parsed.error);
+
+  const errors: string[] = [];
+  if (!normalizeHostPattern(parsed.data.pattern)) errors.push('pattern: Enter a host pattern such as example.com');
+  for (const key of ['ignoreSelectors', 'invertSelectors'] as const) {
+    parsed.data[key].filter((selector) => !isValidSelector(selector)).forEach((selector) => {
+      errors.push(`${key}: Invalid selector "${selector}"`);
+    });
+  }
+  const cssError = checkSiteFixCss(parsed.data.css);
+  if (cssError) errors.push(`css: ${cssError}`);
+  return errors;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
@@ -0,0 +1,148 @@
+// src/lib/site-rules.ts
+// Per-site rule matching. Pure functions, shared by the background worker, popup and options page.
+
+import type { Settings, SiteRule, SiteState } from './schemas';
+
+/**
+ * Extracts the hostname from a URL. Returns an empty string for URLs without one
+ * (file://, about:blank, data: ...) or for unparseable input.
+ */
+export function getHostname(url: string | undefined): string {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a frame's document comes from another origin than its top-level page.
+ * Frames without an origin of their own (about:blank, srcdoc) belong to their parent.
+ */
+export function isCrossOriginFrame(pageUrl: string | undefined, frameUrl: string | undefined): boolean {
+  if (!pageUrl || !frameUrl) return false;
+  try {
+    const frameOrigin = new URL(frameUrl).origin;
+    return frameOrigin !== 'null' && frameOrigin !== new URL(pageUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalizes user input into a host pattern: strips scheme, path, port and
+ * whitespace, and lowercases. 'https://Docs.Example.com/foo' -> 'docs.example.com'.
+ */
+export function normalizeHostPattern(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '') // Scheme
+    .replace(/[/?#].*$/, '') // Path, query, fragment
+    .replace(/:\d+$/, ''); // Port
+}
+
+/**
+ * Checks whether a hostname matches a pattern.
+ * - '*' matches every hostname
+ * - '*.example.com' matches 'example.com' and any of its subdomains
+ * - Any other '*' is a glob that matches within a single label ('grafana-*.corp')
+ * - Anything else must match exactly
+ */
+export function matchesHostPattern(pattern: string, hostname: string): boolean {
+  const normalized = normalizeHostPattern(pattern);
+  const host = hostname.toLowerCase();
+  if (!normalized || !host) return false;
+  if (normalized === '*') return true;
+
+  if (normalized.startsWith('*.')) {
+    const base = normalized.slice(2);
+    if (host === base || host.endsWith(`.${base}`)) return true;
+    // Fall through so patterns like '*.grafana-*.corp' still work as globs
+  }
+
+  if (!normalized.includes('*')) return normalized === host;
+
+  const regexSource = normalized
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.]*');
+  return new RegExp(`^${regexSource}$`).test(host);
+}
+
+/**
+ * Ranks how specific a pattern is so that 'app.example.com' beats '*.example.com',
+ * which in turn beats '*'. Exact patterns always win over wildcard ones.
+ */
+export function patternSpecificity(pattern: string): number {
+  const normalized = normalizeHostPattern(pattern);
+  if (normalized === '*') return 0;
+  const literalLength = normalized.replace(/\*/g, '').length;
+  return normalized.includes('*') ? literalLength : 10_000 + literalLength;
+}
+
+/**
+ * Finds the most specific rule matching a hostname, or null if none match.
+ */
+export function findSiteRule(rules: readonly SiteRule[], hostname: string): SiteRule | null {
+  let best: SiteRule | null = null;
+  let bestScore = -1;
+  for (const rule of rules) {
+    if (!matchesHostPattern(rule.pattern, hostname)) continue;
+    const score = patternSpecificity(rule.pattern);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Combines the global settings with the matching site rule for a URL.
+ * 'on' and 'off' rules override the global flag; 'default' (or no rule) follows it.
+ * A rule's algorithm, if set, overrides the global one.
+ *
+ * Frames are resolved by their top-level page's URL, so they match it. A `frames`
+ * rule for the frame's own host overrides that; without one, cross-origin frames
+ * are left alone when `skipCrossOriginFrames` is set.
+ *
+ * @param url The top-level page's URL
+ * @param frameUrl The frame's own URL, for documents in frames
+ */
+export function resolveSiteState(settings: Partial<Settings>, url: string | undefined, frameUrl?: string): SiteState {
+  const hostname = getHostname(url);
+  const globalEnabled = settings.enabled ?? true;
+  const rules = settings.siteRules ?? [];
+  const frameHostname = getHostname(frameUrl);
+  const frameRule = frameHostname ? findSiteRule(rules.filter((rule) => rule.frames), frameHostname) : null;
+  const rule = frameRule ?? (hostname ? findSiteRule(rules, hostname) : null);
+
+  let enabled = globalEnabled;
+  if (rule?.mode === 'on') enabled = true;
+  else if (rule?.mode === 'off') enabled = false;
+  if (!frameRule && settings.skipCrossOriginFrames && isCrossOriginFrame(url, frameUrl)) enabled = false;
+
+  const algorithm = rule?.algorithm ?? settings.algorithm ?? 'invert';
+  const mediaPolicy = rule?.mediaPolicy ?? settings.media?.policy ?? 'keep';
+
+  return { hostname, rule, enabled, algorithm, mediaPolicy };
+}
+
+/**
+ * Returns a new rule list with the rule for `rule.pattern` replaced or added.
+ * 'default' rules are kept: they exempt a host from a broader wildcard rule.
+ */
+export function upsertSiteRule(rules: readonly SiteRule[], rule: SiteRule): SiteRule[] {
+  const pattern = normalizeHostPattern(rule.pattern);
+  return [...removeSiteRule(rules, pattern), { ...rule, pattern }];
+}
+
+/**
+ * Returns a new rule list without the rule for `pattern`.
+ */
+export function removeSiteRule(rules: readonly SiteRule[], pattern: string): SiteRule[] {
+  const normalized = normalizeHostPattern(pattern);
+  return rules.filter((existing) => normalizeHostPattern(existing.pattern) !== normalized);
+}
@@ -0,0 +1,173 @@
+// src/lib/theme-schedule.ts
+// Theme mode decisions and schedule maths (fixed times, sunrise/sunset).
+// Pure functions: the background worker uses them to drive chrome.alarms,
+// the content script uses them to make the final light/dark decision.
+
+import type { Settings } from './schemas';
+
+type Theme = Settings['theme'];
+
+export interface ScheduleState {
+  dark: boolean; // Whether the schedule currently calls for the dark theme
+  nextChange: Date | null; // When `dark` will next flip (null if it never will)
+}
+
+export interface SunTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  polar: 'day' | 'night' | null; // Set when the sun never rises or never sets on this date
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RAD = Math.PI / 180;
+
+/**
+ * Parses 'HH:MM' (24h) into minutes since midnight. Returns null for invalid input.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Returns a copy of `date` set to `minutes` after local midnight.
+ */
+function atMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setHours(0, minutes, 0, 0);
+  return result;
+}
+
+/**
+ * Checks whether `now` falls within [start, end). Windows that wrap past midnight
+ * (e.g. 20:00 -> 07:00) are supported. An empty window (start === end) never matches.
+ */
+export function isInTimeWindow(now: Date, startMinutes: number, endMinutes: number): boolean {
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (startMinutes === endMinutes) return false;
+  if (startMinutes < endMinutes) return current >= startMinutes && current < endMinutes;
+  return current >= startMinutes || current < endMinutes;
+}
+
+/**
+ * Schedule state for a fixed daily dark window.
+ */
+export function getFixedScheduleState(now: Date, start: string, end: string): ScheduleState {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) {
+    return { dark: false, nextChange: null };
+  }
+
+  const dark = isInTimeWindow(now, startMinutes, endMinutes);
+  // The next flip is whichever boundary comes next: the end if we're inside the window, otherwise the start
+  const boundary = dark ? endMinutes : startMinutes;
+  let nextChange = atMinutes(now, boundary);
+  if (nextChange.getTime() <= now.getTime()) {
+    nextChange = atMinutes(new Date(now.getTime() + DAY_MS), boundary);
+  }
+  return { dark, nextChange };
+}
+
+/**
+ * Computes sunrise and sunset for the local calendar day of `date` at the given
+ * coordinates. Uses the standard NOAA/"suncalc" approximation (accurate to about a
+ * minute), entirely offline.
+ */
+export function getSunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  const J1970 = 2440588;
+  const J2000 = 2451545;
+  const J0 = 0.0009;
+  const obliquity = RAD * 23.4397;
+
+  // Anchor on local noon so the result belongs to the local calendar day
+  const noon = new Date(date);
+  noon.setHours(12, 0, 0, 0);
+  const days = noon.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * approxTransit);
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(obliquity));
+  const solarTransit = J2000 + approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  // Hour angle for the sun's upper limb touching the horizon (incl. refraction)
+  const h0 = RAD * -0.833;
+  const cosHourAngle = (Math.sin(h0) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, polar: 'night' };
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, polar: 'day' };
+
+  const hourAngle = Math.acos(cosHourAngle);
+  const setApprox = J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+  const julianSet = J2000 + setApprox + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const julianRise = solarTransit - (julianSet - solarTransit);
+
+  const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * DAY_MS);
+  return { sunrise: fromJulian(julianRise), sunset: fromJulian(julianSet), polar: null };
+}
+
+/**
+ * Schedule state for "dark from sunset to sunrise".
+ */
+export function getSunScheduleState(now: Date, latitude: number, longitude: number): ScheduleState {
+  const today = getSunTimes(now, latitude, longitude);
+  const tomorrowDate = new Date(now.getTime() + DAY_MS);
+
+  if (today.polar || !today.sunrise || !today.sunset) {
+    // Polar day/night: nothing changes today, re-evaluate after local midnight
+    return { dark: today.polar === 'night', nextChange: atMinutes(tomorrowDate, 0) };
+  }
+
+  const time = now.getTime();
+  if (time < today.sunrise.getTime()) return { dark: true, nextChange: today.sunrise };
+  if (time < today.sunset.getTime()) return { dark: false, nextChange: today.sunset };
+
+  const tomorrow = getSunTimes(tomorrowDate, latitude, longitude);
+  return { dark: true, nextChange: tomorrow.sunrise ?? atMinutes(tomorrowDate, MINUTES_PER_DAY / 2) };
+}
+
+/**
+ * Schedule state for the scheduled theme modes. Returns null for modes that are not
+ * time-driven ('light', 'dark', 'auto'). Sunset mode without a location falls back
+ * to the fixed schedule so it still does something sensible.
+ */
+export function getScheduleState(settings: Partial<Settings>, now: Date = new Date()): ScheduleState | null {
+  const schedule = settings.schedule ?? { start: '20:00', end: '07:00' };
+  if (settings.theme === 'schedule') {
+    return getFixedScheduleState(now, schedule.start, schedule.end);
+  }
+  if (settings.theme === 'sunset') {
+    if (settings.location) {
+      return getSunScheduleState(now, settings.location.latitude, settings.location.longitude);
+    }
+    return getFixedScheduleState(now, schedule.start, schedule.end);
+  }
+  return null;
+}
+
+/**
+ * Final light/dark decision for a theme mode.
+ * @param prefersDark Current `prefers-color-scheme: dark` match (only known in documents)
+ * @param scheduleDark Schedule result computed by the background worker
+ */
+export function isDarkThemeActive(theme: Theme | undefined, prefersDark: boolean, scheduleDark: boolean | undefined): boolean {
+  switch (theme) {
+    case 'light':
+      return false;
+    case 'dark':
+      return true;
+    case 'schedule':
+    case 'sunset':
+      return scheduleDark ?? true;
+    case 'auto':
+    default:
+      return prefersDark;
+  }
+}
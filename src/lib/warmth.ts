@@ -0,0 +1,71 @@
+// src/lib/warmth.ts
+// Night-shift warmth filter: color temperature maths and the SVG feColorMatrix
+// filter the content script puts on the page. Pure functions, no DOM.
+
+import type { Settings, Warmth } from './schemas';
+import { getScheduleState, ScheduleState } from './theme-schedule';
+
+// Id of the <filter> element inside the generated SVG
+const WARMTH_FILTER_ID = 'eyelove-warmth';
+
+/**
+ * Approximate sRGB color of a black-body light source (Tanner Helland's fit,
+ * good from 1000 K to 40000 K), as channel multipliers in [0, 1].
+ */
+export function kelvinToRgb(kelvin: number): [number, number, number] {
+  const t = kelvin / 100;
+  const clamp = (value: number) => Math.max(0, Math.min(255, value)) / 255;
+
+  const red = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const green = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  let blue: number;
+  if (t >= 66) blue = 255;
+  else if (t <= 19) blue = 0;
+  else blue = 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  return [clamp(red), clamp(green), clamp(blue)];
+}
+
+/**
+ * Per-channel multipliers for a temperature at an intensity (0 = no change,
+ * 1 = the full black-body tint). Normalized so the strongest channel stays at 1.
+ */
+export function getWarmthMultipliers(temperature: number, intensity: number): [number, number, number] {
+  const rgb = kelvinToRgb(temperature);
+  const max = Math.max(...rgb) || 1;
+  const amount = Math.max(0, Math.min(1, intensity));
+  return rgb.map((channel) => 1 - amount * (1 - channel / max)) as [number, number, number];
+}
+
+/**
+ * CSS `filter` value for the warmth settings: a data-URL SVG with a diagonal
+ * feColorMatrix. Works in sRGB so the tint matches what night-light tools do.
+ */
+export function buildWarmthFilter(warmth: Pick<Warmth, 'temperature' | 'intensity'>): string {
+  const [r, g, b] = getWarmthMultipliers(warmth.temperature, warmth.intensity).map((value) => value.toFixed(4));
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg"><filter id="${WARMTH_FILTER_ID}" color-interpolation-filters="sRGB">` +
+    `<feColorMatrix type="matrix" values="${r} 0 0 0 0 0 ${g} 0 0 0 0 0 ${b} 0 0 0 0 0 1 0"/>` +
+    `</filter></svg>`;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}#${WARMTH_FILTER_ID}")`;
+}
+
+/**
+ * Schedule state for the warmth filter, or null when it isn't time-driven
+ * (disabled, or 'always'). Shares the fixed times and location with the theme schedules.
+ */
+export function getWarmthScheduleState(settings: Partial<Settings>, now: Date = new Date()): ScheduleState | null {
+  const warmth = settings.warmth;
+  if (!warmth?.enabled || warmth.schedule === 'always') return null;
+  return getScheduleState({ ...settings, theme: warmth.schedule }, now);
+}
+
+/**
+ * Whether the warmth filter should be on right now.
+ */
+export function isWarmthActive(settings: Partial<Settings>, now: Date = new Date()): boolean {
+  if (!settings.warmth?.enabled) return false;
+  return getWarmthScheduleState(settings, now)?.dark ?? true;
+}
@@ -1,9 +1,22 @@
 // src/manifest.ts
 import pkg from '../package.json';
+import { KEYBOARD_COMMANDS } from './lib/commands';
 
 // Define the Manifest V3 object type explicitly for clarity
 type ManifestV3 = chrome.runtime.ManifestV3;
 
+type ContentScript = NonNullable<ManifestV3['content_scripts']>[number];
+
+// The attachShadow hook has to run in the page's main world before any page script.
+// @types/chrome doesn't know the `world` key yet (Chrome 111+).
+const shadowHookScript: ContentScript & { world: 'MAIN' } = {
+  js: ['src/content-scripts/shadow-hook.ts'],
+  matches: ['<all_urls>'],
+  run_at: 'document_start',
+  all_frames: true,
+  world: 'MAIN',
+};
+
 // Function to generate the Manifest V3 object
 export function getManifest(): ManifestV3 {
   // Just return the plain manifest object
@@ -29,16 +42,23 @@ export function getManifest(): ManifestV3 {
     },
     options_page: 'src/pages/options/index.html',
     content_scripts: [
+      // Injected in this order: the channel script hands the hook its event name
+      shadowHookScript,
+      {
+        js: ['src/content-scripts/shadow-root-channel.ts'],
+        matches: ['<all_urls>'],
+        run_at: 'document_start',
+        all_frames: true,
+      },
       {
         js: ['src/content-scripts/fouc-handler.ts'],
-        css: ['src/styles/fouc-prevention.css'],
         matches: ['<all_urls>'],
         run_at: 'document_start',
-        all_frames: false,
+        all_frames: true, // Frames start out dark along with their page
       },
       {
         js: ['src/content-scripts/main.ts'],
-        css: ['src/styles/main.css'],
+        // No static CSS: the base palette is part of the generated override sheet (see buildOverrideCss in main.ts)
         matches: ['<all_urls>'],
         run_at: 'document_idle',
         all_frames: true,
@@ -49,7 +69,8 @@ export function getManifest(): ManifestV3 {
       'scripting',
       'alarms',
       'activeTab',
-      // 'notifications',
+      'notifications',
+      'idle',
       // 'offscreen',
     ],
     host_permissions: [
@@ -69,7 +90,12 @@ export function getManifest(): ManifestV3 {
       }
     ],
     // content_security_policy: { /* ... */ },
-    // commands: { /* ... */ },
+    commands: Object.fromEntries(
+      Object.entries(KEYBOARD_COMMANDS).map(([name, { description, ...command }]) => [
+        name,
+        'suggestedKey' in command ? { description, suggested_key: { default: command.suggestedKey } } : { description },
+      ]),
+    ),
     // minimum_chrome_version: '100', // Example
   };
 }
\ No newline at end of file
@@ -1,22 +1,143 @@
-import React, { useState, useEffect } from 'react';
-import { SettingsSchema, Settings } from '~/lib/schemas.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  SETTINGS_KEYS,
+  SettingsSchema,
+  Settings,
+  SiteRule,
+  SiteRuleMode,
+  Profile,
+  SettingsIssuesReport,
+  TransformAlgorithm,
+  ContrastTarget,
+  StyleEngine,
+  BreakReminders,
+  BreakLog,
+  BREAK_PRESET_20_20_20,
+  Appearance,
+  AppearanceSchema,
+  MediaPolicy,
+  MediaSettings,
+  DynamicContent,
+} from '~/lib/schemas.ts';
+import { getBreakLogEntry } from '~/lib/break-reminders.ts';
+import AppearanceControls from '~/pages/shared/AppearanceControls.tsx';
+import SiteFixEditor from '~/pages/options/SiteFixEditor.tsx';
+import { COLOR_TRANSFORMERS, getColorTransformer } from '~/lib/color-transform.ts';
+import { normalizeHostPattern, upsertSiteRule, removeSiteRule } from '~/lib/site-rules.ts';
+import { KEYBOARD_COMMANDS } from '~/lib/commands.ts';
+import {
+  clearSettingsIssues,
+  getSettingsChanges,
+  readSettings,
+  readSettingsIssues,
+  repairSettings,
+  validateStoredSettings,
+  writeSettings,
+} from '~/lib/settings-store.ts';
+import { callBackground } from '~/lib/rpc.ts';
+import { captureProfile, createSettingsFile, getProfileChanges, parseSettingsFile, removeProfile, upsertProfile } from '~/lib/profiles.ts';
+
+const DEFAULT_APPEARANCE = AppearanceSchema.parse({});
+
+// Compares setting values (plain JSON data)
+function isSameSetting(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Object-valued settings (appearance, media...) are compared and merged field by field
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * What to save for a setting edited in the form: for objects, the stored value with
+ * only the fields edited here replaced (fields changed elsewhere meanwhile are kept);
+ * otherwise the form value. Undefined when nothing was edited.
+ */
+function getSavedValue(formValue: unknown, storedValue: unknown): unknown {
+  if (isSameSetting(formValue, storedValue)) return undefined;
+  if (!isPlainObject(formValue) || !isPlainObject(storedValue)) return formValue;
+  const edited = Object.keys(formValue).filter((field) => !isSameSetting(formValue[field], storedValue[field]));
+  return { ...storedValue, ...Object.fromEntries(edited.map((field) => [field, formValue[field]])) };
+}
+
+/**
+ * Applies a setting changed elsewhere to the form value: what still matches the
+ * previously stored value takes the new one, field by field for objects, and
+ * edits made here are kept.
+ */
+function mergeStoredChange(formValue: unknown, previousValue: unknown, newValue: unknown): unknown {
+  if (isSameSetting(formValue, previousValue)) return newValue;
+  if (!isPlainObject(formValue) || !isPlainObject(previousValue) || !isPlainObject(newValue)) return formValue;
+  const merged = { ...formValue };
+  for (const field of new Set([...Object.keys(previousValue), ...Object.keys(newValue)])) {
+    if (isSameSetting(formValue[field], previousValue[field])) merged[field] = newValue[field];
+  }
+  return merged;
+}
+
+// Media policy choices, shared by the global select and the per-site rule selects
+const MEDIA_POLICY_OPTIONS: Array<{ value: MediaPolicy; label: string }> = [
+  { value: 'keep', label: 'Leave as is' },
+  { value: 'dim', label: 'Dim' },
+  { value: 'invert-diagrams', label: 'Invert diagrams and line art' },
+  { value: 'logo-backgrounds', label: 'Remove white logo backgrounds' },
+];
+
+// Shown until chrome.commands reports the actual bindings
+const DEFAULT_SHORTCUTS: chrome.commands.Command[] = Object.entries(KEYBOARD_COMMANDS).map(([name, { description }]) => ({
+  name,
+  description,
+  shortcut: '',
+}));
 
 function Options() {
   const [settings, setSettings] = useState<Partial<Settings>>({
     enabled: true,
     theme: 'auto',
+    siteRules: [],
+    schedule: { start: '20:00', end: '07:00' },
+    location: null,
+    algorithm: 'invert',
+    contrastTarget: 'AA',
+    engine: 'stylesheet',
+    breakReminders: { enabled: false, workMinutes: 20, breakSeconds: 20, snoozeMinutes: 5 },
+    appearance: DEFAULT_APPEARANCE,
+    media: { policy: 'keep', dimPercent: 20 },
+    dynamicContent: { scheduling: 'idle', budgetMs: 8 },
+    profiles: [],
+    activeProfile: null,
+    siteFixes: [],
+    detectDarkPages: true,
+    skipCrossOriginFrames: false,
   });
+  const [breakLog, setBreakLog] = useState<BreakLog>({});
+  const [shortcuts, setShortcuts] = useState<chrome.commands.Command[]>(DEFAULT_SHORTCUTS);
+  const [newRulePattern, setNewRulePattern] = useState('');
+  const [newRuleMode, setNewRuleMode] = useState<SiteRuleMode>('off');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [settingsIssues, setSettingsIssues] = useState<SettingsIssuesReport | null>(null);
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; message: string } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  // The stored settings the form started from, kept up to date with changes made elsewhere
+  // (popup, keyboard shortcuts, profiles). Settings that still match are the ones not edited here.
+  const storedSettings = useRef<Partial<Settings>>({});
+  // The coordinate fields as typed (partial input isn't a location yet)
+  const [locationText, setLocationText] = useState({ latitude: '', longitude: '' });
 
   // Load settings on mount
   useEffect(() => {
     const loadSettings = async () => {
       try {
         if (chrome.storage?.sync) {
-          const result = await chrome.storage.sync.get(['enabled', 'theme']);
-          setSettings(SettingsSchema.partial().parse(result));
+          const { settings: stored, issues } = await readSettings();
+          // Damaged settings are repaired now, so saving the form can't write them back
+          await repairSettings(stored, issues);
+          storedSettings.current = stored;
+          setSettings(stored);
+          setSettingsIssues(await readSettingsIssues());
         }
       } catch (error) {
         console.error('Error loading settings:', error);
@@ -26,8 +147,50 @@ function Options() {
     };
 
     loadSettings();
+
+    // Settings changed elsewhere show up in the form, unless they were edited here
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      const changedKeys = Object.keys(getSettingsChanges(changes, areaName)) as Array<keyof Settings>;
+      if (changedKeys.length === 0) return;
+      const raw = Object.fromEntries(changedKeys.map((key) => [key, changes[key].newValue]));
+      const { settings: updates } = validateStoredSettings(raw); // Removed or invalid values are left out (defaults)
+      const previous = storedSettings.current;
+      storedSettings.current = { ...previous, ...Object.fromEntries(changedKeys.map((key) => [key, updates[key]])) };
+      setSettings((prev: Partial<Settings>) => {
+        const next: Partial<Settings> = { ...prev };
+        for (const key of changedKeys) {
+          Object.assign(next, { [key]: mergeStoredChange(prev[key], previous[key], updates[key]) });
+        }
+        return next;
+      });
+    };
+    chrome.storage?.onChanged.addListener(handleStorageChange);
+
+    // The break log is kept by the background worker
+    if (chrome.runtime?.id) {
+      callBackground('getBreakStatus')
+        .then((status) => setBreakLog(status.log))
+        .catch((error) => console.error('Error fetching break status:', error));
+    }
+
+    // Bindings are chosen by the user on the browser's shortcuts page
+    chrome.commands?.getAll().then((commands) => {
+      setShortcuts(commands.filter((command) => command.name && command.name in KEYBOARD_COMMANDS));
+    });
+
+    return () => chrome.storage?.onChanged.removeListener(handleStorageChange);
   }, []);
 
+  // Show the location when it's loaded or changed elsewhere, unless the fields already say the same
+  useEffect(() => {
+    const location = settings.location ?? null;
+    setLocationText((prev) => {
+      const typed = prev.latitude === '' && prev.longitude === '' ? null : { latitude: Number(prev.latitude), longitude: Number(prev.longitude) };
+      if (isSameSetting(typed, location)) return prev;
+      return location ? { latitude: String(location.latitude), longitude: String(location.longitude) } : { latitude: '', longitude: '' };
+    });
+  }, [settings.location]);
+
   // Save settings when changed
   const handleSave = async () => {
     setIsSaving(true);
@@ -35,7 +198,16 @@ function Options() {
 
     try {
       if (chrome.storage?.sync) {
-        await chrome.storage.sync.set(settings);
+        // Only the settings (and fields) edited here are written, so changes made elsewhere while
+        // the page was open aren't reverted. Validate before writing so out-of-range coordinates
+        // or bad times never reach storage.
+        const edited = SETTINGS_KEYS.flatMap((key) => {
+          const value = settings[key] === undefined ? undefined : getSavedValue(settings[key], storedSettings.current[key]);
+          return value === undefined ? [] : [[key, value] as const];
+        });
+        const changes = SettingsSchema.partial().parse(Object.fromEntries(edited));
+        if (edited.length > 0) await writeSettings(changes);
+        storedSettings.current = { ...storedSettings.current, ...changes };
         setSaveStatus('success');
         setTimeout(() => setSaveStatus('idle'), 2000);
       }
@@ -53,11 +225,160 @@ function Options() {
     setSettings((prev: Partial<Settings>) => ({ ...prev, theme: value }));
   };
 
+  // Handle fixed schedule times
+  const handleScheduleChange = (field: 'start' | 'end') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setSettings((prev: Partial<Settings>) => ({
+      ...prev,
+      schedule: { start: '20:00', end: '07:00', ...prev.schedule, [field]: value },
+    }));
+  };
+
+  // Handle latitude/longitude for the sunset schedule. Both are needed, so the text is
+  // kept as typed until both fields hold numbers; clearing both removes the location.
+  const handleLocationChange = (field: 'latitude' | 'longitude') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const text = { ...locationText, [field]: event.target.value };
+    setLocationText(text);
+    const latitude = text.latitude === '' ? NaN : Number(text.latitude);
+    const longitude = text.longitude === '' ? NaN : Number(text.longitude);
+    if (text.latitude === '' && text.longitude === '') {
+      setSettings((prev: Partial<Settings>) => ({ ...prev, location: null }));
+    } else if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      setSettings((prev: Partial<Settings>) => ({ ...prev, location: { latitude, longitude } }));
+    }
+  };
+
   // Handle enable/disable toggle
   const handleEnabledChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setSettings((prev: Partial<Settings>) => ({ ...prev, enabled: event.target.checked }));
   };
 
+  // Handle global color algorithm change
+  const handleAlgorithmChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as TransformAlgorithm;
+    setSettings((prev: Partial<Settings>) => ({ ...prev, algorithm: value }));
+  };
+
+  // Handle contrast target change
+  const handleContrastTargetChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as ContrastTarget;
+    setSettings((prev: Partial<Settings>) => ({ ...prev, contrastTarget: value }));
+  };
+
+  // Handle styling engine change
+  const handleEngineChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as StyleEngine;
+    setSettings((prev: Partial<Settings>) => ({ ...prev, engine: value }));
+  };
+
+  // Handle appearance sliders and palette colors
+  const handleAppearanceChange = (changes: Partial<Appearance>) => {
+    setSettings((prev: Partial<Settings>) => ({ ...prev, appearance: { ...DEFAULT_APPEARANCE, ...prev.appearance, ...changes } }));
+  };
+
+  // Handle media policy and dim level
+  const handleMediaChange = (changes: Partial<MediaSettings>) => {
+    setSettings((prev: Partial<Settings>) => ({ ...prev, media: { policy: 'keep', dimPercent: 20, ...prev.media, ...changes } }));
+  };
+
+  // Handle dynamic content scheduling. The budget may be out of range until saved (validated on save).
+  const handleDynamicContentChange = (changes: Partial<DynamicContent>) => {
+    setSettings((prev: Partial<Settings>) => ({
+      ...prev,
+      dynamicContent: { scheduling: 'idle', budgetMs: 8, ...prev.dynamicContent, ...changes },
+    }));
+  };
+
+  // Handle break reminder fields. Number inputs may hold out-of-range values until saved (validated on save).
+  const handleBreakRemindersChange = (changes: Partial<BreakReminders>) => {
+    setSettings((prev: Partial<Settings>) => ({
+      ...prev,
+      breakReminders: { enabled: false, workMinutes: 20, breakSeconds: 20, snoozeMinutes: 5, ...prev.breakReminders, ...changes },
+    }));
+  };
+
+  // Handle site rule edits (saved together with the other settings)
+  const handleSiteRuleChange = (rule: SiteRule) => {
+    setSettings((prev: Partial<Settings>) => ({ ...prev, siteRules: upsertSiteRule(prev.siteRules ?? [], rule) }));
+  };
+
+  const handleSiteRuleRemove = (pattern: string) => {
+    setSettings((prev: Partial<Settings>) => ({ ...prev, siteRules: removeSiteRule(prev.siteRules ?? [], pattern) }));
+  };
+
+  const handleSiteRuleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const pattern = normalizeHostPattern(newRulePattern);
+    if (!pattern) return;
+    handleSiteRuleChange({ pattern, mode: newRuleMode });
+    setNewRulePattern('');
+  };
+
+  // Saves the current theme, algorithm, appearance and site rules under a name (replacing a profile of that name)
+  const handleProfileSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newProfileName.trim();
+    if (!name) return;
+    setSettings((prev: Partial<Settings>) => ({
+      ...prev,
+      profiles: upsertProfile(prev.profiles ?? [], captureProfile(name, prev)),
+      activeProfile: name,
+    }));
+    setNewProfileName('');
+  };
+
+  const handleProfileApply = (profile: Profile) => {
+    setSettings((prev: Partial<Settings>) => ({ ...prev, ...getProfileChanges(profile) }));
+  };
+
+  const handleProfileRemove = (name: string) => {
+    setSettings((prev: Partial<Settings>) => ({
+      ...prev,
+      profiles: removeProfile(prev.profiles ?? [], name),
+      activeProfile: prev.activeProfile === name ? null : prev.activeProfile,
+    }));
+  };
+
+  // Downloads a JSON file, e.g. exported settings or the damaged-settings report
+  const downloadJson = (json: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleIssuesDismiss = async () => {
+    await clearSettingsIssues();
+    setSettingsIssues(null);
+  };
+
+  // Downloads the saved settings as a JSON file
+  const handleExport = async () => {
+    try {
+      const { settings: stored } = await readSettings();
+      downloadJson(createSettingsFile(stored), 'eyelove-settings.json');
+    } catch (error) {
+      console.error('Error exporting settings:', error);
+      setImportStatus({ ok: false, message: 'Could not export settings.' });
+    }
+  };
+
+  // Loads a settings file into the form; nothing is stored until the user saves
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    const result = parseSettingsFile(await file.text());
+    if (!result.success) {
+      setImportStatus({ ok: false, message: `Invalid settings file: ${result.error}` });
+      return;
+    }
+    setSettings((prev: Partial<Settings>) => ({ ...prev, ...result.settings }));
+    setImportStatus({ ok: true, message: `Imported ${Object.keys(result.settings).length} settings from ${file.name}. Review them and click Save Settings.` });
+  };
+
   if (isLoading) {
     return <div className="p-8 text-center">Loading settings...</div>;
   }
@@ -65,6 +386,33 @@ function Options() {
   return (
     <div className="max-w-2xl mx-auto p-8">
       <h1 className="text-2xl font-bold mb-6">EyeLove Extension Settings</h1>
+
+      {settingsIssues && (
+        <div role="alert" className="mb-6 p-3 border border-red-300 bg-red-50 rounded-md text-sm space-y-2">
+          <p className="font-medium text-red-700">Some stored settings were damaged and have been repaired.</p>
+          <ul className="list-disc pl-5">
+            {settingsIssues.issues.map((issue) => (
+              <li key={issue.key}>
+                <code>{issue.key}</code>: {issue.error}
+                {issue.keptItems !== undefined ? ` (${issue.keptItems} valid entries kept)` : ' (reset to the default)'}
+              </li>
+            ))}
+          </ul>
+          <p>The original values are in the report. Download it before dismissing if you want to recover them.</p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => downloadJson(JSON.stringify(settingsIssues, null, 2), 'eyelove-damaged-settings.json')}
+              className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300"
+            >
+              Download report
+            </button>
+            <button type="button" onClick={handleIssuesDismiss} className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
       
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -93,9 +441,516 @@ function Options() {
             <option value="light">Light</option>
             <option value="dark">Dark</option>
             <option value="auto">Auto (System Preference)</option>
+            <option value="schedule">Scheduled (Fixed Times)</option>
+            <option value="sunset">Sunset to Sunrise</option>
           </select>
         </div>
 
+        {(settings.theme === 'schedule' || (settings.theme === 'sunset' && !settings.location)) && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {settings.theme === 'sunset'
+                ? 'Enter your location below. Until then, dark mode follows these fixed times.'
+                : 'Dark mode is active between these times (the range may wrap past midnight).'}
+            </p>
+            <div className="flex gap-4">
+              <label className="flex-1 text-sm">
+                Dark from
+                <input
+                  type="time"
+                  value={settings.schedule?.start ?? '20:00'}
+                  onChange={handleScheduleChange('start')}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+              </label>
+              <label className="flex-1 text-sm">
+                Light from
+                <input
+                  type="time"
+                  value={settings.schedule?.end ?? '07:00'}
+                  onChange={handleScheduleChange('end')}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {settings.theme === 'sunset' && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Sunrise and sunset are calculated on this device from your coordinates. Nothing is sent anywhere.
+            </p>
+            <div className="flex gap-4">
+              <label className="flex-1 text-sm">
+                Latitude
+                <input
+                  type="number"
+                  min={-90}
+                  max={90}
+                  step="0.0001"
+                  value={locationText.latitude}
+                  onChange={handleLocationChange('latitude')}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+              </label>
+              <label className="flex-1 text-sm">
+                Longitude
+                <input
+                  type="number"
+                  min={-180}
+                  max={180}
+                  step="0.0001"
+                  value={locationText.longitude}
+                  onChange={handleLocationChange('longitude')}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor="algorithm" className="block font-medium">
+            Color Algorithm
+          </label>
+          <select
+            id="algorithm"
+            value={settings.algorithm}
+            onChange={handleAlgorithmChange}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+          >
+            {Object.values(COLOR_TRANSFORMERS).map((transformer) => (
+              <option key={transformer.id} value={transformer.id}>
+                {transformer.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-600">{getColorTransformer(settings.algorithm).description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="contrastTarget" className="block font-medium">
+            Minimum Text Contrast
+          </label>
+          <select
+            id="contrastTarget"
+            value={settings.contrastTarget}
+            onChange={handleContrastTargetChange}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+          >
+            <option value="AA">WCAG AA (4.5:1)</option>
+            <option value="AAA">WCAG AAA (7:1)</option>
+            <option value="APCA-Lc45">APCA Lc 45 (large text)</option>
+            <option value="APCA-Lc60">APCA Lc 60 (content text)</option>
+            <option value="APCA-Lc75">APCA Lc 75 (body text)</option>
+            <option value="APCA-Lc90">APCA Lc 90 (preferred body text)</option>
+            <option value="off">No minimum (never below the original page)</option>
+          </select>
+          <p className="text-sm text-gray-600">
+            Restyled text is nudged lighter or darker until it meets this target. It is never made less readable than
+            the original page.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Appearance</h2>
+          <p className="text-sm text-gray-600">
+            Fine-tune the dark palette. The adjustments apply on top of the selected color algorithm.
+          </p>
+          <AppearanceControls appearance={settings.appearance} algorithm={settings.algorithm} onChange={handleAppearanceChange} />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="mediaPolicy" className="block font-medium">
+            Images and Video
+          </label>
+          <select
+            id="mediaPolicy"
+            value={settings.media?.policy ?? 'keep'}
+            onChange={(e) => handleMediaChange({ policy: e.target.value as MediaPolicy })}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+          >
+            {MEDIA_POLICY_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {settings.media?.policy === 'dim' && (
+            <label className="block text-sm">
+              Dim by {settings.media.dimPercent}%
+              <input
+                type="range"
+                min={0}
+                max={90}
+                step={5}
+                value={settings.media.dimPercent}
+                onChange={(e) => handleMediaChange({ dimPercent: Number(e.target.value) })}
+                className="block w-full"
+              />
+            </label>
+          )}
+          <p className="text-sm text-gray-600">
+            Diagrams and logos are detected by sampling the image, which only works for images from the site itself.
+            Images from other domains are left as they are.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="engine" className="block font-medium">
+            Styling Engine
+          </label>
+          <select
+            id="engine"
+            value={settings.engine}
+            onChange={handleEngineChange}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+          >
+            <option value="stylesheet">Stylesheet rewriting (fast, recommended)</option>
+            <option value="inline">Per-element inline styles (legacy)</option>
+          </select>
+          <p className="text-sm text-gray-600">
+            Stylesheet rewriting recolors the page's own CSS rules and leaves elements untouched. Switch to inline styles
+            if a site renders incorrectly.
+          </p>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="detect-dark-pages"
+              checked={settings.detectDarkPages ?? true}
+              onChange={(e) => setSettings((prev: Partial<Settings>) => ({ ...prev, detectDarkPages: e.target.checked }))}
+              className="w-4 h-4 mr-2"
+            />
+            <label htmlFor="detect-dark-pages">Detect pages that are already dark</label>
+          </div>
+          <p className="text-sm text-gray-600">
+            Pages with a dark theme of their own are left as they are, and partly dark pages only have their light parts
+            darkened. Turn this off if pages are misjudged.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="dynamicScheduling" className="block font-medium">
+            Dynamic Content
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="dynamicScheduling"
+              value={settings.dynamicContent?.scheduling ?? 'idle'}
+              onChange={(e) => handleDynamicContentChange({ scheduling: e.target.value as DynamicContent['scheduling'] })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+            >
+              <option value="idle">When the browser is idle</option>
+              <option value="frame">Every frame</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              Budget
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={settings.dynamicContent?.budgetMs ?? 8}
+                onChange={(e) => handleDynamicContentChange({ budgetMs: Number(e.target.value) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+              />
+              ms
+            </label>
+          </div>
+          <p className="text-sm text-gray-600">
+            Content added after the page loads (feeds, chats) is restyled in small slices of at most this many
+            milliseconds, so scrolling stays smooth. A larger budget restyles faster but may cause stutter.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Eye Care Breaks</h2>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="break-reminders-enabled"
+              checked={settings.breakReminders?.enabled ?? false}
+              onChange={(e) => handleBreakRemindersChange({ enabled: e.target.checked })}
+              className="w-4 h-4 mr-2"
+            />
+            <label htmlFor="break-reminders-enabled">Remind me to rest my eyes</label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-sm">
+              Work (minutes)
+              <input
+                type="number"
+                min={1}
+                max={240}
+                value={settings.breakReminders?.workMinutes ?? 20}
+                onChange={(e) => handleBreakRemindersChange({ workMinutes: Number(e.target.value) })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </label>
+            <label className="text-sm">
+              Break (seconds)
+              <input
+                type="number"
+                min={10}
+                max={3600}
+                value={settings.breakReminders?.breakSeconds ?? 20}
+                onChange={(e) => handleBreakRemindersChange({ breakSeconds: Number(e.target.value) })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </label>
+            <label className="text-sm">
+              Snooze (minutes)
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={settings.breakReminders?.snoozeMinutes ?? 5}
+                onChange={(e) => handleBreakRemindersChange({ snoozeMinutes: Number(e.target.value) })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </label>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleBreakRemindersChange(BREAK_PRESET_20_20_20)}
+            className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm"
+          >
+            Use the 20-20-20 rule
+          </button>
+          <p className="text-sm text-gray-600">
+            Every 20 minutes, look at something 20 feet (6 m) away for 20 seconds. The timer pauses while your computer
+            is idle or locked.
+          </p>
+          <p className="text-sm text-gray-600">
+            Today: {getBreakLogEntry(breakLog).taken} breaks taken, {getBreakLogEntry(breakLog).missed} missed,{' '}
+            {getBreakLogEntry(breakLog).skipped} skipped, {getBreakLogEntry(breakLog).snoozed} snoozed
+          </p>
+          {Object.keys(breakLog).length > 1 && (
+            <ul className="text-sm text-gray-600">
+              {Object.entries(breakLog)
+                .sort(([a], [b]) => b.localeCompare(a))
+                .slice(0, 7)
+                .map(([day, entry]) => (
+                  <li key={day} className="tabular-nums">
+                    {day}: {entry.taken} taken, {entry.missed} missed, {entry.skipped} skipped
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Keyboard Shortcuts</h2>
+          <ul className="divide-y divide-gray-200 border border-gray-300 rounded-md">
+            {shortcuts.map((command) => (
+              <li key={command.name} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <span className="flex-1">{command.description}</span>
+                {command.shortcut ? (
+                  <kbd className="font-mono">{command.shortcut}</kbd>
+                ) : (
+                  <span className="text-gray-500">Not set</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+            className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm"
+          >
+            Change shortcuts
+          </button>
+          <p className="text-sm text-gray-600">
+            Shortcuts are set in the browser's extension shortcut settings. Some have no default binding.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Site Rules</h2>
+          <p className="text-sm text-gray-600">
+            Force dark mode on or off for specific sites. Use <code>*.example.com</code> to match a domain and all of
+            its subdomains. The most specific matching rule wins. Embedded frames follow the page they are on, unless a
+            rule for their own site is marked <em>In frames</em>.
+          </p>
+          <ul className="divide-y divide-gray-200 border border-gray-300 rounded-md">
+            {(settings.siteRules ?? []).length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">No site rules yet.</li>
+            )}
+            {(settings.siteRules ?? []).map((rule) => (
+              <li key={rule.pattern} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 font-mono text-sm truncate">{rule.pattern}</span>
+                <select
+                  aria-label={`Mode for ${rule.pattern}`}
+                  value={rule.mode}
+                  onChange={(e) => handleSiteRuleChange({ ...rule, mode: e.target.value as SiteRuleMode })}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="on">Always on</option>
+                  <option value="off">Always off</option>
+                  <option value="default">Follow global setting</option>
+                </select>
+                <select
+                  aria-label={`Color algorithm for ${rule.pattern}`}
+                  value={rule.algorithm ?? ''}
+                  onChange={(e) =>
+                    handleSiteRuleChange({ ...rule, algorithm: (e.target.value || undefined) as TransformAlgorithm | undefined })
+                  }
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Global algorithm</option>
+                  {Object.values(COLOR_TRANSFORMERS).map((transformer) => (
+                    <option key={transformer.id} value={transformer.id}>
+                      {transformer.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label={`Media policy for ${rule.pattern}`}
+                  value={rule.mediaPolicy ?? ''}
+                  onChange={(e) =>
+                    handleSiteRuleChange({ ...rule, mediaPolicy: (e.target.value || undefined) as MediaPolicy | undefined })
+                  }
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Global media policy</option>
+                  {MEDIA_POLICY_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center text-sm whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={rule.frames ?? false}
+                    onChange={(e) => handleSiteRuleChange({ ...rule, frames: e.target.checked || undefined })}
+                    className="w-4 h-4 mr-1"
+                  />
+                  In frames
+                </label>
+                <button
+                  onClick={() => handleSiteRuleRemove(rule.pattern)}
+                  className="px-2 py-1 text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleSiteRuleAdd} className="flex gap-2">
+            <input
+              type="text"
+              value={newRulePattern}
+              onChange={(e) => setNewRulePattern(e.target.value)}
+              placeholder="grafana.example.com or *.example.com"
+              aria-label="Site pattern"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+            />
+            <select
+              value={newRuleMode}
+              onChange={(e) => setNewRuleMode(e.target.value as SiteRuleMode)}
+              aria-label="Mode for new rule"
+              className="px-2 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="on">Always on</option>
+              <option value="off">Always off</option>
+              <option value="default">Follow global setting</option>
+            </select>
+            <button type="submit" className="px-3 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Add
+            </button>
+          </form>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="skip-cross-origin-frames"
+              checked={settings.skipCrossOriginFrames ?? false}
+              onChange={(e) => setSettings((prev: Partial<Settings>) => ({ ...prev, skipCrossOriginFrames: e.target.checked }))}
+              className="w-4 h-4 mr-2"
+            />
+            <label htmlFor="skip-cross-origin-frames">Leave embeds from other sites untouched</label>
+          </div>
+          <p className="text-sm text-gray-600">
+            Video players, maps and other frames from a different site than the page keep their own colors. Rules
+            marked <em>In frames</em> still apply to them.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Site Fixes</h2>
+          <p className="text-sm text-gray-600">
+            Hand-tuned CSS for sites the automatic dark mode gets wrong. Fixes bundled with EyeLove can be customized;
+            your version replaces the bundled one. Preview a fix on an open tab of the site while you edit it.
+          </p>
+          <SiteFixEditor
+            fixes={settings.siteFixes ?? []}
+            onChange={(siteFixes) => setSettings((prev: Partial<Settings>) => ({ ...prev, siteFixes }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Profiles</h2>
+          <p className="text-sm text-gray-600">
+            A profile bundles the theme, color algorithm, appearance and site rules. Switch profiles here or from the popup.
+          </p>
+          <ul className="divide-y divide-gray-200 border border-gray-300 rounded-md">
+            {(settings.profiles ?? []).length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">No profiles yet.</li>
+            )}
+            {(settings.profiles ?? []).map((profile) => (
+              <li key={profile.name} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 text-sm truncate">
+                  {profile.name}
+                  {settings.activeProfile === profile.name && <span className="text-gray-500"> (active)</span>}
+                </span>
+                <button onClick={() => handleProfileApply(profile)} className="px-2 py-1 text-sm text-blue-600 hover:underline">
+                  Apply
+                </button>
+                <button
+                  onClick={() => handleProfileRemove(profile.name)}
+                  className="px-2 py-1 text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleProfileSave} className="flex gap-2">
+            <input
+              type="text"
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+              placeholder="Reading, Coding, Presentation..."
+              maxLength={40}
+              aria-label="Profile name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+            />
+            <button type="submit" className="px-3 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Save current as profile
+            </button>
+          </form>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Import / Export</h2>
+          <p className="text-sm text-gray-600">
+            Export your saved settings to a JSON file to back them up or share a team configuration. Settings missing from
+            an imported file keep their current values.
+          </p>
+          <div className="flex gap-2">
+            <button type="button" onClick={handleExport} className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm">
+              Export settings
+            </button>
+            <label className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm cursor-pointer">
+              Import settings
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+          {importStatus && (
+            <p className={`text-sm ${importStatus.ok ? 'text-green-600' : 'text-red-600'}`}>{importStatus.message}</p>
+          )}
+        </div>
+
         <div className="flex items-center justify-between pt-4">
           <button
             onClick={handleSave}
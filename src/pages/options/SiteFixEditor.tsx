@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SiteFix, SiteFixStylesSchema } from '~/lib/schemas.ts';
+import { BUNDLED_SITE_FIXES, findBundledSiteFix, removeSiteFix, resolveSiteFix, upsertSiteFix, validateSiteFix } from '~/lib/site-fixes.ts';
+import { getHostname, matchesHostPattern, normalizeHostPattern } from '~/lib/site-rules.ts';
+import { callTab } from '~/lib/rpc.ts';
+
+// Drafts are previewed once typing pauses
+const PREVIEW_DELAY_MS = 300;
+
+// A fix being edited: list fields are edited one entry per line
+interface SiteFixDraft {
+  originalPattern: string | null; // Null for a new fix
+  pattern: string;
+  css: string;
+  ignoreSelectors: string;
+  invertSelectors: string;
+  cssVariables: string;
+}
+
+const EMPTY_DRAFT: SiteFixDraft = { originalPattern: null, pattern: '', css: '', ignoreSelectors: '', invertSelectors: '', cssVariables: '' };
+
+function toDraft(fix: SiteFix, isNew = false): SiteFixDraft {
+  return {
+    originalPattern: isNew ? null : fix.pattern,
+    pattern: fix.pattern,
+    css: fix.css,
+    ignoreSelectors: fix.ignoreSelectors.join('\n'),
+    invertSelectors: fix.invertSelectors.join('\n'),
+    cssVariables: fix.cssVariables.join('\n'),
+  };
+}
+
+function toLines(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+function fromDraft(draft: SiteFixDraft): SiteFix {
+  return {
+    pattern: normalizeHostPattern(draft.pattern),
+    css: draft.css,
+    ignoreSelectors: toLines(draft.ignoreSelectors),
+    invertSelectors: toLines(draft.invertSelectors),
+    cssVariables: toLines(draft.cssVariables),
+  };
+}
+
+// Tab inserts two spaces instead of leaving the code editor
+function handleCodeKeyDown(event: React.KeyboardEvent<HTMLTextAreaElement>) {
+  if (event.key !== 'Tab' || event.shiftKey) return;
+  event.preventDefault();
+  const textarea = event.currentTarget;
+  textarea.setRangeText('  ', textarea.selectionStart, textarea.selectionEnd, 'end');
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+interface SiteFixEditorProps {
+  fixes: SiteFix[]; // The user's fixes
+  onChange: (fixes: SiteFix[]) => void;
+}
+
+/**
+ * Lists the bundled and user site fixes and edits one at a time, with validation
+ * and a live preview on an open tab of the site. Changes are saved with the other settings.
+ */
+function SiteFixEditor({ fixes, onChange }: SiteFixEditorProps) {
+  const [draft, setDraft] = useState<SiteFixDraft | null>(null);
+  const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [previewTabId, setPreviewTabId] = useState<number | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const fix = draft ? fromDraft(draft) : null;
+  const errors = fix ? validateSiteFix(fix) : [];
+  if (draft && fix && fix.pattern !== draft.originalPattern && fixes.some((existing) => existing.pattern === fix.pattern)) {
+    errors.push(`pattern: There already is a fix for ${fix.pattern}`);
+  }
+  // The user's fixes as they would be with the draft applied
+  const draftFixes = useMemo(() => {
+    if (!draft) return fixes;
+    const edited = fromDraft(draft);
+    return upsertSiteFix(removeSiteFix(fixes, draft.originalPattern ?? edited.pattern), edited);
+  }, [fixes, draft]);
+
+  // Open tabs of the site being edited; the active one is previewed by default
+  const previewTabs = tabs.filter((tab) => fix && matchesHostPattern(fix.pattern, getHostname(tab.url)));
+  const previewTab = previewTabs.find((tab) => tab.id === previewTabId) ?? previewTabs.find((tab) => tab.active) ?? previewTabs[0];
+
+  const draftPattern = draft?.pattern;
+  useEffect(() => {
+    if (draftPattern === undefined || !chrome.tabs) return;
+    chrome.tabs.query({ url: ['http://*/*', 'https://*/*'] }).then(setTabs);
+  }, [draftPattern]);
+
+  // Live preview: send valid drafts to the tab while typing pauses, end it when done
+  const previewTargetId = isPreviewing ? previewTab?.id : undefined;
+  const previewUrl = previewTab?.url;
+  const isValid = errors.length === 0;
+  useEffect(() => {
+    if (previewTargetId === undefined || !isValid) return;
+    const timeout = setTimeout(() => {
+      const styles = resolveSiteFix(draftFixes, previewUrl) ?? SiteFixStylesSchema.parse({});
+      callTab(previewTargetId, {}, 'previewSiteFix', styles).catch((error) => {
+        console.error('Error previewing site fix:', error);
+      });
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [previewTargetId, previewUrl, draftFixes, isValid]);
+
+  useEffect(() => {
+    if (previewTargetId === undefined) return;
+    const endPreview = () => {
+      callTab(previewTargetId, {}, 'endSiteFixPreview').catch(() => {}); // The tab may be gone
+    };
+    // Closing or leaving the Options page doesn't unmount the editor
+    window.addEventListener('pagehide', endPreview);
+    return () => {
+      window.removeEventListener('pagehide', endPreview);
+      endPreview();
+    };
+  }, [previewTargetId]);
+
+  const updateDraft = (changes: Partial<SiteFixDraft>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleApply = () => {
+    if (!draft || !fix || errors.length > 0) return;
+    onChange(draftFixes);
+    setDraft(null);
+    setIsPreviewing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(null);
+    setIsPreviewing(false);
+  };
+
+  const userPatterns = new Set(fixes.map((userFix) => userFix.pattern));
+  const bundledOnly = BUNDLED_SITE_FIXES.filter((bundled) => !userPatterns.has(normalizeHostPattern(bundled.pattern)));
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y divide-gray-200 border border-gray-300 rounded-md">
+        {fixes.map((userFix) => (
+          <li key={userFix.pattern} className="flex items-center gap-2 px-3 py-2">
+            <span className="flex-1 font-mono text-sm truncate">
+              {userFix.pattern}
+              {findBundledSiteFix(userFix.pattern) && <span className="font-sans text-gray-500"> (replaces bundled fix)</span>}
+            </span>
+            <button onClick={() => setDraft(toDraft(userFix))} className="px-2 py-1 text-sm text-blue-600 hover:underline">
+              Edit
+            </button>
+            <button
+              onClick={() => onChange(removeSiteFix(fixes, userFix.pattern))}
+              className="px-2 py-1 text-sm text-red-600 hover:underline"
+            >
+              {findBundledSiteFix(userFix.pattern) ? 'Restore bundled' : 'Remove'}
+            </button>
+          </li>
+        ))}
+        {bundledOnly.map((bundled) => (
+          <li key={bundled.pattern} className="flex items-center gap-2 px-3 py-2">
+            <span className="flex-1 font-mono text-sm truncate">
+              {bundled.pattern}
+              <span className="font-sans text-gray-500"> (bundled)</span>
+            </span>
+            <button onClick={() => setDraft(toDraft(bundled, true))} className="px-2 py-1 text-sm text-blue-600 hover:underline">
+              Customize
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {!draft && (
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm"
+        >
+          New fix
+        </button>
+      )}
+
+      {draft && (
+        <div className="space-y-2 p-3 border border-gray-300 rounded-md">
+          <label className="block text-sm">
+            Sites
+            <input
+              type="text"
+              value={draft.pattern}
+              onChange={(e) => updateDraft({ pattern: e.target.value })}
+              placeholder="example.com or *.example.com"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+          </label>
+          <label className="block text-sm">
+            CSS (added while dark mode is on)
+            <textarea
+              value={draft.css}
+              onChange={(e) => updateDraft({ css: e.target.value })}
+              onKeyDown={handleCodeKeyDown}
+              spellCheck={false}
+              rows={8}
+              placeholder=".header { background-color: #202124 !important; }"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {(
+              [
+                ['ignoreSelectors', 'Leave alone (selectors)', '.chart, #player'],
+                ['invertSelectors', 'Invert (selectors)', 'img.diagram'],
+                ['cssVariables', 'CSS variables', '--brand-surface'],
+              ] as const
+            ).map(([key, label, placeholder]) => (
+              <label key={key} className="block text-sm">
+                {label}
+                <textarea
+                  value={draft[key]}
+                  onChange={(e) => updateDraft({ [key]: e.target.value })}
+                  spellCheck={false}
+                  rows={4}
+                  placeholder={placeholder}
+                  className="block w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">One selector or variable per line.</p>
+
+          {errors.length > 0 && (
+            <ul role="alert" className="text-sm text-red-600 list-disc pl-5">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={isPreviewing}
+                disabled={previewTabs.length === 0}
+                onChange={(e) => setIsPreviewing(e.target.checked)}
+              />
+              Live preview on
+            </label>
+            {previewTabs.length > 0 ? (
+              <select
+                aria-label="Preview tab"
+                value={previewTab?.id ?? ''}
+                onChange={(e) => setPreviewTabId(Number(e.target.value))}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {previewTabs.map((tab) => (
+                  <option key={tab.id} value={tab.id}>
+                    {tab.title || tab.url}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-gray-500">no open tab of this site</span>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={errors.length > 0}
+              className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+            >
+              {draft.originalPattern === null ? 'Add fix' : 'Update fix'}
+            </button>
+            <button type="button" onClick={handleCancel} className="px-3 py-1 text-sm text-gray-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SiteFixEditor;
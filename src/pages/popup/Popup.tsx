@@ -1,34 +1,62 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SettingsSchema, Settings } from '~/lib/schemas.ts'; // Import Zod schema/type
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Settings, SiteState, SiteRuleMode, ContrastReport, PerfCounters, PageDarknessReport, BreakStatus, WarmthSchema, Warmth, AppearanceSchema, Appearance } from '~/lib/schemas.ts'; // Import Zod schema/type
+import { formatDuration, getBreakLogEntry, getRemainingMs } from '~/lib/break-reminders.ts';
+import { findProfile, matchesProfile } from '~/lib/profiles.ts';
+import { getSettingsChanges } from '~/lib/settings-store.ts';
+import { callBackground, callTab } from '~/lib/rpc.ts';
+import AppearanceControls from '~/pages/shared/AppearanceControls.tsx';
 
 const POPUP_STATE_CLASS = 'eyelove-popup-state'; // Class to potentially signal state to content script (optional)
+const DEFAULT_WARMTH = WarmthSchema.parse({});
+const DEFAULT_APPEARANCE = AppearanceSchema.parse({});
+// Sliders fire on every step; their changes are written once they settle (sync storage has write quotas)
+const SLIDER_SAVE_DELAY_MS = 300;
+
+// What the darkness detector's result meant for the page
+const DARK_PAGE_HANDLING_LABELS: Record<PageDarknessReport['handling'], string> = {
+  skip: 'left as it is',
+  light: 'light touch',
+  full: 'fully darkened',
+  native: 'switched to its own dark theme',
+};
+
+// Popup actions that merge a partial object into a stored setting
+interface SliderSettingChanges {
+  setWarmth: Partial<Warmth>;
+  setAppearance: Partial<Appearance>;
+}
+
+type SliderSettingAction = keyof SliderSettingChanges;
+
+const sendSliderSetting: { [A in SliderSettingAction]: (changes: SliderSettingChanges[A]) => Promise<unknown> } = {
+  setWarmth: (changes) => callBackground('setWarmth', changes),
+  setAppearance: (changes) => callBackground('setAppearance', changes),
+};
 
 function Popup() {
   const [settings, setSettings] = useState<Partial<Settings>>({ enabled: true }); // Store settings object
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [siteState, setSiteState] = useState<SiteState | null>(null); // Rule for the active tab's site
+  const [contrastReport, setContrastReport] = useState<ContrastReport | null>(null); // From the active tab's content script
+  const [perfCounters, setPerfCounters] = useState<PerfCounters | null>(null); // Likewise
+  const [pageDarkness, setPageDarkness] = useState<PageDarknessReport | null>(null); // Likewise
+  const [breakStatus, setBreakStatus] = useState<BreakStatus | null>(null); // Break reminder timer and log
+  const [now, setNow] = useState(() => Date.now()); // Ticks every second for the break countdown
+  const pendingChanges = useRef<Partial<SliderSettingChanges>>({}); // Not yet sent to the background
+  const saveTimeouts = useRef<Partial<Record<SliderSettingAction, ReturnType<typeof setTimeout>>>>({});
 
   // Function to fetch settings
   const fetchSettings = useCallback(() => {
     if (chrome.runtime?.id) {
-      chrome.runtime.sendMessage({ action: 'getSettings' }, (response) => {
-        setIsLoading(false);
-        if (chrome.runtime.lastError) {
-          console.error('Error fetching settings:', chrome.runtime.lastError.message);
+      callBackground('getSettings')
+        .then(setSettings)
+        .catch((error) => {
+          console.error('Error fetching settings:', error);
           setError('Could not load settings.');
           setSettings({ enabled: true }); // Fallback
-          return;
-        }
-        // Validate response (optional but good practice)
-        try {
-            const parsedSettings = SettingsSchema.partial().parse(response || {});
-            setSettings(parsedSettings);
-        } catch (validationError) {
-             console.error("Invalid settings received:", validationError);
-             setError('Invalid settings format.');
-             setSettings({ enabled: true }); // Fallback
-        }
-      });
+        })
+        .finally(() => setIsLoading(false));
     } else {
        console.warn('Not running as an extension. Setting default state.');
        setSettings({ enabled: true });
@@ -36,14 +64,81 @@ function Popup() {
     }
   }, []);
 
+  // Function to fetch the resolved rule for the active tab's site
+  const fetchSiteState = useCallback(async () => {
+    if (!chrome.runtime?.id || !chrome.tabs) return;
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.url) return;
+    try {
+      const state = await callBackground('getSiteState', { url: tab.url });
+      // Pages without a hostname (chrome://, file://) get no site control
+      setSiteState(state.hostname ? state : null);
+    } catch (error) {
+      console.error('Error fetching site state:', error);
+    }
+  }, []);
+
+  // Function to fetch the contrast solver report from the active tab
+  const fetchContrastReport = useCallback(async () => {
+    if (!chrome.runtime?.id || !chrome.tabs) return;
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+    // No content script on this page (e.g. chrome:// URLs): just hide the report
+    callTab(tab.id, { frameId: 0 }, 'getContrastReport')
+      .then(setContrastReport)
+      .catch(() => setContrastReport(null));
+  }, []);
+
+  // Function to fetch the content script's performance counters from the active tab
+  const fetchPerfCounters = useCallback(async () => {
+    if (!chrome.runtime?.id || !chrome.tabs) return;
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+    callTab(tab.id, { frameId: 0 }, 'getPerfCounters')
+      .then(setPerfCounters)
+      .catch(() => setPerfCounters(null));
+  }, []);
+
+  // Function to fetch the darkness detector's result from the active tab
+  const fetchPageDarkness = useCallback(async () => {
+    if (!chrome.runtime?.id || !chrome.tabs) return;
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+    callTab(tab.id, { frameId: 0 }, 'getPageDarkness')
+      .then(setPageDarkness)
+      .catch(() => setPageDarkness(null));
+  }, []);
+
+  // Function to fetch the break reminder timer and log
+  const fetchBreakStatus = useCallback(() => {
+    if (!chrome.runtime?.id) return;
+    callBackground('getBreakStatus')
+      .then(setBreakStatus)
+      .catch((error) => {
+        console.error('Error fetching break status:', error);
+        setBreakStatus(null);
+      });
+  }, []);
+
   // Fetch initial state and listen for changes
   useEffect(() => {
     fetchSettings(); // Fetch on mount
+    fetchSiteState();
+    fetchContrastReport();
+    fetchPerfCounters();
+    fetchPageDarkness();
+    fetchBreakStatus();
 
-    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
-      if (areaName === 'sync' && (changes.enabled || changes.theme)) {
-        console.info('Popup detected settings change in chrome.storage.sync, refetching...');
+    const handleStorageChange = (storageChanges: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      const changes = getSettingsChanges(storageChanges, areaName);
+      if (changes.enabled || changes.theme || changes.siteRules || changes.profiles || changes.activeProfile) {
+        console.info('Popup detected settings change in storage, refetching...');
         fetchSettings(); // Refetch settings if relevant ones change
+        fetchSiteState();
+      }
+      // The break timer and log live in local storage
+      if (changes.breakReminders || (areaName === 'local' && (storageChanges.breakTimer || storageChanges.breakLog))) {
+        fetchBreakStatus();
       }
     };
 
@@ -61,7 +156,14 @@ function Popup() {
       }
       document.body.classList.remove(POPUP_STATE_CLASS);
     };
-  }, [fetchSettings]);
+  }, [fetchSettings, fetchSiteState, fetchContrastReport, fetchPerfCounters, fetchPageDarkness, fetchBreakStatus]);
+
+  // Break countdown: re-render every second while a timer is running
+  useEffect(() => {
+    if (!breakStatus?.timer || breakStatus.timer.phase === 'idle') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [breakStatus]);
 
   const handleToggle = () => {
     // Optimistically update UI? Or wait for storage change? Let's wait.
@@ -69,21 +171,101 @@ function Popup() {
     if (chrome.runtime?.id) {
       console.log('[EyeLove Popup] handleToggle: Sending message:', { action: 'toggleEnabled' });
       console.info("Popup sending 'toggleEnabled' message...");
-      chrome.runtime.sendMessage({ action: 'toggleEnabled' }, (response) => {
-         if (chrome.runtime.lastError) {
-           console.error('[EyeLove Popup] handleToggle: Error sending message:', chrome.runtime.lastError.message);
-           setError('Failed to toggle.');
-         } else {
-           console.log('[EyeLove Popup] handleToggle: Message sent successfully, response:', response);
-           // Clear error on success
-           setError(null);
-           console.info("Toggle message acknowledged by background.", response);
-           // State will update via the storage listener
-         }
-      });
+      callBackground('toggleEnabled')
+        .then((response) => {
+          console.log('[EyeLove Popup] handleToggle: Message sent successfully, response:', response);
+          // Clear error on success
+          setError(null);
+          // State will update via the storage listener
+        })
+        .catch((error) => {
+          console.error('[EyeLove Popup] handleToggle: Error sending message:', error);
+          setError('Failed to toggle.');
+        });
     }
   };
 
+  const handleBreakAction = (action: 'snoozeBreak' | 'skipBreak') => {
+    callBackground(action)
+      .then(setBreakStatus)
+      .catch((error) => {
+        console.error(`[EyeLove Popup] handleBreakAction: Error sending ${action}:`, error);
+        setError('Failed to update break reminder.');
+      });
+  };
+
+  // Sends the collected slider changes for an action, if any
+  const sendPendingSetting = useCallback(<A extends SliderSettingAction>(action: A) => {
+    clearTimeout(saveTimeouts.current[action]);
+    delete saveTimeouts.current[action];
+    const payload = pendingChanges.current[action];
+    if (!payload) return;
+    delete pendingChanges.current[action];
+    sendSliderSetting[action](payload).catch((error) => {
+      console.error(`[EyeLove Popup] sendPendingSetting: Error sending ${action}:`, error);
+      setError('Failed to save setting.');
+    });
+  }, []);
+
+  // Collects slider changes per action and sends them once they settle
+  const queueSettingUpdate = <A extends SliderSettingAction>(action: A, changes: SliderSettingChanges[A]) => {
+    pendingChanges.current[action] = { ...pendingChanges.current[action], ...changes };
+    clearTimeout(saveTimeouts.current[action]);
+    saveTimeouts.current[action] = setTimeout(() => sendPendingSetting(action), SLIDER_SAVE_DELAY_MS);
+  };
+
+  // The popup is usually closed right after a slider is let go: send what's still waiting
+  useEffect(() => {
+    const flushPendingSettings = () => {
+      (Object.keys(pendingChanges.current) as SliderSettingAction[]).forEach(sendPendingSetting);
+    };
+    window.addEventListener('pagehide', flushPendingSettings);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSettings);
+      flushPendingSettings();
+    };
+  }, [sendPendingSetting]);
+
+  const handleWarmthChange = (changes: Partial<Warmth>) => {
+    setSettings((prev) => ({ ...prev, warmth: { ...DEFAULT_WARMTH, ...prev.warmth, ...changes } }));
+    queueSettingUpdate('setWarmth', changes);
+  };
+
+  const handleAppearanceChange = (changes: Partial<Appearance>) => {
+    setSettings((prev) => ({ ...prev, appearance: { ...DEFAULT_APPEARANCE, ...prev.appearance, ...changes } }));
+    queueSettingUpdate('setAppearance', changes);
+  };
+
+  const handleProfileChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const name = event.target.value;
+    if (!name) return;
+    callBackground('applyProfile', { name })
+      .then(() => {
+        // Re-applying the active profile changes no watched key, so refetch here
+        fetchSettings();
+        fetchSiteState();
+      })
+      .catch((error) => {
+        console.error('[EyeLove Popup] handleProfileChange: Error applying profile:', error);
+        setError('Failed to switch profile.');
+      });
+  };
+
+  const handleSiteModeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!siteState) return;
+    const mode = event.target.value as SiteRuleMode;
+    // An exact rule for this hostname; wildcard rules are managed on the Options page.
+    // Overrides set on the Options page (algorithm, media policy) are kept.
+    const existing = siteState.rule?.pattern === siteState.hostname ? siteState.rule : null;
+    // State will update via the storage listener
+    callBackground('setSiteRule', { ...existing, pattern: siteState.hostname, mode }).catch((error) => {
+      console.error('[EyeLove Popup] handleSiteModeChange: Error sending message:', error);
+      setError('Failed to update site rule.');
+    });
+  };
+
+  const activeProfile = settings.activeProfile ? findProfile(settings.profiles ?? [], settings.activeProfile) : null;
+
   if (isLoading) {
      return <div className="p-4 w-64 text-center">Loading...</div>;
   }
@@ -107,6 +289,158 @@ function Popup() {
           {settings.enabled ? 'ON' : 'OFF'}
         </button>
       </div>
+      {(settings.profiles ?? []).length > 0 && (
+        <div className="mt-3">
+          <label htmlFor="profile" className="block text-sm">Profile</label>
+          <select
+            id="profile"
+            value={activeProfile ? activeProfile.name : ''}
+            onChange={handleProfileChange}
+            className="mt-1 block w-full px-2 py-1 rounded border border-gray-300 bg-white dark:bg-gray-700 text-sm"
+          >
+            <option value="" disabled>
+              Custom settings
+            </option>
+            {(settings.profiles ?? []).map((profile) => (
+              <option key={profile.name} value={profile.name}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          {activeProfile && !matchesProfile(activeProfile, settings) && (
+            <p className="text-xs mt-1">Changed since the profile was applied</p>
+          )}
+        </div>
+      )}
+      {siteState && (
+        <div className="mt-3">
+          <label htmlFor="site-mode" className="block text-sm truncate" title={siteState.hostname}>
+            This site: <span className="font-medium">{siteState.hostname}</span>
+          </label>
+          <select
+            id="site-mode"
+            value={siteState.rule?.mode ?? 'default'}
+            onChange={handleSiteModeChange}
+            className="mt-1 block w-full px-2 py-1 rounded border border-gray-300 bg-white dark:bg-gray-700 text-sm"
+          >
+            <option value="default">Follow global setting</option>
+            <option value="on">Always on</option>
+            <option value="off">Always off</option>
+          </select>
+          {siteState.rule && siteState.rule.pattern !== siteState.hostname && (
+            <p className="text-xs mt-1">Matched rule: {siteState.rule.pattern}</p>
+          )}
+          <p className="text-xs mt-1">Dark mode here: {siteState.enabled ? 'ON' : 'OFF'}</p>
+        </div>
+      )}
+      {pageDarkness && (
+        <p
+          className="text-xs mt-2"
+          title={`${pageDarkness.darkSamples} of ${pageDarkness.samples} samples dark${pageDarkness.colorScheme ? `, declares color-scheme: ${pageDarkness.colorScheme}` : ''}${pageDarkness.siteDarkTheme ? ', has its own dark theme' : ''}${pageDarkness.nativeTheme ? `, activated with ${pageDarkness.nativeTheme}` : ''}`}
+        >
+          Page looks {pageDarkness.darkness}: {DARK_PAGE_HANDLING_LABELS[pageDarkness.handling]}
+        </p>
+      )}
+      {contrastReport && contrastReport.checked > 0 && (
+        <p className="text-xs mt-2">
+          Contrast ({contrastReport.target}): {contrastReport.adjusted} of {contrastReport.checked} text colors adjusted
+          {contrastReport.unmet > 0 && <span className="text-red-600">, {contrastReport.unmet} elements below target</span>}
+        </p>
+      )}
+      {perfCounters && perfCounters.slices > 0 && (
+        <p className="text-xs mt-1" title={`Longest slice ${perfCounters.longestSliceMs} ms, ${perfCounters.pendingNodes} elements pending`}>
+          Dynamic content: {perfCounters.processedNodes} elements restyled in {perfCounters.sliceMs} ms
+        </p>
+      )}
+      <div className="mt-3 text-sm">
+        <div className="flex items-center justify-between">
+          <label htmlFor="warmth-enabled">Night shift</label>
+          <input
+            type="checkbox"
+            id="warmth-enabled"
+            checked={settings.warmth?.enabled ?? false}
+            onChange={(e) => handleWarmthChange({ enabled: e.target.checked })}
+            className="w-4 h-4"
+          />
+        </div>
+        {settings.warmth?.enabled && (
+          <div className="mt-1 space-y-1">
+            <label className="block text-xs">
+              Temperature: {settings.warmth.temperature} K
+              <input
+                type="range"
+                min={1000}
+                max={6500}
+                step={100}
+                value={settings.warmth.temperature}
+                onChange={(e) => handleWarmthChange({ temperature: Number(e.target.value) })}
+                className="block w-full"
+              />
+            </label>
+            <label className="block text-xs">
+              Intensity: {Math.round(settings.warmth.intensity * 100)}%
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(settings.warmth.intensity * 100)}
+                onChange={(e) => handleWarmthChange({ intensity: Number(e.target.value) / 100 })}
+                className="block w-full"
+              />
+            </label>
+            <select
+              aria-label="Night shift schedule"
+              value={settings.warmth.schedule}
+              onChange={(e) => handleWarmthChange({ schedule: e.target.value as Warmth['schedule'] })}
+              className="block w-full px-2 py-1 rounded border border-gray-300 bg-white dark:bg-gray-700 text-xs"
+            >
+              <option value="always">Always</option>
+              <option value="schedule">On the dark-mode schedule</option>
+              <option value="sunset">Sunset to sunrise</option>
+            </select>
+            <select
+              aria-label="Night shift and dark mode"
+              value={settings.warmth.mode}
+              onChange={(e) => handleWarmthChange({ mode: e.target.value as Warmth['mode'] })}
+              className="block w-full px-2 py-1 rounded border border-gray-300 bg-white dark:bg-gray-700 text-xs"
+            >
+              <option value="stack">Combine with dark mode</option>
+              <option value="replace">Instead of dark mode</option>
+            </select>
+          </div>
+        )}
+      </div>
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer">Appearance</summary>
+        <div className="mt-1">
+          <AppearanceControls appearance={settings.appearance} algorithm={siteState?.algorithm ?? settings.algorithm} onChange={handleAppearanceChange} />
+        </div>
+      </details>
+      {breakStatus?.enabled && breakStatus.timer && (
+        <div className="mt-3 text-sm">
+          {breakStatus.timer.phase === 'working' && (
+            <p>Next eye break in <span className="font-medium tabular-nums">{formatDuration(getRemainingMs(breakStatus.timer, now))}</span></p>
+          )}
+          {breakStatus.timer.phase === 'break' && (
+            <p className="font-medium">Eye break: look away for <span className="tabular-nums">{formatDuration(getRemainingMs(breakStatus.timer, now))}</span></p>
+          )}
+          {breakStatus.timer.phase === 'idle' && <p>Break timer paused while you're away</p>}
+          {breakStatus.timer.phase !== 'idle' && (
+            <div className="flex gap-2 mt-1">
+              <button onClick={() => handleBreakAction('snoozeBreak')} className="px-2 py-0.5 rounded bg-gray-500 hover:bg-gray-600 text-white text-xs">
+                Snooze
+              </button>
+              <button onClick={() => handleBreakAction('skipBreak')} className="px-2 py-0.5 rounded bg-gray-500 hover:bg-gray-600 text-white text-xs">
+                Skip
+              </button>
+            </div>
+          )}
+          <p className="text-xs mt-1">
+            Today: {getBreakLogEntry(breakStatus.log).taken} breaks taken, {getBreakLogEntry(breakStatus.log).missed} missed,{' '}
+            {getBreakLogEntry(breakStatus.log).skipped} skipped
+          </p>
+        </div>
+      )}
       {/* Display current theme (example) */}
       <p className="text-xs mt-2">Current theme setting: {settings.theme ?? 'N/A'}</p>
       {/* Add more controls later */}
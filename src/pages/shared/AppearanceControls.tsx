@@ -0,0 +1,97 @@
+import { Appearance, AppearanceSchema, TransformAlgorithm } from '~/lib/schemas.ts';
+import { ColorRole, getColorTransformer, transformCssColor, withAppearance } from '~/lib/color-transform.ts';
+
+const DEFAULT_APPEARANCE: Appearance = AppearanceSchema.parse({});
+
+// Colors of a typical light page, restyled in the live preview
+const PREVIEW_PAGE = { card: '#ffffff', text: '#333333', border: '#dddddd', accent: '#1a73e8' };
+
+// Slider definitions: settings are factors, the sliders show percentages
+const SLIDERS: Array<{ key: 'brightness' | 'contrast' | 'saturation'; label: string; min: number; max: number }> = [
+  { key: 'brightness', label: 'Brightness', min: 50, max: 150 },
+  { key: 'contrast', label: 'Contrast', min: 50, max: 150 },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 200 },
+];
+
+const COLOR_INPUTS: Array<{ key: 'backgroundColor' | 'textColor' | 'linkColor'; label: string }> = [
+  { key: 'backgroundColor', label: 'Background' },
+  { key: 'textColor', label: 'Text' },
+  { key: 'linkColor', label: 'Links' },
+];
+
+interface AppearanceControlsProps {
+  appearance: Partial<Appearance> | undefined;
+  algorithm: TransformAlgorithm | undefined;
+  onChange: (changes: Partial<Appearance>) => void;
+}
+
+/**
+ * Brightness/contrast/saturation sliders, base palette pickers and a live preview
+ * that runs sample colors through the same transform the content script uses.
+ * Shared by the popup and the Options page.
+ */
+function AppearanceControls({ appearance, algorithm, onChange }: AppearanceControlsProps) {
+  const values = { ...DEFAULT_APPEARANCE, ...appearance };
+  const transformer = withAppearance(getColorTransformer(algorithm), values);
+  const preview = (color: string, role: ColorRole) => transformCssColor(color, role, transformer) ?? color;
+
+  return (
+    <div className="space-y-2">
+      {SLIDERS.map(({ key, label, min, max }) => (
+        <label key={key} className="block text-xs">
+          {label}: {Math.round(values[key] * 100)}%
+          <input
+            type="range"
+            min={min}
+            max={max}
+            value={Math.round(values[key] * 100)}
+            onChange={(e) => onChange({ [key]: Number(e.target.value) / 100 })}
+            className="block w-full"
+          />
+        </label>
+      ))}
+
+      <div className="flex gap-3">
+        {COLOR_INPUTS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1 text-xs">
+            <input
+              type="color"
+              value={values[key]}
+              onChange={(e) => onChange({ [key]: e.target.value })}
+              className="w-6 h-6 p-0 border-0"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {/* Live preview: the base palette, with a light "page" card restyled by the selected algorithm */}
+      <div className="p-2 rounded text-xs" style={{ backgroundColor: values.backgroundColor, color: values.textColor }}>
+        <p>
+          Page text with <span style={{ color: values.linkColor, textDecoration: 'underline' }}>a link</span>
+        </p>
+        <div
+          className="mt-1 p-2 rounded border"
+          style={{
+            backgroundColor: preview(PREVIEW_PAGE.card, 'background'),
+            color: preview(PREVIEW_PAGE.text, 'text'),
+            borderColor: preview(PREVIEW_PAGE.border, 'border'),
+            filter: transformer.pageFilter,
+          }}
+        >
+          A light card with <span style={{ color: preview(PREVIEW_PAGE.accent, 'text') }}>accent text</span>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_APPEARANCE)}
+        className="px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 text-gray-900 text-xs"
+      >
+        Reset appearance
+      </button>
+    </div>
+  );
+}
+
+export default AppearanceControls;